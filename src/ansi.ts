@@ -0,0 +1,18 @@
+/**
+ * ANSI escape sequence handling for output captured from a terminal
+ */
+
+// CSI sequences (colors, cursor movement), OSC sequences (window titles, hyperlinks)
+// and the remaining two-byte escapes
+const ANSI_PATTERN = /\x1b\[[0-?]*[ -/]*[@-~]|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)|\x1b[@-Z\\-_]/g;
+
+/**
+ * Remove escape sequences, leaving the text a reader would see
+ */
+export function stripAnsi(text: string): string {
+  return text.replace(ANSI_PATTERN, '');
+}
+
+export function hasAnsi(text: string): boolean {
+  return text.includes('\x1b');
+}
@@ -0,0 +1,21 @@
+import { renameSync, unlinkSync, writeFileSync } from 'fs';
+
+/**
+ * Write a file by renaming a fully written temporary file over it, so
+ * concurrent readers never observe a partial write
+ */
+export function writeFileAtomic(filePath: string, data: string | Buffer): void {
+  // The temporary name is unique per process and ends in neither .json nor .logs
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  try {
+    writeFileSync(tempPath, data);
+    renameSync(tempPath, filePath);
+  } catch (error) {
+    try {
+      unlinkSync(tempPath);
+    } catch {
+      // Never created
+    }
+    throw error;
+  }
+}
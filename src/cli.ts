@@ -3,14 +3,22 @@
 import { spawn } from 'child_process';
 import { randomBytes } from 'crypto';
 import { resolve } from 'path';
-import { writeFileSync, mkdirSync, existsSync, readFileSync, appendFileSync, readdirSync, unlinkSync } from 'fs';
+import { mkdirSync, existsSync, readFileSync } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
 import { readFileSync as readPackageJson } from 'fs';
 import { fileURLToPath } from 'url';
 import { dirname } from 'path';
 import { createInterface } from 'readline';
-import type { LogEntry, LogSession } from './types.js';
+import { hasAnsi, stripAnsi } from './ansi.js';
+import { LineAssembler } from './line-assembler.js';
+import { parseJsonLogLine, parseLogfmtLine, type StructuredLog } from './structured-log.js';
+import { LevelClassifier, type LogSeverity } from './level-classifier.js';
+import { ServicePrefixDetector } from './service-prefix.js';
+import { HEARTBEAT_INTERVAL_MS, LogManager } from './log-manager.js';
+import { createStorage } from './storage.js';
+import { classifyTermination, isCleanTermination } from './termination.js';
+import type { LogEntry, LogLine, LogSession, StorageBackend, TerminationReason } from './types.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -19,11 +27,17 @@ interface LogPiperConfig {
   mcpServerPort?: number;
   mcpServerHost?: string;
   verbose?: boolean;
+  pty?: boolean;
+  levelRulesFile?: string;
+  ephemeral?: boolean;
 }
 
 interface TimestampedLine {
   content: string;
+  raw?: string; // Set when the line contained escape sequences
   timestamp: number; // Date.now()
+  sequence: number; // Capture order across stdout and stderr
+  level: LogSeverity;
 }
 
 class LogPiperCLI {
@@ -31,12 +45,27 @@ class LogPiperCLI {
   private sessionId: string;
   private session!: LogSession;
   private lineNumber: number = 0;
+  private lineSequence: number = 0;
   private dataDir: string;
+  private storage: StorageBackend;
   private chunkBuffer: TimestampedLine[] = [];
   private chunkLevel: 'stdout' | 'stderr' | null = null;
+  private chunkSeverity: LogSeverity | null = null;
+  private levelClassifier: LevelClassifier = new LevelClassifier();
+  // Keyed by stream and service so interleaved services don't share continuation state
+  private lastSeverity: Map<string, LogSeverity> = new Map();
+  private servicePrefixes: ServicePrefixDetector = new ServicePrefixDetector();
   private readonly chunkTimeThreshold = 500; // ms - increased for better log grouping
   private chunkFlushTimer: NodeJS.Timeout | null = null;
-  private currentServicePrefix: string | null = null;
+  private chunkService: string | undefined = undefined;
+  private servicePersistTimer: NodeJS.Timeout | null = null;
+  private readonly servicePersistDelay = 1000; // ms
+  private heartbeatTimer: NodeJS.Timeout | null = null;
+  private closedElsewhere = false; // Stopped through another CLI's duplicate prompt
+  private lineAssemblers: Record<'stdout' | 'stderr', LineAssembler> = {
+    stdout: new LineAssembler(),
+    stderr: new LineAssembler()
+  };
   private readonly maxChunkLines = 20;
   private readonly maxChunkBytes = 8192; // 8KB
 
@@ -49,6 +78,7 @@ class LogPiperCLI {
 
     this.dataDir = join(tmpdir(), 'logpiper');
     this.ensureDataDir();
+    this.storage = createStorage(this.dataDir);
 
     this.sessionId = this.generateSessionId();
     // Don't create session in constructor - do it when needed
@@ -75,26 +105,12 @@ class LogPiperCLI {
     }
 
     try {
-      const files = readdirSync(this.dataDir);
-      const activeSessions = [];
-
-      for (const file of files) {
-        if (file.endsWith('.json')) {
-          try {
-            const sessionFile = join(this.dataDir, file);
-            const sessionData = JSON.parse(readFileSync(sessionFile, 'utf8'));
-
-            // Only check running sessions
-            if (sessionData.status === 'running' &&
-              sessionData.projectDir === projectDir &&
-              sessionData.metadata?.commandSignature === commandSignature) {
-              activeSessions.push(sessionData);
-            }
-          } catch {
-            // Skip invalid session files
-          }
-        }
-      }
+      // Listing reconciles sessions whose CLI has died, so only live duplicates are reported
+      const activeSessions = new LogManager({ storage: this.storage }).listSessions().filter(session =>
+        session.status === 'running' &&
+        session.projectDir === projectDir &&
+        session.metadata?.commandSignature === commandSignature
+      );
 
       if (activeSessions.length > 0) {
         console.log(`\n⚠️  Found ${activeSessions.length} existing session(s) for the same command:`);
@@ -204,32 +220,12 @@ class LogPiperCLI {
   }
 
   /**
-   * Close a specific session by marking it as stopped and cleaning up
+   * Close a specific session by marking it as stopped. Its files are left to
+   * the retention policy.
    */
   private closeSession(sessionId: string): void {
     try {
-      const sessionFile = join(this.dataDir, `${sessionId}.json`);
-      const logsFile = join(this.dataDir, `${sessionId}.logs`);
-      
-      if (existsSync(sessionFile)) {
-        const session = JSON.parse(readFileSync(sessionFile, 'utf8'));
-        session.status = 'stopped';
-        session.endTime = new Date();
-        session.autoCleanupScheduled = true;
-        writeFileSync(sessionFile, JSON.stringify(session, null, 2));
-        
-        // Schedule cleanup
-        setTimeout(() => {
-          try {
-            if (existsSync(sessionFile)) unlinkSync(sessionFile);
-            if (existsSync(logsFile)) unlinkSync(logsFile);
-          } catch (cleanupError) {
-            if (this.config.verbose) {
-              console.error(`Failed to cleanup session ${sessionId}:`, cleanupError);
-            }
-          }
-        }, 500);
-      }
+      this.storage.recordSessionEnd(sessionId, { status: 'stopped', endTime: new Date() });
     } catch (error) {
       if (this.config.verbose) {
         console.error(`Failed to close session ${sessionId}:`, error);
@@ -268,6 +264,10 @@ OPTIONS:
   -h, --help         Show this help message
   -V, --version      Show version number
   -v, --verbose      Enable verbose logging
+      --pty          Run the command in a pseudo-terminal to keep colors and interactive output
+      --level-rules=<file>
+                     JSON file with extra severity rules: [{"pattern": "...", "flags": "i", "level": "error"}]
+      --ephemeral    Delete the session's logs as soon as the command finishes
       --install-agent Install LogPiper monitoring agent for Claude Code
 
 EXAMPLES:
@@ -277,6 +277,9 @@ EXAMPLES:
   # Monitor tests with verbose output
   logpiper --verbose npm test
 
+  # Keep colors and progress output of tools that detect a terminal
+  logpiper --pty npx vite
+
   # Monitor Docker container logs
   docker logs -f myapp 2>&1 | logpiper
 
@@ -367,15 +370,19 @@ and analysis in Claude Code`);
       errorHistory: [],
       lastActivity: new Date(),
       pid: undefined,
+      cliPid: process.pid,
+      heartbeatAt: new Date(),
+      ...(this.config.ephemeral && { ephemeral: true }),
       metadata: {
         commandSignature,
         projectName: projectDir.split(/[/\\]/).pop() || 'unknown',
-        workingDirectory: projectDir
+        workingDirectory: projectDir,
+        captureMode: this.config.pty ? 'pty' : 'pipe'
       }
     };
   }
 
-  private createLogEntry(content: string, logLevel: 'stdout' | 'stderr'): LogEntry {
+  private createLogEntry(content: string, stream: 'stdout' | 'stderr', extra: Partial<LogEntry> = {}): LogEntry {
     return {
       id: `${this.sessionId}_${this.lineNumber}`,
       sessionId: this.sessionId,
@@ -383,9 +390,11 @@ and analysis in Claude Code`);
       command: this.session.command,
       args: this.session.args,
       timestamp: new Date(),
-      logLevel,
+      logLevel: stream,
+      stream,
       content: content.trim(),
-      lineNumber: this.lineNumber++
+      lineNumber: this.lineNumber++,
+      ...extra
     };
   }
 
@@ -393,40 +402,31 @@ and analysis in Claude Code`);
     try {
       // Store session data
       if (data.type === 'session_start') {
-        const sessionFile = join(this.dataDir, `${this.sessionId}.json`);
-        writeFileSync(sessionFile, JSON.stringify(data.data, null, 2));
+        this.storage.saveSession(data.data);
+        this.startHeartbeat();
       }
 
       // Store log entries
       if (data.type === 'log_entry') {
-        const logsFile = join(this.dataDir, `${this.sessionId}.logs`);
-        appendFileSync(logsFile, JSON.stringify(data.data) + '\n');
+        this.storage.addLog(data.data);
+
+        if (data.data.service) {
+          this.recordServiceStats(data.data);
+        }
       }
 
-      // Update session status and schedule cleanup for terminated sessions
+      // Update session status and apply the retention policy for terminated sessions
       if (data.type === 'session_end' || data.type === 'session_interrupt' || data.type === 'process_error') {
-        const sessionFile = join(this.dataDir, `${this.sessionId}.json`);
-        if (existsSync(sessionFile)) {
-          const session = JSON.parse(readFileSync(sessionFile, 'utf8'));
-          if (data.type === 'session_end') {
-            // Preserve the status set by the child close handler
-            session.status = this.session.status;
-            session.endTime = data.data.endTime;
-          } else if (data.type === 'process_error') {
-            session.status = 'crashed';
-            session.endTime = new Date();
-          } else if (data.type === 'session_interrupt') {
-            session.status = 'stopped';
-            session.endTime = data.data.timestamp;
-          }
-          session.autoCleanupScheduled = true;
-          writeFileSync(sessionFile, JSON.stringify(session, null, 2));
+        if (this.servicePersistTimer) {
+          clearTimeout(this.servicePersistTimer);
+          this.servicePersistTimer = null;
         }
+        this.stopHeartbeat();
+
+        // How the session ended was recorded by markTerminated before sending
+        this.persistTermination();
 
-        // Schedule immediate cleanup for terminated sessions
-        setTimeout(() => {
-          this.cleanupTerminatedSession();
-        }, 500); // Short delay to ensure session file is written
+        await this.applyRetentionPolicy();
       }
 
       if (this.config.verbose) {
@@ -439,80 +439,245 @@ and analysis in Claude Code`);
     }
   }
 
-  private cleanupTerminatedSession(): void {
+  private recordServiceStats(entry: LogEntry): void {
+    const services = this.session.services ??= {};
+    const stats = services[entry.service!] ??= {
+      entries: 0,
+      lines: 0,
+      errorCount: 0,
+      warningCount: 0,
+      firstSeen: entry.timestamp,
+      lastActivity: entry.timestamp
+    };
+
+    stats.entries++;
+    stats.lines += entry.lines?.length ?? 1;
+    if (entry.logLevel === 'error') stats.errorCount++;
+    if (entry.logLevel === 'warn') stats.warningCount++;
+    stats.lastActivity = entry.timestamp;
+
+    if (!this.servicePersistTimer) {
+      this.servicePersistTimer = setTimeout(() => {
+        this.servicePersistTimer = null;
+        this.persistSessionState();
+      }, this.servicePersistDelay);
+    }
+  }
+
+  /**
+   * Write the heartbeat, last activity and per-service stats into the session
+   * file, leaving the fields others write alone. A stalled CLI that was taken
+   * for dead and marked orphaned is running again after the write; a session
+   * closed by another CLI's duplicate prompt stays stopped.
+   */
+  private persistSessionState(): void {
     try {
-      const sessionFile = join(this.dataDir, `${this.sessionId}.json`);
-      const logsFile = join(this.dataDir, `${this.sessionId}.logs`);
-
-      // Check if session is marked for auto cleanup
-      if (existsSync(sessionFile)) {
-        const session = JSON.parse(readFileSync(sessionFile, 'utf8'));
-        if (session.autoCleanupScheduled && session.status !== 'running') {
-          // Remove session and log files
-          try {
-            if (existsSync(sessionFile)) {
-              unlinkSync(sessionFile);
-              if (this.config.verbose) {
-                console.error(`Cleaned up session file: ${sessionFile}`);
-              }
-            }
-            if (existsSync(logsFile)) {
-              unlinkSync(logsFile);
-              if (this.config.verbose) {
-                console.error(`Cleaned up logs file: ${logsFile}`);
-              }
-            }
-          } catch (cleanupError) {
-            if (this.config.verbose) {
-              console.error('Failed to cleanup session files:', cleanupError);
-            }
-          }
+      this.session.heartbeatAt = new Date();
+      this.storage.updateSession(this.sessionId, session => {
+        if (this.isClosedElsewhere(session)) {
+          return false;
         }
+        if (session.status === 'orphaned') {
+          session.status = 'running';
+        }
+        this.copyOwnedFields(session);
+      });
+    } catch (error) {
+      if (this.config.verbose) {
+        console.error('Failed to store session state:', error);
+      }
+    }
+  }
+
+  /**
+   * Record how the session ended. A session already closed elsewhere keeps
+   * its status and end time, and gets the exit details.
+   */
+  private persistTermination(): void {
+    this.storage.updateSession(this.sessionId, session => {
+      if (!this.isClosedElsewhere(session)) {
+        session.status = this.session.status;
+        session.endTime = this.session.endTime;
+      }
+      session.durationMs = this.session.durationMs;
+      session.terminationReason = this.session.terminationReason;
+      if (this.session.exitCode !== undefined) session.exitCode = this.session.exitCode;
+      if (this.session.signal !== undefined) session.signal = this.session.signal;
+      this.copyOwnedFields(session);
+    });
+  }
+
+  /**
+   * Whether the session was stopped by another CLI; this CLI only ever
+   * writes a final status when the command ends, so that is final
+   */
+  private isClosedElsewhere(session: LogSession): boolean {
+    if (session.status !== 'stopped' || this.closedElsewhere) {
+      return this.closedElsewhere;
+    }
+
+    this.closedElsewhere = true;
+    this.stopHeartbeat();
+    if (this.config.verbose) {
+      console.error(`Session ${this.sessionId} was closed by another logpiper process; output is still captured`);
+    }
+    return true;
+  }
+
+  private copyOwnedFields(session: LogSession): void {
+    session.heartbeatAt = this.session.heartbeatAt;
+    session.lastActivity = this.session.lastActivity;
+    if (this.session.services) {
+      session.services = this.session.services;
+    }
+  }
+
+  /**
+   * Refresh heartbeatAt so the server can tell a live session from one whose CLI was killed
+   */
+  private startHeartbeat(): void {
+    this.heartbeatTimer = setInterval(() => this.persistSessionState(), HEARTBEAT_INTERVAL_MS);
+    this.heartbeatTimer.unref();
+  }
+
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+  }
+
+  /**
+   * Record how the session ended; the status follows from the reason
+   */
+  private markTerminated(reason: TerminationReason, exitCode?: number | null, signal?: string | null): void {
+    this.session.endTime = new Date();
+    this.session.durationMs = this.session.endTime.getTime() - new Date(this.session.startTime).getTime();
+    this.session.terminationReason = reason;
+    this.session.status = isCleanTermination(reason) ? 'stopped' : 'crashed';
+    if (exitCode !== undefined) this.session.exitCode = exitCode;
+    if (signal !== undefined) this.session.signal = signal;
+  }
+
+  /**
+   * Finished sessions are kept for post-mortem analysis; the retention policy
+   * decides when they go, and removes this one right away with --ephemeral
+   */
+  private async applyRetentionPolicy(): Promise<void> {
+    try {
+      const result = await new LogManager({ storage: this.storage }).cleanupOldSessions();
+      if (this.config.verbose && result.deletedSessions > 0) {
+        console.error(`Retention policy: ${result.message}`);
       }
     } catch (error) {
       if (this.config.verbose) {
-        console.error('Error during session cleanup:', error);
+        console.error('Failed to apply retention policy:', error);
       }
     }
   }
 
   private async handleOutput(data: Buffer, logLevel: 'stdout' | 'stderr'): Promise<void> {
-    const content = data.toString();
-    const lines = content.split('\n').filter(line => line.length > 0);
-    const timestamp = Date.now();
-
-    // Display output immediately for real-time feedback
-    for (const line of lines) {
-      console.log(line);
+    // Display output immediately and untouched for real-time feedback
+    if (logLevel === 'stderr') {
+      process.stderr.write(data);
+    } else {
+      process.stdout.write(data);
     }
 
-    // Add to chunk buffer with timestamps
-    this.addToChunk(lines, logLevel, timestamp);
+    this.addLines(this.lineAssemblers[logLevel].push(data), logLevel);
     this.session.lastActivity = new Date();
   }
 
-  private addToChunk(lines: string[], logLevel: 'stdout' | 'stderr', timestamp: number): void {
-    // Check if we need to flush current chunk before adding new lines
-    if (this.shouldFlushChunk(logLevel, lines)) {
-      this.flushChunk();
-    }
+  private addLines(rawLines: string[], logLevel: 'stdout' | 'stderr'): void {
+    const timestamp = Date.now();
+
+    for (const raw of rawLines) {
+      if (raw.length === 0) continue;
+
+      // Store readable text; keep escape sequences separately for replay
+      const ansi = hasAnsi(raw);
+      const text = ansi ? stripAnsi(raw) : raw;
 
-    // Update current service prefix from first line
-    if (lines.length > 0) {
-      const servicePrefix = this.extractServicePrefix(lines[0]);
-      if (servicePrefix) {
-        this.currentServicePrefix = servicePrefix;
+      // Multiplexed output: the service goes on the entry, not in the content
+      const servicePrefix = this.servicePrefixes.split(text);
+      const service = servicePrefix?.service;
+      const content = servicePrefix ? servicePrefix.content : text;
+      if (servicePrefix && content.trim().length === 0) continue;
+
+      const sequence = this.lineSequence++;
+
+      const structured = this.parseStructuredLine(content);
+      if (structured) {
+        // Structured lines are self-contained events, so each becomes its own entry
+        this.flushChunk();
+        this.writeStructuredEntry(content, ansi ? raw : undefined, timestamp, sequence, structured, logLevel, service);
+        continue;
       }
+
+      const severityKey = `${logLevel}:${service ?? ''}`;
+      const level = this.levelClassifier.classify(content, this.lastSeverity.get(severityKey));
+      this.lastSeverity.set(severityKey, level);
+
+      this.addToChunk([{
+        content,
+        ...(ansi && { raw }),
+        timestamp,
+        sequence,
+        level
+      }], logLevel, service);
     }
+  }
 
-    // Add lines to buffer with timestamps
-    const timestampedLines: TimestampedLine[] = lines.map(content => ({
-      content,
-      timestamp
-    }));
+  private parseStructuredLine(line: string): StructuredLog | null {
+    return this.isJsonLikeLine(line) ? parseJsonLogLine(line) : parseLogfmtLine(line);
+  }
+
+  private writeStructuredEntry(
+    content: string,
+    raw: string | undefined,
+    timestamp: number,
+    sequence: number,
+    structured: StructuredLog,
+    stream: 'stdout' | 'stderr',
+    service: string | undefined
+  ): void {
+    const message = structured.message ?? content;
+    const level = structured.level ?? this.levelClassifier.classify(message);
+
+    const logEntry = this.createLogEntry(message, stream, {
+      logLevel: level,
+      ...(raw !== undefined && { raw }),
+      lines: [{ content: message, timestamp: new Date(timestamp), sequence, level }],
+      ...(structured.timestamp && { sourceTimestamp: structured.timestamp }),
+      fields: structured.fields,
+      ...(service && { service })
+    });
+
+    this.sendToMCPServer({
+      type: 'log_entry',
+      data: logEntry
+    });
+  }
+
+  /**
+   * Emit partial lines still held by the assemblers, then the pending chunk
+   */
+  private async flushOutput(): Promise<void> {
+    this.addLines(this.lineAssemblers.stdout.flush(), 'stdout');
+    this.addLines(this.lineAssemblers.stderr.flush(), 'stderr');
+    await this.flushChunk();
+  }
+
+  private addToChunk(lines: TimestampedLine[], logLevel: 'stdout' | 'stderr', service: string | undefined): void {
+    // Check if we need to flush current chunk before adding new lines
+    if (this.shouldFlushChunk(logLevel, lines, service)) {
+      this.flushChunk();
+    }
 
-    this.chunkBuffer.push(...timestampedLines);
+    this.chunkBuffer.push(...lines);
     this.chunkLevel = logLevel;
+    this.chunkService = service;
+    this.chunkSeverity = lines[lines.length - 1].level;
 
     // Set or reset flush timer to batch log entries
     if (this.chunkFlushTimer) {
@@ -524,66 +689,44 @@ and analysis in Claude Code`);
     }, this.chunkTimeThreshold);
   }
 
-  private extractServicePrefix(line: string): string | null {
-    // Match docker-compose service prefixes like "crowbar-mongodb        |"
-    const dockerComposeMatch = line.match(/^([a-zA-Z0-9_-]+)\s*\|\s*/);
-    if (dockerComposeMatch) {
-      return dockerComposeMatch[1];
-    }
-
-    // Match other common service patterns like "[service-name]" or "service-name:"
-    const serviceBracketMatch = line.match(/^\[([a-zA-Z0-9_-]+)\]/);
-    if (serviceBracketMatch) {
-      return serviceBracketMatch[1];
-    }
-
-    const serviceColonMatch = line.match(/^([a-zA-Z0-9_-]+):\s/);
-    if (serviceColonMatch) {
-      return serviceColonMatch[1];
-    }
-
-    return null;
-  }
-
   private isJsonLikeLine(line: string): boolean {
     const trimmed = line.trim();
     return (trimmed.startsWith('{') && trimmed.includes('"')) ||
       (trimmed.includes('"t":{"$date":') && trimmed.includes('"s":'));
   }
 
-  private shouldFlushChunk(newLogLevel: 'stdout' | 'stderr', newLines: string[]): boolean {
+  private shouldFlushChunk(newLogLevel: 'stdout' | 'stderr', newLines: TimestampedLine[], newService: string | undefined): boolean {
     // Flush if no current chunk exists
     if (this.chunkLevel === null || this.chunkBuffer.length === 0) {
       return false;
     }
 
-    // Flush if log level changed
+    // Flush if the stream changed
     if (this.chunkLevel !== newLogLevel) {
       return true;
     }
 
+    // Each entry belongs to a single service
+    if (this.chunkService !== newService) {
+      return true;
+    }
+
+    // Keep entries single-severity so level filters stay precise
+    if (newLines.length > 0 && this.chunkSeverity !== newLines[0].level) {
+      return true;
+    }
+
     // Check size limits
     if (this.chunkBuffer.length >= this.maxChunkLines) {
       return true;
     }
 
     const currentSize = this.chunkBuffer.reduce((sum, line) => sum + line.content.length, 0);
-    const newSize = newLines.reduce((sum, line) => sum + line.length, 0);
+    const newSize = newLines.reduce((sum, line) => sum + line.content.length, 0);
     if (currentSize + newSize > this.maxChunkBytes) {
       return true;
     }
 
-    // Check for service prefix change (content-based grouping)
-    if (newLines.length > 0) {
-      const newServicePrefix = this.extractServicePrefix(newLines[0]);
-
-      // If we have a current service and new lines have a different service, flush
-      if (this.currentServicePrefix && newServicePrefix &&
-        this.currentServicePrefix !== newServicePrefix) {
-        return true;
-      }
-    }
-
     return false;
   }
 
@@ -596,19 +739,40 @@ and analysis in Claude Code`);
       this.chunkFlushTimer = null;
     }
 
+    // Take the chunk before awaiting so lines added meanwhile start a new chunk
+    const lines = this.chunkBuffer;
+    const logLevel = this.chunkLevel!;
+    const severity = this.chunkSeverity!;
+    const service = this.chunkService;
+    this.chunkBuffer = [];
+    this.chunkLevel = null;
+    this.chunkSeverity = null;
+    this.chunkService = undefined;
+
     // Extract content from timestamped lines and combine
-    const combinedContent = this.chunkBuffer.map(line => line.content).join('\n');
-    const logEntry = this.createLogEntry(combinedContent, this.chunkLevel!);
+    const combinedContent = lines.map(line => line.content).join('\n');
+    const hasRaw = lines.some(line => line.raw !== undefined);
+    const combinedRaw = hasRaw
+      ? lines.map(line => line.raw ?? line.content).join('\n')
+      : undefined;
+    // Keep each line's own capture time and order alongside the combined content
+    const logLines: LogLine[] = lines.map(line => ({
+      content: line.content,
+      timestamp: new Date(line.timestamp),
+      sequence: line.sequence,
+      level: line.level
+    }));
+    const logEntry = this.createLogEntry(combinedContent, logLevel, {
+      logLevel: severity,
+      ...(combinedRaw !== undefined && { raw: combinedRaw }),
+      lines: logLines,
+      ...(service && { service })
+    });
 
     await this.sendToMCPServer({
       type: 'log_entry',
       data: logEntry
     });
-
-    // Reset chunk state
-    this.chunkBuffer = [];
-    this.chunkLevel = null;
-    this.currentServicePrefix = null;
   }
 
   private async runPipeMode(): Promise<void> {
@@ -630,10 +794,9 @@ and analysis in Claude Code`);
 
     process.stdin.on('end', async () => {
       // Flush any remaining chunk before ending
-      await this.flushChunk();
+      await this.flushOutput();
 
-      this.session.status = 'stopped';
-      this.session.endTime = new Date();
+      this.markTerminated('success');
 
       await this.sendToMCPServer({
         type: 'session_end',
@@ -651,7 +814,9 @@ and analysis in Claude Code`);
       console.error('\n⏹️  Stopping logpiper...');
 
       // Flush any remaining chunk before interrupting
-      await this.flushChunk();
+      await this.flushOutput();
+
+      this.markTerminated('signal_graceful', null, 'SIGINT');
 
       await this.sendToMCPServer({
         type: 'session_interrupt',
@@ -668,6 +833,43 @@ and analysis in Claude Code`);
     });
   }
 
+  /**
+   * Custom severity rules are checked before the built-in ones
+   */
+  private loadLevelRules(rulesFile: string): void {
+    try {
+      const configs = JSON.parse(readFileSync(resolve(rulesFile), 'utf8'));
+      this.levelClassifier = new LevelClassifier(LevelClassifier.parseRules(configs));
+    } catch (error) {
+      console.error(`❌ Invalid level rules file ${rulesFile}:`, error instanceof Error ? error.message : error);
+      process.exit(1);
+    }
+  }
+
+  /**
+   * Resolve what to spawn. In pty mode the command runs under script(1), which
+   * allocates a pseudo-terminal so the child renders as it would interactively.
+   * stdout and stderr share that terminal, so all output arrives on stdout.
+   */
+  private getSpawnCommand(): { spawnCommand: string, spawnArgs: string[] } {
+    const { command, args } = this.session;
+
+    if (!this.config.pty) {
+      return { spawnCommand: command, spawnArgs: args };
+    }
+
+    if (process.platform === 'linux') {
+      const quoted = [command, ...args]
+        .map(part => `'${part.replace(/'/g, `'\\''`)}'`)
+        .join(' ');
+      // -q: no banner, -e: propagate the exit code, -f: flush on every write
+      return { spawnCommand: 'script', spawnArgs: ['-qefc', quoted, '/dev/null'] };
+    }
+
+    // BSD/macOS script takes the command as trailing arguments
+    return { spawnCommand: 'script', spawnArgs: ['-q', '/dev/null', command, ...args] };
+  }
+
   async run(): Promise<void> {
     // Check for special flags first
     const allArgs = process.argv.slice(2);
@@ -690,8 +892,17 @@ and analysis in Claude Code`);
       return;
     }
 
+    if (this.config.levelRulesFile) {
+      this.loadLevelRules(this.config.levelRulesFile);
+    }
+
     const { command, args } = this.parseArguments();
 
+    if (this.config.pty && (!command || process.platform === 'win32')) {
+      console.error('⚠️  --pty needs a command and is not supported on Windows; capturing through pipes');
+      this.config.pty = false;
+    }
+
     if (!command) {
       // Handle pipe mode - read from stdin
       await this.runPipeMode();
@@ -709,7 +920,8 @@ and analysis in Claude Code`);
       data: this.session
     });
 
-    const child = spawn(this.session.command, this.session.args, {
+    const { spawnCommand, spawnArgs } = this.getSpawnCommand();
+    const child = spawn(spawnCommand, spawnArgs, {
       cwd: this.session.projectDir,
       stdio: ['inherit', 'pipe', 'pipe'],
       shell: process.platform === 'win32'
@@ -727,17 +939,11 @@ and analysis in Claude Code`);
 
     child.on('close', async (code, signal) => {
       // Flush any remaining chunk before ending session
-      await this.flushChunk();
+      await this.flushOutput();
 
       // Distinguish between crashes and graceful terminations
-      // Common signals that indicate graceful shutdown: SIGINT, SIGTERM, SIGHUP
-      const isGracefulShutdown = signal === 'SIGINT' || signal === 'SIGTERM' || signal === 'SIGHUP' ||
-        // Also check for common signal exit codes: 130 (SIGINT), 143 (SIGTERM), 129 (SIGHUP)
-        code === 130 || code === 143 || code === 129;
-      const isSuccess = code === 0;
-      
-      this.session.status = isSuccess || isGracefulShutdown ? 'stopped' : 'crashed';
-      this.session.endTime = new Date();
+      const reason = classifyTermination(code, signal);
+      this.markTerminated(reason, code, signal);
 
       await this.sendToMCPServer({
         type: 'session_end',
@@ -749,12 +955,16 @@ and analysis in Claude Code`);
         }
       });
 
-      if (isSuccess) {
+      if (reason === 'success') {
         console.log(`\n✅ Process completed successfully (code: ${code})`);
-      } else if (isGracefulShutdown) {
+      } else if (reason === 'signal_graceful') {
         console.log(`\n⏹️  Process terminated gracefully by signal ${signal} (code: ${code})`);
+      } else if (reason === 'killed_sigkill_possible_oom') {
+        console.log(`\n❌ Process was killed with SIGKILL, possibly by the out-of-memory killer (code: ${code})`);
+      } else if (reason === 'segfault') {
+        console.log(`\n❌ Process crashed with a segmentation fault (signal: ${signal}, code: ${code})`);
       } else {
-        console.log(`\n❌ Process crashed (code: ${code})`);
+        console.log(`\n❌ Process crashed (code: ${code}${signal ? `, signal: ${signal}` : ''})`);
       }
 
       // Wait a moment for cleanup to complete
@@ -765,9 +975,9 @@ and analysis in Claude Code`);
 
     child.on('error', async (error) => {
       // Flush any remaining chunk before crashing
-      await this.flushChunk();
+      await this.flushOutput();
 
-      this.session.status = 'crashed';
+      this.markTerminated('spawn_error');
 
       await this.sendToMCPServer({
         type: 'process_error',
@@ -786,7 +996,7 @@ and analysis in Claude Code`);
       console.log('\n⏹️  Stopping logpiper...');
 
       // Flush any remaining chunk before interrupting
-      await this.flushChunk();
+      await this.flushOutput();
 
       child.kill('SIGTERM');
 
@@ -794,6 +1004,8 @@ and analysis in Claude Code`);
         child.kill('SIGKILL');
       }, 5000);
 
+      this.markTerminated('signal_graceful', null, 'SIGINT');
+
       await this.sendToMCPServer({
         type: 'session_interrupt',
         data: {
@@ -811,7 +1023,10 @@ and analysis in Claude Code`);
 }
 
 const cli = new LogPiperCLI({
-  verbose: process.argv.includes('--verbose') || process.argv.includes('-v')
+  verbose: process.argv.includes('--verbose') || process.argv.includes('-v'),
+  pty: process.argv.includes('--pty'),
+  ephemeral: process.argv.includes('--ephemeral'),
+  levelRulesFile: process.argv.find(arg => arg.startsWith('--level-rules='))?.slice('--level-rules='.length)
 });
 
 cli.run().catch((error) => {
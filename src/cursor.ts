@@ -0,0 +1,111 @@
+/**
+ * Opaque pagination cursors.
+ *
+ * A cursor marks a position between two entries of a session: after the entry
+ * with a given sequence number (LogEntry.lineNumber). Sequence numbers never
+ * change once written, so a cursor stays valid when earlier lines are dropped
+ * or the log is split into segments. Forward reads return the entries after
+ * the position, reverse reads the entries up to it.
+ *
+ * A relevance-ranked search has no position in the log; its cursors also
+ * carry a rank position and `sequence` is the newest entry ranked.
+ *
+ * A timeline merging several sessions carries one sequence number per session.
+ */
+
+const CURSOR_VERSION = 'lp1';
+
+export interface CursorPosition {
+  sessionId: string;
+  segment: number; // Log segment holding the position; a hint for seeking
+  sequence: number; // lineNumber of the last entry before the position, -1 before the first entry
+  rank?: RankPosition;
+}
+
+export interface RankPosition {
+  offset: number; // Ranked matches already returned
+  asOf: number; // Time (ms) the ranking was computed for, so later pages rank the same way
+}
+
+export class InvalidCursorError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidCursorError';
+  }
+}
+
+export function encodeCursor(position: CursorPosition): string {
+  const fields: unknown[] = [position.sessionId, position.segment, position.sequence];
+  if (position.rank) {
+    fields.push([position.rank.offset, position.rank.asOf]);
+  }
+  return encodePayload(fields);
+}
+
+function encodePayload(fields: unknown[]): string {
+  const payload = JSON.stringify(fields);
+  return `${CURSOR_VERSION}.${Buffer.from(payload).toString('base64url')}`;
+}
+
+function decodePayload(token: string): unknown {
+  const [version, payload] = token.split('.', 2);
+  if (version !== CURSOR_VERSION || !payload) {
+    throw new InvalidCursorError(`Unsupported cursor "${token}"; pass a cursor returned by a previous call`);
+  }
+
+  try {
+    return JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+  } catch {
+    throw new InvalidCursorError(`Malformed cursor "${token}"`);
+  }
+}
+
+/**
+ * Cursor positioned after the entry with the given sequence number
+ */
+export function cursorAfter(sessionId: string, sequence: number, segment: number = 0): string {
+  return encodeCursor({ sessionId, segment, sequence });
+}
+
+/**
+ * Decode a cursor returned by an earlier call for the same session
+ */
+export function decodeCursor(token: string, sessionId: string): CursorPosition {
+  const fields = decodePayload(token);
+  if (!Array.isArray(fields) || typeof fields[0] !== 'string' ||
+      !Number.isInteger(fields[1]) || !Number.isInteger(fields[2]) ||
+      (fields[3] !== undefined && !(Array.isArray(fields[3]) && fields[3].length === 2 && fields[3].every(Number.isInteger)))) {
+    throw new InvalidCursorError(`Malformed cursor "${token}"`);
+  }
+
+  if (fields[0] !== sessionId) {
+    throw new InvalidCursorError(`Cursor belongs to session ${fields[0]}, not ${sessionId}`);
+  }
+
+  const position: CursorPosition = { sessionId: fields[0], segment: fields[1], sequence: fields[2] };
+  if (fields[3] !== undefined) {
+    position.rank = { offset: fields[3][0], asOf: fields[3][1] };
+  }
+  return position;
+}
+
+/**
+ * Cursor of a merged timeline: the lineNumber of the last entry returned from
+ * each session, -1 for sessions with none returned yet
+ */
+export function encodeTimelineCursor(positions: Map<string, number>): string {
+  return encodePayload([...positions]);
+}
+
+/**
+ * Decode a cursor returned by an earlier timeline call
+ */
+export function decodeTimelineCursor(token: string): Map<string, number> {
+  const fields = decodePayload(token);
+  if (!Array.isArray(fields) || fields.length === 0 || !fields.every(field =>
+      Array.isArray(field) && field.length === 2 && typeof field[0] === 'string' && Number.isInteger(field[1]))) {
+    throw new InvalidCursorError(`Malformed timeline cursor "${token}"`);
+  }
+
+  return new Map(fields as [string, number][]);
+}
@@ -154,7 +154,8 @@ export class ErrorDetector {
   }
 
   public analyzeLog(logEntry: LogEntry): ErrorEvent | null {
-    if (logEntry.logLevel === 'stdout' && !this.containsError(logEntry.content)) {
+    const isRoutineOutput = logEntry.logLevel === 'stdout' || logEntry.logLevel === 'info';
+    if (isRoutineOutput && !this.containsError(logEntry.content)) {
       return null;
     }
 
@@ -206,7 +207,8 @@ export class ErrorDetector {
     const context = this.extractErrorContext(logEntry);
     
     return {
-      id: `error_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      // The same in every server that detects it, so copies recorded by several servers collapse into one
+      id: `error_${logEntry.id}_${pattern.name}`,
       sessionId: logEntry.sessionId,
       timestamp: logEntry.timestamp,
       severity: pattern.severity,
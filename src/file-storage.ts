@@ -0,0 +1,260 @@
+import type {
+  ErrorEvent,
+  LogEntry,
+  LogFilter,
+  LogSession,
+  PaginationResult,
+  SearchOrder,
+  SessionEnd,
+  SessionRemoval,
+  StorageBackend
+} from './types.js';
+import { existsSync, mkdirSync, readdirSync, readFileSync, rmSync, statSync, unlinkSync } from 'fs';
+import { join } from 'path';
+import { parseLogEntry } from './log-entry.js';
+import { entryFilterFor, LogReader } from './log-reader.js';
+import { searchSession, searchSessions, type SearchSource } from './log-search.js';
+import { readSegmentLines, readSegmentManifest, type SegmentPolicy } from './log-segments.js';
+import { LogTailer } from './log-tailer.js';
+import { FileTermIndex } from './search-index.js';
+import { reviveSessionDates, SessionStore } from './session-store.js';
+
+/**
+ * The default backend: JSON and NDJSON files in the data directory, laid out
+ * as described in session-store.ts. Queries stream the session's log, and
+ * searches look up its term index, kept in memory once loaded.
+ */
+export class FileStorage implements StorageBackend {
+  readonly location: string;
+  private store: SessionStore;
+  private logReader: LogReader;
+  private termIndexes: Map<string, FileTermIndex> = new Map();
+
+  constructor(dataDir: string, segmentPolicy: Partial<SegmentPolicy> = {}) {
+    this.location = dataDir;
+    this.store = new SessionStore(dataDir, segmentPolicy);
+    this.logReader = new LogReader({
+      maxChunkSize: 1024 * 1024, // 1MB
+      defaultLimit: 100,
+    });
+  }
+
+  saveSession(session: LogSession): void {
+    if (!existsSync(this.location)) {
+      mkdirSync(this.location, { recursive: true });
+    }
+    this.store.writeSession(session);
+  }
+
+  hasSession(sessionId: string): boolean {
+    return existsSync(this.store.sessionPath(sessionId));
+  }
+
+  getSession(sessionId: string): LogSession | undefined {
+    const sessionData = this.store.readSession(sessionId);
+    return sessionData && reviveSessionDates(sessionData);
+  }
+
+  listSessions(): LogSession[] {
+    // Invalid session files are skipped
+    return this.store.listSessionIds()
+      .map(sessionId => this.getSession(sessionId))
+      .filter((session): session is LogSession => session !== undefined);
+  }
+
+  updateSession(sessionId: string, update: (session: LogSession) => boolean | void): boolean {
+    return this.store.updateSessionData(sessionId, update);
+  }
+
+  recordSessionEnd(sessionId: string, end: SessionEnd): void {
+    if (this.hasSession(sessionId)) {
+      this.store.appendSessionEnd(sessionId, end);
+    }
+  }
+
+  removeSession(sessionId: string): SessionRemoval {
+    this.termIndexes.delete(sessionId);
+    const result: SessionRemoval = { sessionDeleted: false, logsDeleted: false, errors: [] };
+    const sessionFile = this.store.sessionPath(sessionId);
+    const logsFile = this.store.logsPath(sessionId);
+
+    // Delete session file
+    if (existsSync(sessionFile)) {
+      try {
+        unlinkSync(sessionFile);
+        result.sessionDeleted = true;
+      } catch (error) {
+        result.errors.push(`Failed to delete session file: ${error}`);
+      }
+    }
+
+    // Delete logs file
+    if (existsSync(logsFile)) {
+      try {
+        unlinkSync(logsFile);
+        result.logsDeleted = true;
+      } catch (error) {
+        result.errors.push(`Failed to delete logs file: ${error}`);
+      }
+    }
+
+    // Delete closed log segments, the index, reader cursors and error history
+    const sidecarFiles = this.store.sessionFiles(sessionId).filter(file => file !== sessionFile && file !== logsFile);
+    for (const sidecarFile of sidecarFiles) {
+      try {
+        rmSync(sidecarFile, { recursive: true, force: true });
+      } catch (error) {
+        result.errors.push(`Failed to delete ${sidecarFile}: ${error}`);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Remove every file in the data directory
+   */
+  removeAllSessions(): { deletedSessions: number; deletedLogFiles: number; errors: string[] } {
+    const result = { deletedSessions: 0, deletedLogFiles: 0, errors: [] as string[] };
+    this.termIndexes.clear();
+    if (!existsSync(this.location)) {
+      return result;
+    }
+
+    for (const file of readdirSync(this.location)) {
+      try {
+        rmSync(join(this.location, file), { recursive: true, force: true });
+        if (file.endsWith('.json')) {
+          result.deletedSessions++;
+        } else if (file.endsWith('.logs')) {
+          result.deletedLogFiles++;
+        }
+      } catch (fileError) {
+        result.errors.push(`Failed to delete ${file}: ${fileError}`);
+      }
+    }
+
+    return result;
+  }
+
+  setReadCursor(sessionId: string, consumerId: string, cursor: string): void {
+    if (this.hasSession(sessionId)) {
+      this.store.writeReaderCursor(sessionId, consumerId, cursor);
+    }
+  }
+
+  recordErrorEvent(sessionId: string, errorEvent: ErrorEvent): void {
+    if (this.hasSession(sessionId)) {
+      this.store.appendError(sessionId, errorEvent);
+    }
+  }
+
+  addLog(entry: LogEntry): void {
+    this.store.appendLog(entry);
+  }
+
+  async getNewLogs(sessionId: string, since?: string, limit?: number, filter?: LogFilter): Promise<PaginationResult<LogEntry>> {
+    return this.logReader.getNewLogs(this.store.logsPath(sessionId), since, limit, entryFilterFor(filter));
+  }
+
+  async getLogsPaginated(
+    sessionId: string,
+    cursor?: string,
+    limit?: number,
+    reverse: boolean = false,
+    filter?: LogFilter
+  ): Promise<PaginationResult<LogEntry>> {
+    const logsFile = this.store.logsPath(sessionId);
+
+    // Forward reads of a time range seek to its start
+    if (!reverse && (filter?.startTime || filter?.endTime)) {
+      const { startTime = new Date(0), endTime = new Date(8.64e15), ...rest } = filter;
+      return this.logReader.readLogsByTimeRange(logsFile, startTime, endTime, cursor, limit, entryFilterFor(rest));
+    }
+
+    return this.logReader.readLogsPaginated(logsFile, cursor, limit, reverse, entryFilterFor(filter));
+  }
+
+  async searchLogs(
+    sessionId: string,
+    query: string,
+    cursor?: string,
+    limit: number = 100,
+    filter?: LogFilter,
+    order: SearchOrder = 'time'
+  ): Promise<PaginationResult<LogEntry>> {
+    return searchSession(await this.searchSource(sessionId), query, cursor, limit, filter, order);
+  }
+
+  async searchSessions(
+    sessionIds: string[],
+    query: string,
+    limit: number = 100,
+    filter?: LogFilter,
+    order: SearchOrder = 'time'
+  ): Promise<PaginationResult<LogEntry>> {
+    const sources = [];
+    for (const sessionId of sessionIds) {
+      sources.push(await this.searchSource(sessionId));
+    }
+    return searchSessions(sources, query, limit, filter, order);
+  }
+
+  /**
+   * A session's term index, caught up with its log, and a way to read the entries it finds
+   */
+  private async searchSource(sessionId: string): Promise<SearchSource> {
+    const logsFile = this.store.logsPath(sessionId);
+    let index = this.termIndexes.get(sessionId);
+    if (!index) {
+      index = new FileTermIndex(logsFile, (after, onEntry) => this.logReader.scanEntries(logsFile, after, onEntry));
+      this.termIndexes.set(sessionId, index);
+    }
+
+    await index.refresh();
+    return {
+      sessionId,
+      projectDir: this.store.readSessionData(sessionId)?.projectDir,
+      index,
+      fetch: (sequences, onEntry) => this.logReader.readEntries(logsFile, sequences, onEntry)
+    };
+  }
+
+  getAllLogs(sessionId: string): LogEntry[] {
+    const logsFile = this.store.logsPath(sessionId);
+
+    try {
+      // Closed segments hold the older entries
+      const lines = readSegmentManifest(logsFile).segments.flatMap(info => readSegmentLines(logsFile, info.segment));
+      if (existsSync(logsFile)) {
+        lines.push(...readFileSync(logsFile, 'utf8').trim().split('\n').filter(line => line.length > 0));
+      }
+      return lines.map(line => parseLogEntry(line));
+    } catch {
+      return [];
+    }
+  }
+
+  async getLogCount(sessionId: string): Promise<number> {
+    return this.logReader.getLogCount(this.store.logsPath(sessionId));
+  }
+
+  /**
+   * Bytes used on disk by a session's files
+   */
+  getDiskUsage(sessionId: string): number {
+    let bytes = 0;
+    for (const file of this.store.sessionFiles(sessionId)) {
+      try {
+        bytes += statSync(file).size;
+      } catch {
+        // File missing
+      }
+    }
+    return bytes;
+  }
+
+  watch(): LogTailer {
+    return new LogTailer(this.location);
+  }
+}
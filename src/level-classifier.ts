@@ -0,0 +1,117 @@
+/**
+ * Severity inference for plain-text output lines
+ */
+
+export type LogSeverity = 'info' | 'warn' | 'error';
+
+export interface LevelRule {
+  name: string;
+  pattern: RegExp;
+  level: LogSeverity;
+}
+
+/**
+ * Rule definition as written in a --level-rules JSON file
+ */
+export interface LevelRuleConfig {
+  name?: string;
+  pattern: string;
+  flags?: string;
+  level: LogSeverity;
+}
+
+export const DEFAULT_LEVEL_RULES: LevelRule[] = [
+  // Compiler diagnostics: gcc/clang/rustc "file:line:col: error:" and "error[E0382]:",
+  // tsc "file(line,col): error TS2345:" and, when pretty-printing, "file:line:col - error TS2345:"
+  { name: 'compiler_error', pattern: /^\s*(?:\S+?(?::\d+(?::\d+)?:|\(\d+,\d+\):|:\d+:\d+\s+-)\s*)?(?:fatal\s+)?error(?:\[\w+\]|\s+TS\d+)?:/i, level: 'error' },
+  { name: 'compiler_warning', pattern: /^\s*(?:\S+?(?::\d+(?::\d+)?:|\(\d+,\d+\):|:\d+:\d+\s+-)\s*)?warning(?:\[\w+\]|\s+TS\d+)?:/i, level: 'warn' },
+
+  // Go panics, Python tracebacks, JavaScript/Java exceptions
+  { name: 'go_panic', pattern: /^(?:panic:|fatal error:|goroutine \d+ \[running\]:)/, level: 'error' },
+  { name: 'python_traceback', pattern: /^Traceback \(most recent call last\):/, level: 'error' },
+  { name: 'exception', pattern: /^\s*(?:Uncaught\s+|Unhandled\s+|Caused by:\s+)?(?:[\w$]+\.)*[\w$]*(?:Error|Exception)(?:\s*\[[^\]]*\])?:/, level: 'error' },
+
+  // Android logcat "E/Tag:" and glog "E0102 15:04:05.000000"
+  { name: 'logcat', pattern: /^[EF]\/[\w.$-]+(?:\(\s*\d+\))?:/, level: 'error' },
+  { name: 'logcat', pattern: /^W\/[\w.$-]+(?:\(\s*\d+\))?:/, level: 'warn' },
+  { name: 'logcat', pattern: /^[IDV]\/[\w.$-]+(?:\(\s*\d+\))?:/, level: 'info' },
+  { name: 'glog', pattern: /^[EF]\d{4} \d{2}:\d{2}:\d{2}/, level: 'error' },
+  { name: 'glog', pattern: /^W\d{4} \d{2}:\d{2}:\d{2}/, level: 'warn' },
+  { name: 'glog', pattern: /^I\d{4} \d{2}:\d{2}:\d{2}/, level: 'info' },
+
+  // Bracketed levels in any case: [ERROR], [warn], <Warning>
+  { name: 'bracketed', pattern: /[[<(]\s*(?:fatal|error|err|crit(?:ical)?|severe|panic|emerg(?:ency)?|fail(?:ed|ure)?)\s*[\]>)]/i, level: 'error' },
+  { name: 'bracketed', pattern: /[[<(]\s*warn(?:ing)?\s*[\]>)]/i, level: 'warn' },
+  { name: 'bracketed', pattern: /[[<(]\s*(?:info|notice|debug|trace|verbose)\s*[\]>)]/i, level: 'info' },
+
+  // Upper-case level words used by python logging, log4j/logback, syslog-style and npm output:
+  // "ERROR:root:msg", "2024-01-01 12:00:00,123 WARN [main] c.f.App - msg", "npm ERR! code 1"
+  { name: 'level_word', pattern: /\b(?:FATAL|ERROR|ERR!?|CRITICAL|CRIT|SEVERE|PANIC|EMERG(?:ENCY)?|FAIL(?:ED)?)\b/, level: 'error' },
+  { name: 'level_word', pattern: /\b(?:WARN|WARNING)\b/, level: 'warn' },
+  { name: 'level_word', pattern: /\b(?:INFO|NOTICE|DEBUG|TRACE|VERBOSE)\b/, level: 'info' },
+
+  // Lower- or title-case level at the start of the line: "error: ...", "Warning - ..."
+  { name: 'leading_level', pattern: /^\s*(?:fatal|error|err|critical|panic)\b\s*[:!\-|]/i, level: 'error' },
+  { name: 'leading_level', pattern: /^\s*warn(?:ing)?\b\s*[:!\-|]/i, level: 'warn' },
+];
+
+// Stack frames and indented continuation lines belong to the line above them
+const CONTINUATION_PATTERN = /^(?:\s+\S|\s*at\s|\s*\.\.\.\s*\d+\s+more|\s*File ")/;
+
+export class LevelClassifier {
+  private customRules: LevelRule[];
+  private defaultRules: LevelRule[];
+
+  constructor(customRules: LevelRule[] = [], useDefaultRules: boolean = true) {
+    this.customRules = customRules;
+    this.defaultRules = useDefaultRules ? DEFAULT_LEVEL_RULES : [];
+  }
+
+  /**
+   * Build rules from their JSON configuration, rejecting invalid patterns early
+   */
+  static parseRules(configs: LevelRuleConfig[]): LevelRule[] {
+    return configs.map((config, index) => {
+      if (!['info', 'warn', 'error'].includes(config.level)) {
+        throw new Error(`Level rule ${index}: level must be info, warn or error`);
+      }
+
+      return {
+        name: config.name ?? `custom_${index}`,
+        pattern: new RegExp(config.pattern, config.flags),
+        level: config.level,
+      };
+    });
+  }
+
+  /**
+   * Classify a line. Custom rules win in order; among the default rules the
+   * level mentioned earliest in the line wins. Unmatched continuation lines
+   * inherit the previous line's level; anything else is info.
+   */
+  classify(line: string, previousLevel?: LogSeverity): LogSeverity {
+    for (const rule of this.customRules) {
+      if (rule.pattern.test(line)) {
+        return rule.level;
+      }
+    }
+
+    let best: { level: LogSeverity; index: number } | null = null;
+    for (const rule of this.defaultRules) {
+      const match = rule.pattern.exec(line);
+      if (match && (best === null || match.index < best.index)) {
+        best = { level: rule.level, index: match.index };
+      }
+    }
+
+    if (best) {
+      return best.level;
+    }
+
+    if (previousLevel && previousLevel !== 'info' && CONTINUATION_PATTERN.test(line)) {
+      return previousLevel;
+    }
+
+    return 'info';
+  }
+}
@@ -0,0 +1,88 @@
+import { StringDecoder } from 'string_decoder';
+import { hasAnsi } from './ansi.js';
+
+/**
+ * Turns a stream of output chunks into complete lines.
+ *
+ * - Multi-byte UTF-8 characters split across chunks are decoded correctly.
+ * - A line split across chunks is emitted once, when its newline arrives.
+ * - Carriage returns rewrite the current line the way a terminal does, so a
+ *   progress bar or spinner collapses into its final state.
+ */
+export class LineAssembler {
+  private decoder = new StringDecoder('utf8');
+  private current = '';
+  private column = 0;
+  private maxLineLength: number;
+
+  constructor(maxLineLength: number = 64 * 1024) {
+    this.maxLineLength = maxLineLength;
+  }
+
+  /**
+   * Feed a chunk of output and get the lines it completed
+   */
+  push(data: Buffer | string): string[] {
+    const text = typeof data === 'string' ? data : this.decoder.write(data);
+    return this.consume(text);
+  }
+
+  /**
+   * Return whatever is left once the stream has closed
+   */
+  flush(): string[] {
+    const lines = this.consume(this.decoder.end());
+    if (this.current.length > 0) {
+      lines.push(this.current);
+    }
+    this.reset();
+    return lines;
+  }
+
+  private consume(text: string): string[] {
+    const lines: string[] = [];
+    let start = 0;
+
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (char !== '\n' && char !== '\r') continue;
+
+      this.write(text.slice(start, i));
+      start = i + 1;
+
+      if (char === '\r') {
+        this.column = 0;
+      } else {
+        lines.push(this.current);
+        this.reset();
+      }
+    }
+
+    this.write(text.slice(start));
+
+    // Guard against output that never ends a line
+    if (this.current.length > this.maxLineLength) {
+      lines.push(this.current);
+      this.reset();
+    }
+
+    return lines;
+  }
+
+  private write(segment: string): void {
+    if (segment.length === 0) return;
+
+    if (this.column === 0 && this.current.length > 0 && (hasAnsi(this.current) || hasAnsi(segment))) {
+      // Column positions are unreliable with escape sequences; treat as a full rewrite
+      this.current = '';
+    }
+
+    this.current = this.current.slice(0, this.column) + segment + this.current.slice(this.column + segment.length);
+    this.column += segment.length;
+  }
+
+  private reset(): void {
+    this.current = '';
+    this.column = 0;
+  }
+}
@@ -0,0 +1,87 @@
+import type { LogEntry, LogLine } from './types.js';
+
+/**
+ * A single captured line with enough context to stand on its own
+ */
+export interface LogLineHit extends LogLine {
+  sessionId: string;
+  lineNumber: number; // lineNumber of the LogEntry the line belongs to
+  logLevel: LogEntry['logLevel'];
+  service?: string;
+  match?: boolean; // Set on lines returned as context of search hits
+}
+
+/**
+ * Parse one line of a `.logs` file, restoring Date fields
+ */
+export function parseLogEntry(line: string): LogEntry {
+  const entry = JSON.parse(line) as LogEntry;
+  entry.timestamp = new Date(entry.timestamp);
+  if (entry.sourceTimestamp) {
+    entry.sourceTimestamp = new Date(entry.sourceTimestamp);
+  }
+  if (entry.lines) {
+    for (const logLine of entry.lines) {
+      logLine.timestamp = new Date(logLine.timestamp);
+    }
+  }
+  return entry;
+}
+
+/**
+ * Lines of an entry. Entries written before per-line capture existed
+ * fall back to splitting the content and sharing the entry timestamp.
+ */
+export function getEntryLines(entry: LogEntry): LogLine[] {
+  if (entry.lines && entry.lines.length > 0) {
+    return entry.lines;
+  }
+
+  return entry.content.split('\n').map(content => ({
+    content,
+    timestamp: entry.timestamp,
+  }));
+}
+
+/**
+ * Flatten entries into individual lines in capture order
+ * @param match marks each line as matching or not when given
+ */
+export function flattenEntryLines(
+  entries: LogEntry[],
+  filter?: (line: LogLine, entry: LogEntry) => boolean,
+  match?: (line: LogLine, entry: LogEntry) => boolean
+): LogLineHit[] {
+  const hits: LogLineHit[] = [];
+
+  for (const entry of entries) {
+    for (const line of getEntryLines(entry)) {
+      if (filter && !filter(line, entry)) continue;
+
+      hits.push({
+        ...line,
+        sessionId: entry.sessionId,
+        lineNumber: entry.lineNumber,
+        logLevel: entry.logLevel,
+        ...(entry.service && { service: entry.service }),
+        ...(match && { match: match(line, entry) }),
+      });
+    }
+  }
+
+  return hits.sort(compareLines);
+}
+
+function compareLines(a: LogLineHit, b: LogLineHit): number {
+  // Sequence numbers are only comparable within a session
+  if (a.sessionId === b.sessionId && a.sequence !== undefined && b.sequence !== undefined) {
+    return a.sequence - b.sequence;
+  }
+
+  const byTime = a.timestamp.getTime() - b.timestamp.getTime();
+  if (byTime !== 0 || a.sessionId !== b.sessionId) {
+    return byTime;
+  }
+
+  return a.lineNumber - b.lineNumber;
+}
@@ -0,0 +1,141 @@
+import { appendFileSync, closeSync, existsSync, fstatSync, openSync, readSync, statSync, writeFileSync } from 'fs';
+
+/**
+ * Binary index kept next to each `.logs` file as `<id>.idx`, so readers can
+ * seek to a line without streaming the file from the beginning.
+ *
+ * Layout: an 8-byte header followed by one 16-byte record per line of the
+ * `.logs` file, in order: the line's byte offset (uint64 LE) and the entry's
+ * timestamp in ms (float64 LE). The CLI appends a record after the line has
+ * been written, so the index may lag the file but never runs ahead of it.
+ */
+const INDEX_MAGIC = Buffer.from('LPIDX001');
+const HEADER_SIZE = INDEX_MAGIC.length;
+const RECORD_SIZE = 16;
+
+export function indexPathFor(logsPath: string): string {
+  return logsPath.replace(/\.logs$/, '.idx');
+}
+
+/**
+ * Appends lines to a `.logs` file together with their index records
+ */
+export class LogIndexWriter {
+  private logsPath: string;
+  private indexPath: string;
+  private nextOffset: number;
+  private indexed: boolean;
+
+  constructor(logsPath: string) {
+    this.logsPath = logsPath;
+    this.indexPath = indexPathFor(logsPath);
+    this.nextOffset = existsSync(logsPath) ? statSync(logsPath).size : 0;
+
+    // Records are positional, so only a file indexed from its first line can be indexed
+    this.indexed = this.nextOffset === 0;
+    if (this.indexed) {
+      writeFileSync(this.indexPath, INDEX_MAGIC);
+    }
+  }
+
+  append(line: string, timestamp: number): void {
+    const data = line + '\n';
+    appendFileSync(this.logsPath, data);
+
+    if (this.indexed) {
+      const record = Buffer.alloc(RECORD_SIZE);
+      record.writeBigUInt64LE(BigInt(this.nextOffset), 0);
+      record.writeDoubleLE(timestamp, 8);
+      appendFileSync(this.indexPath, record);
+    }
+
+    this.nextOffset += Buffer.byteLength(data);
+  }
+}
+
+/**
+ * Read access to an index. Each lookup is a single positioned read.
+ */
+export class LogIndex {
+  private fd: number;
+  readonly lineCount: number; // Lines covered by the index; the file may have more
+
+  private constructor(fd: number, lineCount: number) {
+    this.fd = fd;
+    this.lineCount = lineCount;
+  }
+
+  /**
+   * Open the index of a `.logs` file. Returns null when the file has no
+   * usable index (sessions written before indexing, or a foreign file).
+   */
+  static open(logsPath: string): LogIndex | null {
+    let fd: number;
+    try {
+      fd = openSync(indexPathFor(logsPath), 'r');
+    } catch {
+      return null;
+    }
+
+    try {
+      const header = Buffer.alloc(HEADER_SIZE);
+      if (readSync(fd, header, 0, HEADER_SIZE, 0) !== HEADER_SIZE || !header.equals(INDEX_MAGIC)) {
+        closeSync(fd);
+        return null;
+      }
+
+      const lineCount = Math.floor((fstatSync(fd).size - HEADER_SIZE) / RECORD_SIZE);
+      const index = new LogIndex(fd, lineCount);
+
+      // An index pointing past the end of its file belongs to a different file
+      if (lineCount > 0 && index.offsetOf(lineCount - 1) >= statSync(logsPath).size) {
+        index.close();
+        return null;
+      }
+
+      return index;
+    } catch {
+      closeSync(fd);
+      return null;
+    }
+  }
+
+  /**
+   * Byte offset at which the line at a 0-based position starts
+   */
+  offsetOf(line: number): number {
+    return Number(this.readRecord(line).readBigUInt64LE(0));
+  }
+
+  timestampOf(line: number): number {
+    return this.readRecord(line).readDoubleLE(8);
+  }
+
+  /**
+   * Position of the first indexed line with a timestamp at or after `time`
+   * (lineCount if there is none). Entries are appended in capture order.
+   */
+  findLineAtTime(time: number): number {
+    let low = 0;
+    let high = this.lineCount;
+    while (low < high) {
+      const middle = (low + high) >>> 1;
+      if (this.timestampOf(middle) < time) {
+        low = middle + 1;
+      } else {
+        high = middle;
+      }
+    }
+    return low;
+  }
+
+  close(): void {
+    closeSync(this.fd);
+  }
+
+  private readRecord(line: number): Buffer {
+    const record = Buffer.alloc(RECORD_SIZE);
+    readSync(this.fd, record, 0, RECORD_SIZE, HEADER_SIZE + line * RECORD_SIZE);
+    return record;
+  }
+}
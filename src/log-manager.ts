@@ -1,26 +1,116 @@
 import type {
+  ErrorEvent,
   LogEntry,
+  LogFilter,
   LogSession,
+  SessionEnd,
   SessionManager,
+  SessionRemoval,
   LogStorage,
-  PaginationResult
+  PaginationResult,
+  SearchOrder,
+  StorageBackend,
+  StorageWatcher,
+  TerminationReason
 } from './types.js';
-import { readdirSync, readFileSync, existsSync, statSync, unlinkSync, rmSync } from 'fs';
+import { existsSync } from 'fs';
 import { join } from 'path';
 import { tmpdir } from 'os';
-import { LogReader } from './log-reader.js';
+import { cursorAfter, decodeTimelineCursor, encodeTimelineCursor, InvalidCursorError } from './cursor.js';
+import type { Neighbours } from './search-context.js';
+import { parseSearchQuery, queryMatchesEntry } from './search-query.js';
+import { createStorage } from './storage.js';
+
+/**
+ * When finished sessions are deleted. Running sessions are never removed to
+ * meet the per-command or disk limits.
+ */
+export interface RetentionPolicy {
+  maxAgeHours: number; // Finished sessions inactive for longer are deleted
+  maxSessionsPerCommand: number; // Finished sessions kept per project and command signature
+  maxTotalBytes: number; // Disk budget for all sessions together
+}
+
+export interface LogManagerOptions {
+  retention?: Partial<RetentionPolicy>;
+  storage?: StorageBackend; // Defaults to the backend selected with LOGPIPER_STORAGE
+}
+
+/**
+ * How often a running CLI refreshes heartbeatAt in its session file
+ */
+export const HEARTBEAT_INTERVAL_MS = 5000;
+
+// A session whose CLI process is gone is orphaned once it has also missed a couple
+// of heartbeats; the grace period covers a server that cannot see the CLI's PID
+// (another PID namespace). Without any heartbeat for a minute it is orphaned regardless.
+const DEAD_PID_GRACE_MS = 2 * HEARTBEAT_INTERVAL_MS;
+const HEARTBEAT_TIMEOUT_MS = 12 * HEARTBEAT_INTERVAL_MS;
+
+const DEFAULT_RETENTION: RetentionPolicy = {
+  maxAgeHours: 24,
+  maxSessionsPerCommand: 10,
+  maxTotalBytes: 500 * 1024 * 1024, // 500MB
+};
+
+/**
+ * Retention settings from LOGPIPER_RETENTION_MAX_AGE_HOURS,
+ * LOGPIPER_RETENTION_MAX_SESSIONS_PER_COMMAND and LOGPIPER_RETENTION_MAX_DISK_MB
+ */
+function retentionFromEnv(): Partial<RetentionPolicy> {
+  const read = (name: string): number | undefined => {
+    const value = Number(process.env[name]);
+    return process.env[name] && Number.isFinite(value) && value >= 0 ? value : undefined;
+  };
+
+  const maxDiskMb = read('LOGPIPER_RETENTION_MAX_DISK_MB');
+  const policy: Partial<RetentionPolicy> = {
+    maxAgeHours: read('LOGPIPER_RETENTION_MAX_AGE_HOURS'),
+    maxSessionsPerCommand: read('LOGPIPER_RETENTION_MAX_SESSIONS_PER_COMMAND'),
+    maxTotalBytes: maxDiskMb !== undefined ? maxDiskMb * 1024 * 1024 : undefined,
+  };
+
+  return Object.fromEntries(Object.entries(policy).filter(([, value]) => value !== undefined));
+}
+
+function isProcessAlive(pid: number): boolean {
+  if (existsSync('/proc/self')) {
+    return existsSync(`/proc/${pid}`);
+  }
+
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM: the process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
 
 export class LogManager implements SessionManager, LogStorage {
   private dataDir: string;
-  private maxLogsPerSession: number = 10000;
-  private logReader: LogReader;
+  private storage: StorageBackend;
+  private retention: RetentionPolicy;
 
-  constructor() {
+  constructor(options: LogManagerOptions = {}) {
     this.dataDir = join(tmpdir(), 'logpiper');
-    this.logReader = new LogReader({
-      maxChunkSize: 1024 * 1024, // 1MB
-      defaultLimit: 100,
-    });
+    this.storage = options.storage ?? createStorage(this.dataDir);
+    this.retention = {
+      ...DEFAULT_RETENTION,
+      ...retentionFromEnv(),
+      ...options.retention,
+    };
+  }
+
+  getDataDir(): string {
+    return this.dataDir;
+  }
+
+  /**
+   * Follow sessions and log entries added to storage from now on
+   */
+  watch(): StorageWatcher {
+    return this.storage.watch();
   }
 
   createSession(projectDir: string, command: string, args: string[]): LogSession {
@@ -49,53 +139,21 @@ export class LogManager implements SessionManager, LogStorage {
     return `${projectName}_${commandName}_${timestamp}`;
   }
 
-  getSession(sessionId: string): LogSession | undefined {
-    const sessionFile = join(this.dataDir, `${sessionId}.json`);
-    if (!existsSync(sessionFile)) {
-      return undefined;
-    }
-
-    try {
-      const sessionData = JSON.parse(readFileSync(sessionFile, 'utf8'));
-      sessionData.startTime = new Date(sessionData.startTime);
-      sessionData.lastActivity = new Date(sessionData.lastActivity);
-      if (sessionData.endTime) {
-        sessionData.endTime = new Date(sessionData.endTime);
-      }
-      return sessionData;
-    } catch {
-      return undefined;
-    }
+  saveSession(session: LogSession): void {
+    this.storage.saveSession(session);
   }
 
-  listSessions(): LogSession[] {
-    if (!existsSync(this.dataDir)) {
-      return [];
-    }
+  hasSession(sessionId: string): boolean {
+    return this.storage.hasSession(sessionId);
+  }
 
-    const sessions: LogSession[] = [];
-    const files = readdirSync(this.dataDir);
-
-    for (const file of files) {
-      if (file.endsWith('.json')) {
-        try {
-          const sessionFile = join(this.dataDir, file);
-          const sessionData = JSON.parse(readFileSync(sessionFile, 'utf8'));
-
-          // Convert string dates back to Date objects
-          sessionData.startTime = new Date(sessionData.startTime);
-          sessionData.lastActivity = new Date(sessionData.lastActivity);
-          if (sessionData.endTime) {
-            sessionData.endTime = new Date(sessionData.endTime);
-          }
-
-          sessions.push(sessionData);
-        } catch (error) {
-          // Skip invalid session files
-        }
-      }
-    }
+  getSession(sessionId: string): LogSession | undefined {
+    const session = this.storage.getSession(sessionId);
+    return session && this.reconcileSession(session);
+  }
 
+  listSessions(): LogSession[] {
+    const sessions = this.storage.listSessions().map(session => this.reconcileSession(session));
     return sessions.sort((a, b) => b.lastActivity.getTime() - a.lastActivity.getTime());
   }
 
@@ -113,24 +171,110 @@ export class LogManager implements SessionManager, LogStorage {
     });
   }
 
-  updateSession(sessionId: string, updates: Partial<LogSession>): void {
-    // Session updates are now handled by CLI writing to files
-    // This method exists for interface compatibility
+  /**
+   * Whether the CLI capturing a running session is still alive, judged by its
+   * PID and heartbeat. Sessions written before heartbeats existed are assumed alive.
+   */
+  isSessionAlive(session: LogSession, now: number = Date.now()): boolean {
+    if (session.status !== 'running' || session.cliPid === undefined) {
+      return true;
+    }
+
+    const heartbeatAge = now - new Date(session.heartbeatAt ?? session.startTime).getTime();
+    if (heartbeatAge > HEARTBEAT_TIMEOUT_MS) {
+      return false;
+    }
+
+    return heartbeatAge <= DEAD_PID_GRACE_MS || isProcessAlive(session.cliPid);
+  }
+
+  /**
+   * Mark running sessions whose CLI has died as orphaned
+   * @returns IDs of the sessions that were reconciled
+   */
+  reconcileOrphanedSessions(): string[] {
+    const now = Date.now();
+    return this.storage.listSessions()
+      .filter(session => !this.isSessionAlive(session, now))
+      .map(session => this.reconcileSession(session).id);
+  }
+
+  private reconcileSession(session: LogSession): LogSession {
+    if (this.isSessionAlive(session)) {
+      return session;
+    }
+
+    // The last sign of life is the best estimate of when the session ended
+    session.status = 'orphaned';
+    session.endTime = session.heartbeatAt ?? session.lastActivity;
+
+    try {
+      // Undone if the CLI was only stalled and sends another heartbeat
+      this.storage.recordSessionEnd(session.id, {
+        status: 'orphaned',
+        endTime: session.endTime,
+        heartbeatAt: session.heartbeatAt ?? session.startTime
+      });
+    } catch (error) {
+      console.error(`Failed to mark session ${session.id} as orphaned:`, error);
+    }
+    return session;
   }
 
-  removeSession(sessionId: string): void {
-    // Sessions are file-based now, removal would require file deletion
-    // This method exists for interface compatibility
+  /**
+   * Read-modify-write a session; only the CLI capturing it may call this
+   */
+  updateSession(sessionId: string, update: (session: LogSession) => boolean | void): boolean {
+    return this.storage.updateSession(sessionId, update);
+  }
+
+  /**
+   * Record that a session was closed or orphaned outside the CLI capturing it
+   */
+  recordSessionEnd(sessionId: string, end: SessionEnd): void {
+    this.storage.recordSessionEnd(sessionId, end);
+  }
+
+  removeSession(sessionId: string): SessionRemoval {
+    return this.storage.removeSession(sessionId);
+  }
+
+  /**
+   * Persist a detected error into the session's errorHistory
+   */
+  recordErrorEvent(sessionId: string, errorEvent: ErrorEvent): void {
+    try {
+      this.storage.recordErrorEvent(sessionId, errorEvent);
+    } catch (error) {
+      console.error(`Failed to record error event for session ${sessionId}:`, error);
+    }
+  }
+
+  /**
+   * Cursor up to which a named reader has read a session's logs; undefined
+   * if it has not read any yet
+   */
+  getReadCursor(sessionId: string, consumerId: string): string | undefined {
+    return this.storage.getSession(sessionId)?.readCursors?.[consumerId];
+  }
+
+  /**
+   * Save a reader's cursor. Logs stay in place; every reader has its own cursor.
+   */
+  setReadCursor(sessionId: string, consumerId: string, cursor: string): void {
+    try {
+      this.storage.setReadCursor(sessionId, consumerId, cursor);
+    } catch (error) {
+      console.error(`Failed to save read cursor for session ${sessionId}:`, error);
+    }
   }
 
   addLog(entry: LogEntry): void {
-    // Logs are now stored by CLI directly to files
-    // This method exists for interface compatibility
+    this.storage.addLog(entry);
   }
 
-  async getNewLogs(sessionId: string, since: number, limit?: number): Promise<PaginationResult<LogEntry>> {
-    const logsFile = join(this.dataDir, `${sessionId}.logs`);
-    return this.logReader.getNewLogs(logsFile, since, limit);
+  async getNewLogs(sessionId: string, since?: string, limit?: number, filter?: LogFilter): Promise<PaginationResult<LogEntry>> {
+    return this.storage.getNewLogs(sessionId, since, limit, filter);
   }
 
   // Legacy sync method for backward compatibility
@@ -140,43 +284,37 @@ export class LogManager implements SessionManager, LogStorage {
   }
 
   getAllLogs(sessionId: string): LogEntry[] {
-    const logsFile = join(this.dataDir, `${sessionId}.logs`);
-    if (!existsSync(logsFile)) {
-      return [];
-    }
+    return this.storage.getAllLogs(sessionId);
+  }
 
-    try {
-      const content = readFileSync(logsFile, 'utf8');
-      const lines = content.trim().split('\n').filter(line => line.length > 0);
-      return lines.map(line => {
-        const entry = JSON.parse(line);
-        entry.timestamp = new Date(entry.timestamp);
-        return entry;
-      });
-    } catch {
-      return [];
-    }
+  async searchLogs(
+    sessionId: string,
+    query: string,
+    cursor?: string,
+    limit?: number,
+    filter?: LogFilter,
+    order?: SearchOrder
+  ): Promise<PaginationResult<LogEntry>> {
+    return this.storage.searchLogs(sessionId, query, cursor, limit, filter, order);
   }
 
-  async searchLogs(sessionId: string, query: string, cursor?: number, limit?: number): Promise<PaginationResult<LogEntry>> {
-    const logsFile = join(this.dataDir, `${sessionId}.logs`);
-    return this.logReader.searchLogsPaginated(logsFile, query, cursor, limit);
+  /**
+   * The best matches across several sessions; ordered by time, the most recent first
+   */
+  async searchSessions(sessionIds: string[], query: string, limit?: number, filter?: LogFilter, order?: SearchOrder): Promise<PaginationResult<LogEntry>> {
+    return this.storage.searchSessions(sessionIds, query, limit, filter, order);
   }
 
   // Legacy sync method for backward compatibility
   searchLogsSync(sessionId: string, query: string): LogEntry[] {
     const allLogs = this.getAllLogs(sessionId);
-    const lowerQuery = query.toLowerCase();
+    const searchQuery = parseSearchQuery(query);
 
-    return allLogs.filter(log =>
-      log.content.toLowerCase().includes(lowerQuery) ||
-      log.command.toLowerCase().includes(lowerQuery)
-    );
+    return allLogs.filter(log => queryMatchesEntry(searchQuery, log));
   }
 
   async getLogCount(sessionId: string): Promise<number> {
-    const logsFile = join(this.dataDir, `${sessionId}.logs`);
-    return this.logReader.getLogCount(logsFile);
+    return this.storage.getLogCount(sessionId);
   }
 
   // Legacy sync method for backward compatibility
@@ -194,13 +332,14 @@ export class LogManager implements SessionManager, LogStorage {
     const session = this.getSession(sessionId);
     const sessionLogs = this.getAllLogs(sessionId);
 
+    // Entries captured before severity inference only carry their stream
     const errorCount = sessionLogs.filter((log: LogEntry) =>
-      log.logLevel === 'stderr' || log.logLevel === 'error'
+      log.logLevel === 'error' || (!log.stream && log.logLevel === 'stderr')
     ).length;
 
     const warningCount = sessionLogs.filter((log: LogEntry) =>
       log.logLevel === 'warn' ||
-      log.content.toLowerCase().includes('warning')
+      (!log.stream && log.content.toLowerCase().includes('warning'))
     ).length;
 
     const uptime = session ?
@@ -259,16 +398,18 @@ export class LogManager implements SessionManager, LogStorage {
     };
   }
 
-  cleanup(): void {
-    this.cleanupOldSessions();
+  async cleanup(): Promise<void> {
+    await this.cleanupOldSessions();
   }
 
   /**
-   * Automatically cleanup old sessions based on intelligent criteria
+   * Delete sessions according to the retention policy. This is the only place
+   * finished sessions are removed, so their logs stay available for post-mortem
+   * analysis until the policy says otherwise.
    * @param dryRun - If true, only show what would be cleaned up without deleting
    * @param force - If true, use more aggressive cleanup criteria
    */
-  cleanupOldSessions(dryRun: boolean = false, force: boolean = false): {
+  async cleanupOldSessions(dryRun: boolean = false, force: boolean = false): Promise<{
     success: boolean;
     message: string;
     sessionsAnalyzed: number;
@@ -284,10 +425,12 @@ export class LogManager implements SessionManager, LogStorage {
       readProgress: number;
     }>;
     errors: string[];
-  } {
+  }> {
     const now = new Date();
-    const sessions = this.listSessions();
-    
+    const sessions = this.listSessions(); // Most recently active first
+    const { maxAgeHours, maxSessionsPerCommand, maxTotalBytes } = this.retention;
+    const finishedAgeHours = force ? Math.min(maxAgeHours, 0.5) : maxAgeHours;
+
     const toDelete: Array<{
       sessionId: string;
       reason: string;
@@ -296,80 +439,108 @@ export class LogManager implements SessionManager, LogStorage {
       logCount: number;
       readProgress: number;
     }> = [];
-    
+
     const errors: string[] = [];
     let deletedCount = 0;
-    
-    // Define cleanup criteria based on force flag
+
     const criteria = [
-      force ? 'Stopped/crashed sessions older than 30 minutes' : 'Stopped/crashed sessions older than 2 hours',
+      'Ephemeral sessions (--ephemeral) once finished',
+      `Finished sessions older than ${this.formatHours(finishedAgeHours)}`,
       'Running sessions with no activity for 24+ hours (stale)',
       force ? 'Sessions with no logs older than 30 minutes' : 'Sessions with no logs older than 1 hour',
-      'Sessions where all logs have been read and session is completed'
+      `Finished sessions beyond the newest ${maxSessionsPerCommand} per project and command`,
+      `Oldest finished sessions while all sessions use more than ${Math.round(maxTotalBytes / (1024 * 1024))}MB`
     ];
-    
+
     if (force) {
       criteria.push('Empty sessions less than 5 minutes old (likely failed starts)');
     }
-    
+
+    // Counted from the segment manifest and index, once per session, since this runs on every CLI exit
+    const logCounts = new Map<string, number>();
+    const countLogs = async (sessionId: string): Promise<number> => {
+      let count = logCounts.get(sessionId);
+      if (count === undefined) {
+        count = await this.storage.getLogCount(sessionId);
+        logCounts.set(sessionId, count);
+      }
+      return count;
+    };
+
+    const markForDeletion = async (session: LogSession, reason: string) => {
+      const sessionAge = now.getTime() - new Date(session.lastActivity).getTime();
+      const sessionAgeHours = sessionAge / (1000 * 60 * 60);
+      const logCount = await countLogs(session.id);
+
+      toDelete.push({
+        sessionId: session.id,
+        reason,
+        age: sessionAgeHours > 1 ? `${sessionAgeHours.toFixed(1)}h` : `${(sessionAge / (1000 * 60)).toFixed(0)}m`,
+        status: session.status,
+        logCount,
+        readProgress: logCount > 0 ? Math.round(Math.min(100, (session.readCursor / logCount) * 100)) : 0
+      });
+    };
+
+    const retained: LogSession[] = [];
+
     for (const session of sessions) {
       const sessionAge = now.getTime() - new Date(session.lastActivity).getTime();
       const sessionAgeHours = sessionAge / (1000 * 60 * 60);
       const sessionAgeMinutes = sessionAge / (1000 * 60);
-      
-      let shouldDelete = false;
+      const isFinished = session.status !== 'running';
+
       let reason = '';
-      
-      // Get log count and read progress
-      const logCount = this.getLogCountSync(session.id);
-      const readProgress = logCount > 0 ? Math.min(100, (session.readCursor / logCount) * 100) : 0;
-      
-      // Cleanup criteria:
-      if (session.status === 'stopped' || session.status === 'crashed') {
-        const ageThreshold = force ? 0.5 : 2; // 30 minutes vs 2 hours
-        if (sessionAgeHours > ageThreshold) {
-          shouldDelete = true;
-          reason = `${session.status} session older than ${ageThreshold === 0.5 ? '30 minutes' : '2 hours'}`;
-        }
-      } else if (session.status === 'running') {
-        if (sessionAgeHours > 24) {
-          shouldDelete = true;
-          reason = 'stale running session (24+ hours inactive)';
-        }
-      }
-      
-      // Sessions with no logs
-      if (logCount === 0) {
+
+      if (isFinished && session.ephemeral) {
+        reason = 'ephemeral session finished';
+      } else if (isFinished && sessionAgeHours > finishedAgeHours) {
+        reason = `${session.status} session older than ${this.formatHours(finishedAgeHours)}`;
+      } else if (!isFinished && sessionAgeHours > 24) {
+        reason = 'stale running session (24+ hours inactive)';
+      } else if (await countLogs(session.id) === 0) {
         const ageThreshold = force ? 0.5 : 1; // 30 minutes vs 1 hour
         if (sessionAgeHours > ageThreshold) {
-          shouldDelete = true;
           reason = `session with no logs older than ${ageThreshold === 0.5 ? '30 minutes' : '1 hour'}`;
         } else if (force && sessionAgeMinutes < 5 && sessionAgeMinutes > 2) {
-          shouldDelete = true;
           reason = 'likely failed session start (empty after 2+ minutes)';
         }
       }
-      
-      // Sessions where all logs have been read and session is complete
-      if (!shouldDelete && session.status !== 'running' && logCount > 0 && readProgress >= 100) {
-        if (sessionAgeHours > (force ? 0.25 : 1)) { // 15 minutes vs 1 hour
-          shouldDelete = true;
-          reason = 'completed session with all logs read';
-        }
+
+      if (reason) {
+        await markForDeletion(session, reason);
+      } else {
+        retained.push(session);
       }
-      
-      if (shouldDelete) {
-        toDelete.push({
-          sessionId: session.id,
-          reason,
-          age: sessionAgeHours > 1 ? `${sessionAgeHours.toFixed(1)}h` : `${sessionAgeMinutes.toFixed(0)}m`,
-          status: session.status,
-          logCount,
-          readProgress: Math.round(readProgress)
-        });
+    }
+
+    // Keep only the newest finished sessions of each command
+    const finishedPerCommand = new Map<string, number>();
+    for (let i = 0; i < retained.length; i++) {
+      const session = retained[i];
+      if (session.status === 'running') continue;
+
+      const signature = session.metadata?.commandSignature ?? [session.command, ...session.args].join(' ');
+      const key = `${session.projectDir}\0${signature}`;
+      const count = (finishedPerCommand.get(key) ?? 0) + 1;
+      finishedPerCommand.set(key, count);
+
+      if (count > maxSessionsPerCommand) {
+        await markForDeletion(session, `more than ${maxSessionsPerCommand} finished sessions of "${signature}"`);
+        retained.splice(i--, 1);
       }
     }
-    
+
+    // Enforce the disk budget, removing the least recently active finished sessions first
+    let totalBytes = retained.reduce((sum, session) => sum + this.getSessionDiskUsage(session.id), 0);
+    for (let i = retained.length - 1; i >= 0 && totalBytes > maxTotalBytes; i--) {
+      const session = retained[i];
+      if (session.status === 'running') continue;
+
+      totalBytes -= this.getSessionDiskUsage(session.id);
+      await markForDeletion(session, `disk budget of ${Math.round(maxTotalBytes / (1024 * 1024))}MB exceeded`);
+    }
+
     // Actually delete sessions if not dry run
     if (!dryRun) {
       for (const item of toDelete) {
@@ -381,11 +552,11 @@ export class LogManager implements SessionManager, LogStorage {
         }
       }
     }
-    
-    const message = dryRun 
+
+    const message = dryRun
       ? `Dry run complete: would clean up ${toDelete.length} sessions`
       : `Cleaned up ${deletedCount} sessions${errors.length > 0 ? ` (${errors.length} errors)` : ''}`;
-    
+
     return {
       success: errors.length === 0,
       message,
@@ -398,8 +569,23 @@ export class LogManager implements SessionManager, LogStorage {
     };
   }
 
+  getRetentionPolicy(): RetentionPolicy {
+    return { ...this.retention };
+  }
+
   /**
-   * Reset all sessions and logs - removes all data from the logpiper directory
+   * Bytes a session takes in storage
+   */
+  private getSessionDiskUsage(sessionId: string): number {
+    return this.storage.getDiskUsage(sessionId);
+  }
+
+  private formatHours(hours: number): string {
+    return hours < 1 ? `${Math.round(hours * 60)} minutes` : `${hours} hour${hours === 1 ? '' : 's'}`;
+  }
+
+  /**
+   * Reset all sessions and logs - removes all data from storage
    */
   resetAllSessions(): {
     success: boolean;
@@ -408,54 +594,26 @@ export class LogManager implements SessionManager, LogStorage {
     deletedLogFiles: number;
     errors: string[];
   } {
-    const result = {
-      success: false,
-      message: '',
-      deletedSessions: 0,
-      deletedLogFiles: 0,
-      errors: [] as string[]
-    };
-
     try {
-      if (!existsSync(this.dataDir)) {
-        result.success = true;
-        result.message = 'No data directory found - nothing to reset';
-        return result;
-      }
-
-      const files = readdirSync(this.dataDir);
-      
-      for (const file of files) {
-        const filePath = join(this.dataDir, file);
-        
-        try {
-          if (file.endsWith('.json')) {
-            unlinkSync(filePath);
-            result.deletedSessions++;
-          } else if (file.endsWith('.logs')) {
-            unlinkSync(filePath);
-            result.deletedLogFiles++;
-          } else {
-            // Remove any other files in the directory
-            unlinkSync(filePath);
-          }
-        } catch (fileError) {
-          result.errors.push(`Failed to delete ${file}: ${fileError}`);
-        }
-      }
-
-      result.success = result.errors.length === 0;
-      result.message = result.success 
-        ? `Successfully reset all sessions. Deleted ${result.deletedSessions} sessions and ${result.deletedLogFiles} log files.`
-        : `Partially completed reset with ${result.errors.length} errors. Deleted ${result.deletedSessions} sessions and ${result.deletedLogFiles} log files.`;
-
+      const result = this.storage.removeAllSessions();
+      const success = result.errors.length === 0;
+
+      return {
+        success,
+        message: success
+          ? `Successfully reset all sessions. Deleted ${result.deletedSessions} sessions and ${result.deletedLogFiles} log files.`
+          : `Partially completed reset with ${result.errors.length} errors. Deleted ${result.deletedSessions} sessions and ${result.deletedLogFiles} log files.`,
+        ...result
+      };
     } catch (error) {
-      result.success = false;
-      result.message = `Failed to reset sessions: ${error}`;
-      result.errors.push(`Directory scan error: ${error}`);
+      return {
+        success: false,
+        message: `Failed to reset sessions: ${error}`,
+        deletedSessions: 0,
+        deletedLogFiles: 0,
+        errors: [`Storage error: ${error}`]
+      };
     }
-
-    return result;
   }
 
   /**
@@ -477,28 +635,8 @@ export class LogManager implements SessionManager, LogStorage {
     };
 
     try {
-      const sessionFile = join(this.dataDir, `${sessionId}.json`);
-      const logsFile = join(this.dataDir, `${sessionId}.logs`);
-
-      // Delete session file
-      if (existsSync(sessionFile)) {
-        try {
-          unlinkSync(sessionFile);
-          result.sessionDeleted = true;
-        } catch (error) {
-          result.errors.push(`Failed to delete session file: ${error}`);
-        }
-      }
-
-      // Delete logs file
-      if (existsSync(logsFile)) {
-        try {
-          unlinkSync(logsFile);
-          result.logsDeleted = true;
-        } catch (error) {
-          result.errors.push(`Failed to delete logs file: ${error}`);
-        }
-      }
+      // Also removes closed log segments, reader cursors and error history
+      Object.assign(result, this.storage.removeSession(sessionId));
 
       if (!result.sessionDeleted && !result.logsDeleted) {
         result.message = `Session ${sessionId} not found`;
@@ -530,25 +668,37 @@ export class LogManager implements SessionManager, LogStorage {
     active: number;
     crashed: number;
     stopped: number;
+    orphaned: number;
     oldestActive: Date | null;
     newestActive: Date | null;
+    terminationReasons: Partial<Record<TerminationReason, number>>;
   } {
     const allSessions = this.listSessions();
     const activeSessions = allSessions.filter(s => s.status === 'running');
     const crashedSessions = allSessions.filter(s => s.status === 'crashed');
     const stoppedSessions = allSessions.filter(s => s.status === 'stopped');
+    const orphanedSessions = allSessions.filter(s => s.status === 'orphaned');
 
     const activeStartTimes = activeSessions.map(s => s.startTime);
 
+    const terminationReasons: Partial<Record<TerminationReason, number>> = {};
+    for (const session of allSessions) {
+      if (session.terminationReason) {
+        terminationReasons[session.terminationReason] = (terminationReasons[session.terminationReason] ?? 0) + 1;
+      }
+    }
+
     return {
       total: allSessions.length,
       active: activeSessions.length,
       crashed: crashedSessions.length,
       stopped: stoppedSessions.length,
+      orphaned: orphanedSessions.length,
       oldestActive: activeStartTimes.length > 0 ?
         new Date(Math.min(...activeStartTimes.map(d => d.getTime()))) : null,
       newestActive: activeStartTimes.length > 0 ?
-        new Date(Math.max(...activeStartTimes.map(d => d.getTime()))) : null
+        new Date(Math.max(...activeStartTimes.map(d => d.getTime()))) : null,
+      terminationReasons
     };
   }
 
@@ -584,12 +734,12 @@ export class LogManager implements SessionManager, LogStorage {
    */
   async getLogsPaginated(
     sessionId: string,
-    cursor: number = 0,
+    cursor?: string,
     limit: number = 100,
-    reverse: boolean = false
+    reverse: boolean = false,
+    filter?: LogFilter
   ): Promise<PaginationResult<LogEntry>> {
-    const logsFile = join(this.dataDir, `${sessionId}.logs`);
-    return this.logReader.readLogsPaginated(logsFile, cursor, limit, reverse);
+    return this.storage.getLogsPaginated(sessionId, cursor, limit, reverse, filter);
   }
 
 
@@ -600,21 +750,12 @@ export class LogManager implements SessionManager, LogStorage {
     sessionId: string,
     startTime: Date,
     endTime: Date,
-    cursor: number = 0,
-    limit: number = 100
+    cursor?: string,
+    limit: number = 100,
+    filter?: LogFilter,
+    reverse: boolean = false
   ): Promise<PaginationResult<LogEntry>> {
-    // For time range queries, we'll first get all logs in cursor range
-    // then filter by time range
-    const result = await this.getLogsPaginated(sessionId, cursor, limit);
-    
-    const filteredLogs = result.data.filter(log =>
-      log.timestamp >= startTime && log.timestamp <= endTime
-    );
-
-    return {
-      ...result,
-      data: filteredLogs,
-    };
+    return this.storage.getLogsPaginated(sessionId, cursor, limit, reverse, { ...filter, startTime, endTime });
   }
 
   /**
@@ -623,51 +764,85 @@ export class LogManager implements SessionManager, LogStorage {
   async getLogsByLevelPaginated(
     sessionId: string,
     levels: string[],
-    cursor: number = 0,
-    limit: number = 100
+    cursor?: string,
+    limit: number = 100,
+    filter?: LogFilter,
+    reverse: boolean = false
   ): Promise<PaginationResult<LogEntry>> {
-    // For level filtering, we'll get logs and filter them
-    const result = await this.getLogsPaginated(sessionId, cursor, limit);
-    
-    const filteredLogs = result.data.filter(log => levels.includes(log.logLevel));
-
-    return {
-      ...result,
-      data: filteredLogs,
-    };
+    return this.getLogsPaginated(sessionId, cursor, limit, reverse, { ...filter, levels });
   }
 
   /**
-   * Merge logs from multiple sessions with pagination
+   * The entries of several sessions merged into one timeline, oldest first.
+   * The cursor keeps a position in each session, so every page continues
+   * each session where the previous page left it and entries written since
+   * appear on later pages; nextCursor is returned even at the end of the
+   * timeline so it can be followed as it grows.
    */
   async mergeLogsFromSessionsPaginated(
     sessionIds: string[],
-    cursor: number = 0,
-    limit: number = 100
+    cursor?: string,
+    limit: number = 100,
+    filter?: LogFilter
   ): Promise<PaginationResult<LogEntry>> {
-    const allLogs: LogEntry[] = [];
-    let totalCount = 0;
+    const positions = new Map(sessionIds.map(sessionId => [sessionId, -1]));
+    if (cursor) {
+      const previous = decodeTimelineCursor(cursor);
+      if (previous.size !== positions.size || [...previous.keys()].some(sessionId => !positions.has(sessionId))) {
+        throw new InvalidCursorError(`Cursor belongs to sessions ${[...previous.keys()].join(', ')}, not ${sessionIds.join(', ')}`);
+      }
+      previous.forEach((sequence, sessionId) => positions.set(sessionId, sequence));
+    }
 
-    for (const sessionId of sessionIds) {
-      const result = await this.getLogsPaginated(sessionId, cursor, limit);
-      allLogs.push(...result.data);
-      totalCount += result.total;
+    const pages: PaginationResult<LogEntry>[] = [];
+    for (const [sessionId, sequence] of positions) {
+      pages.push(await this.getLogsPaginated(sessionId, cursorAfter(sessionId, sequence), limit, false, filter));
     }
 
-    // Sort by timestamp
-    allLogs.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    // Take the oldest head until the page is full. A session whose page ran
+    // out while it has more entries stops the merge, as its next entry may be
+    // older than any remaining head.
+    const data: LogEntry[] = [];
+    const heads = pages.map(() => 0);
+    while (data.length < limit) {
+      let oldest = -1;
+      let exhausted = false;
+      pages.forEach((page, i) => {
+        if (heads[i] === page.data.length) {
+          exhausted ||= page.hasMore;
+        } else if (oldest < 0 || page.data[heads[i]].timestamp < pages[oldest].data[heads[oldest]].timestamp) {
+          oldest = i;
+        }
+      });
+      if (oldest < 0 || exhausted) {
+        break;
+      }
 
-    // Apply pagination to the merged results
-    const paginatedLogs = allLogs.slice(0, limit);
+      const entry = pages[oldest].data[heads[oldest]++];
+      positions.set(entry.sessionId, entry.lineNumber);
+      data.push(entry);
+    }
 
     return {
-      data: paginatedLogs,
-      total: totalCount,
-      nextCursor: paginatedLogs.length > 0 
-        ? Math.max(...paginatedLogs.map(l => l.lineNumber))
-        : cursor,
-      hasMore: allLogs.length > limit,
-      hasPrevious: cursor > 0,
+      data,
+      total: pages.reduce((sum, page) => sum + page.total, 0),
+      nextCursor: positions.size > 0 ? encodeTimelineCursor(positions) : undefined,
+      hasMore: pages.some((page, i) => heads[i] < page.data.length || page.hasMore),
+      hasPrevious: [...positions.values()].some(sequence => sequence >= 0)
     };
   }
-}
\ No newline at end of file
+
+  /**
+   * Up to `before` entries preceding an entry and `after` entries following it, nearest first
+   */
+  async getNeighbours(sessionId: string, lineNumber: number, before: number, after: number, filter?: LogFilter): Promise<Neighbours> {
+    const preceding = before > 0
+      ? await this.getLogsPaginated(sessionId, cursorAfter(sessionId, lineNumber - 1), before, true, filter)
+      : undefined;
+    const following = after > 0
+      ? await this.getLogsPaginated(sessionId, cursorAfter(sessionId, lineNumber), after, false, filter)
+      : undefined;
+
+    return { before: preceding?.data ?? [], after: following?.data ?? [] };
+  }
+}
@@ -1,13 +1,53 @@
 import { createReadStream } from 'fs';
 import { createInterface } from 'readline';
-import { existsSync, statSync } from 'fs';
-import type { LogEntry, PaginationResult } from './types.js';
+import { closeSync, existsSync, openSync, readSync } from 'fs';
+import { basename } from 'path';
+import { cursorAfter, decodeCursor, type CursorPosition } from './cursor.js';
+import { parseLogEntry } from './log-entry.js';
+import { LogIndex } from './log-index.js';
+import { manifestPathFor, readSegmentLines, readSegmentManifest } from './log-segments.js';
+import { serviceMatches } from './service-prefix.js';
+import type { LogEntry, LogFilter, PaginationResult } from './types.js';
+
+/**
+ * Narrows which entries a read returns; limits and cursors count matching entries only
+ */
+export type EntryFilter = (entry: LogEntry) => boolean;
+
+/**
+ * A storage LogFilter as an EntryFilter; undefined when it filters nothing
+ */
+export function entryFilterFor(filter: LogFilter | undefined): EntryFilter | undefined {
+  if (!filter || (!filter.service && !filter.levels && !filter.startTime && !filter.endTime)) {
+    return undefined;
+  }
+
+  const { service, levels, startTime, endTime } = filter;
+  return entry =>
+    (!service || serviceMatches(entry.service, service)) &&
+    (!levels || levels.includes(entry.logLevel)) &&
+    (!startTime || entry.timestamp >= startTime) &&
+    (!endTime || entry.timestamp <= endTime);
+}
 
 export interface LogReaderOptions {
   maxChunkSize?: number; // Maximum response size in bytes
   defaultLimit?: number;
 }
 
+interface StreamOptions {
+  segment?: number; // Segment holding the cursor position; earlier segments are skipped
+  fromLine?: number; // Line position in the active segment; found with the index if omitted
+  startTime?: number; // Closed segments ending before this time (ms) are skipped
+}
+
+/**
+ * Reads a session's log: its closed segments (see log-segments.ts) followed
+ * by the active `.logs` file. Cursors are opaque tokens (see cursor.ts)
+ * positioned by entry sequence numbers, not by line, so they stay valid when
+ * lines before them are dropped or compacted; the index is only used to find
+ * a starting point quickly.
+ */
 export class LogReader {
   private options: Required<LogReaderOptions>;
 
@@ -21,17 +61,21 @@ export class LogReader {
   /**
    * Read logs with cursor-based pagination using streaming
    * @param filePath Path to the .logs file
-   * @param cursor Starting line number (0-based, exclusive)
+   * @param cursor Position to read from; the start (or the end when reversed) if omitted
    * @param limit Maximum number of entries to return
    * @param reverse Read in reverse order (latest first)
+   * @param filter Only return entries passing this filter
    */
   async readLogsPaginated(
     filePath: string,
-    cursor: number = 0,
+    cursor?: string,
     limit: number = this.options.defaultLimit,
-    reverse: boolean = false
+    reverse: boolean = false,
+    filter?: EntryFilter
   ): Promise<PaginationResult<LogEntry>> {
-    if (!existsSync(filePath)) {
+    const position = this.decode(filePath, cursor);
+
+    if (!this.hasLogs(filePath)) {
       return {
         data: [],
         total: 0,
@@ -41,207 +85,221 @@ export class LogReader {
     }
 
     if (reverse) {
-      return this.readLogsReverse(filePath, cursor, limit);
+      return filter
+        ? this.readLogsReverseFiltered(filePath, cursor, position?.sequence ?? Infinity, limit, filter)
+        : this.readLogsReverse(filePath, cursor, position?.sequence ?? Infinity, limit);
     }
 
-    return this.readLogsForward(filePath, cursor, limit);
+    return this.readLogsForward(filePath, cursor, position, limit, filter);
   }
 
   /**
-   * Search logs with pagination using streaming
+   * Pass the entries with the given sequence numbers to `onEntry`, e.g. the
+   * candidates of a search. Closed segments are only read, once each, when
+   * their sequence range holds one of them; the active file is read from the
+   * first one not found there. Entries that are no longer stored are left out.
    */
-  async searchLogsPaginated(
-    filePath: string,
-    query: string,
-    cursor: number = 0,
-    limit: number = this.options.defaultLimit
-  ): Promise<PaginationResult<LogEntry>> {
-    if (!existsSync(filePath)) {
-      return {
-        data: [],
-        total: 0,
-        hasMore: false,
-        hasPrevious: false,
-      };
-    }
-
-    const results: LogEntry[] = [];
-    const lowerQuery = query.toLowerCase();
-    let currentLine = 0;
-    let matchCount = 0;
-    let foundCount = 0;
-    let responseSize = 0;
-
-    return new Promise((resolve, reject) => {
-      const fileStream = createReadStream(filePath);
-      const rl = createInterface({
-        input: fileStream,
-        crlfDelay: Infinity,
-      });
+  async readEntries(filePath: string, sequences: number[], onEntry: (entry: LogEntry) => void): Promise<void> {
+    const remaining = new Set(sequences);
+    const fd = this.openActive(filePath);
+    const pick = (line: string) => {
+      const entry = this.parseLine(line);
+      if (entry && remaining.delete(entry.lineNumber)) {
+        onEntry(entry);
+      }
+      return entry;
+    };
 
-      rl.on('line', (line) => {
-        currentLine++;
-        
-        if (line.trim() === '') return;
-
-        try {
-          const entry = JSON.parse(line) as LogEntry;
-          entry.timestamp = new Date(entry.timestamp);
-
-          // Check if this line matches the search query
-          const matches = entry.content.toLowerCase().includes(lowerQuery) ||
-                         entry.command.toLowerCase().includes(lowerQuery);
-
-          if (matches) {
-            matchCount++;
-            
-            // Skip results before cursor
-            if (matchCount <= cursor) return;
-            
-            // Check if we've reached the limit
-            if (foundCount >= limit) {
-              rl.close();
-              return;
-            }
-
-            // Check response size
-            const entrySize = JSON.stringify(entry).length;
-            if (responseSize + entrySize > this.options.maxChunkSize && results.length > 0) {
-              rl.close();
-              return;
-            }
-
-            results.push(entry);
-            responseSize += entrySize;
-            foundCount++;
-          }
-        } catch (error) {
-          // Skip invalid JSON lines
+    try {
+      for (const info of readSegmentManifest(filePath).segments) {
+        if (sequences.some(sequence => sequence >= info.firstSequence && sequence <= info.lastSequence)) {
+          readSegmentLines(filePath, info.segment).forEach(pick);
         }
-      });
+      }
+    } catch (error) {
+      if (fd !== null) closeSync(fd);
+      throw error;
+    }
 
-      rl.on('close', () => {
-        resolve({
-          data: results,
-          total: matchCount,
-          nextCursor: matchCount > cursor + foundCount ? cursor + foundCount : undefined,
-          prevCursor: cursor > 0 ? Math.max(0, cursor - limit) : undefined,
-          hasMore: matchCount > cursor + foundCount,
-          hasPrevious: cursor > 0,
-        });
-      });
+    if (fd === null) {
+      return;
+    }
+    if (remaining.size === 0) {
+      closeSync(fd);
+      return;
+    }
 
-      rl.on('error', reject);
+    let first = Infinity;
+    let last = -Infinity;
+    for (const sequence of remaining) {
+      first = Math.min(first, sequence);
+      last = Math.max(last, sequence);
+    }
+    await this.streamLines(filePath, fd, this.seekAfter(filePath, fd, first - 1), (line) => {
+      const entry = pick(line);
+      if (entry && entry.lineNumber >= last) return false;
+    });
+  }
+
+  /**
+   * Every entry after a sequence number, oldest first
+   */
+  async scanEntries(filePath: string, after: number, onEntry: (entry: LogEntry) => void): Promise<void> {
+    await this.streamEntries(filePath, after, (entry) => {
+      onEntry(entry);
     });
   }
 
   /**
-   * Get total line count efficiently
+   * Get total entry count efficiently. Closed segments are counted from
+   * their manifest and lines covered by the index without reading them.
    */
   async getLogCount(filePath: string): Promise<number> {
-    if (!existsSync(filePath)) {
-      return 0;
+    const fd = this.openActive(filePath);
+    const closedCount = readSegmentManifest(filePath).segments.reduce((sum, info) => sum + info.entries, 0);
+    if (fd === null) {
+      return closedCount;
     }
 
     let lineCount = 0;
-
-    return new Promise((resolve, reject) => {
-      const fileStream = createReadStream(filePath);
-      const rl = createInterface({
-        input: fileStream,
-        crlfDelay: Infinity,
-      });
-
-      rl.on('line', () => {
-        lineCount++;
-      });
-
-      rl.on('close', () => {
-        resolve(lineCount);
-      });
-
-      rl.on('error', reject);
+    await this.streamLines(filePath, fd, this.lastIndexedLine(filePath), (_line, position) => {
+      lineCount = position;
     });
+    return closedCount + lineCount;
   }
 
   /**
-   * Get new logs since cursor (optimized for tailing)
+   * Get new logs since cursor (optimized for tailing). nextCursor is always
+   * returned and is where the next read resumes.
    */
   async getNewLogs(
     filePath: string,
-    since: number,
-    limit: number = this.options.defaultLimit
+    since?: string,
+    limit: number = this.options.defaultLimit,
+    filter?: EntryFilter
   ): Promise<PaginationResult<LogEntry>> {
-    if (!existsSync(filePath)) {
+    const start = this.decode(filePath, since);
+    const after = start?.sequence ?? -1;
+
+    if (!this.hasLogs(filePath)) {
       return {
         data: [],
         total: 0,
+        nextCursor: this.cursorAfter(filePath, after, start?.segment),
         hasMore: false,
-        hasPrevious: false,
+        hasPrevious: after >= 0,
       };
     }
 
     const results: LogEntry[] = [];
-    let currentLine = 0;
-    let totalLines = 0;
+    let matchedLines = 0; // Entries past the cursor that pass the filter
+    let position = after; // Sequence of the last entry processed
+    let positionSegment = start?.segment ?? 0;
+    let stopped = false;
     let responseSize = 0;
 
-    return new Promise((resolve, reject) => {
-      const fileStream = createReadStream(filePath);
-      const rl = createInterface({
-        input: fileStream,
-        crlfDelay: Infinity,
-      });
+    // A line the CLI is still writing does not parse and has no sequence yet,
+    // so the cursor never moves past it
+    await this.streamEntries(filePath, after, (entry, segment) => {
+      if (filter && !filter(entry)) {
+        position = entry.lineNumber;
+        positionSegment = segment;
+        return;
+      }
+      matchedLines++;
+
+      // Check if we've reached the limit
+      if (results.length >= limit) {
+        stopped = true;
+        return false;
+      }
+
+      // Check response size
+      const entrySize = JSON.stringify(entry).length;
+      if (responseSize + entrySize > this.options.maxChunkSize && results.length > 0) {
+        stopped = true;
+        return false;
+      }
+
+      results.push(entry);
+      responseSize += entrySize;
+      position = entry.lineNumber;
+      positionSegment = segment;
+    }, { segment: start?.segment });
+
+    return {
+      data: results,
+      total: matchedLines,
+      nextCursor: this.cursorAfter(filePath, position, positionSegment),
+      hasMore: stopped,
+      hasPrevious: after >= 0,
+    };
+  }
 
-      rl.on('line', (line) => {
-        currentLine++;
-        totalLines++;
-        
-        if (line.trim() === '') return;
-        
-        // Skip lines before cursor
-        if (currentLine <= since) return;
-
-        // Check if we've reached the limit
-        if (results.length >= limit) {
-          rl.close();
-          return;
-        }
+  /**
+   * Read entries captured between two times, seeking to the start of the range
+   * with the index. Without a cursor the read starts at `startTime`.
+   */
+  async readLogsByTimeRange(
+    filePath: string,
+    startTime: Date,
+    endTime: Date,
+    cursor?: string,
+    limit: number = this.options.defaultLimit,
+    filter?: EntryFilter
+  ): Promise<PaginationResult<LogEntry>> {
+    const position = this.decode(filePath, cursor);
+    const after = position?.sequence ?? -1;
 
-        try {
-          const entry = JSON.parse(line) as LogEntry;
-          entry.timestamp = new Date(entry.timestamp);
-
-          // Check response size
-          const entrySize = JSON.stringify(entry).length;
-          if (responseSize + entrySize > this.options.maxChunkSize && results.length > 0) {
-            rl.close();
-            return;
-          }
-
-          results.push(entry);
-          responseSize += entrySize;
-        } catch (error) {
-          // Skip invalid JSON lines
-        }
-      });
+    if (!this.hasLogs(filePath)) {
+      return {
+        data: [],
+        total: 0,
+        hasMore: false,
+        hasPrevious: false,
+      };
+    }
 
-      rl.on('close', () => {
-        const nextCursor = results.length > 0 
-          ? Math.max(...results.map(l => l.lineNumber))
-          : since;
-
-        resolve({
-          data: results,
-          total: totalLines - since,
-          nextCursor: totalLines > since + results.length ? nextCursor : undefined,
-          hasMore: totalLines > since + results.length,
-          hasPrevious: since > 0,
-        });
-      });
+    let from: number | undefined;
+    const index = LogIndex.open(filePath);
+    if (index) {
+      from = index.findLineAtTime(startTime.getTime());
+      index.close();
+    }
 
-      rl.on('error', reject);
-    });
+    const results: LogEntry[] = [];
+    let total = 0; // Entries in the range passing the filter, including those before the cursor
+    let hasMore = false;
+    let responseSize = 0;
+    let lastSegment = 0;
+
+    // Read from the start of the range so that every match is counted
+    await this.streamEntries(filePath, -1, (entry, segment) => {
+      // Entries are appended in capture order, so nothing later is in range
+      if (entry.timestamp > endTime) return false;
+      if (entry.timestamp < startTime || (filter && !filter(entry))) return;
+      total++;
+      if (entry.lineNumber <= after || hasMore) return;
+
+      const entrySize = JSON.stringify(entry).length;
+      if (results.length >= limit || (responseSize + entrySize > this.options.maxChunkSize && results.length > 0)) {
+        hasMore = true;
+        return;
+      }
+
+      results.push(entry);
+      responseSize += entrySize;
+      lastSegment = segment;
+    }, { fromLine: from, startTime: startTime.getTime() });
+
+    return {
+      data: results,
+      total,
+      nextCursor: hasMore ? this.cursorAfter(filePath, results[results.length - 1].lineNumber, lastSegment) : undefined,
+      prevCursor: after >= 0 ? cursor : undefined,
+      hasMore,
+      hasPrevious: after >= 0,
+    };
   }
 
   /**
@@ -249,160 +307,396 @@ export class LogReader {
    */
   private async readLogsForward(
     filePath: string,
-    cursor: number,
-    limit: number
+    cursor: string | undefined,
+    position: CursorPosition | undefined,
+    limit: number,
+    filter?: EntryFilter
   ): Promise<PaginationResult<LogEntry>> {
+    const after = position?.sequence ?? -1;
     const results: LogEntry[] = [];
-    let currentLine = 0;
-    let totalLines = 0;
+    let matchedLines = 0; // Entries that pass the filter, including those before the cursor
     let responseSize = 0;
+    let stopped = false;
+    let lastSegment = 0;
+
+    // Filtered reads start at the beginning and go to the end, so that every match is counted
+    await this.streamEntries(filePath, filter ? -1 : after, (entry, segment) => {
+      if (filter && !filter(entry)) return;
+      matchedLines++;
+      if (entry.lineNumber <= after || stopped) return;
+
+      // Check if we've reached the limit or the response size
+      const entrySize = JSON.stringify(entry).length;
+      if (results.length >= limit || (responseSize + entrySize > this.options.maxChunkSize && results.length > 0)) {
+        stopped = true;
+        return filter ? undefined : false;
+      }
+
+      results.push(entry);
+      responseSize += entrySize;
+      lastSegment = segment;
+    }, { segment: filter ? undefined : position?.segment });
+
+    return {
+      data: results,
+      total: filter ? matchedLines : await this.getLogCount(filePath),
+      nextCursor: stopped ? this.cursorAfter(filePath, results[results.length - 1].lineNumber, lastSegment) : undefined,
+      prevCursor: after >= 0 ? cursor : undefined,
+      hasMore: stopped,
+      hasPrevious: after >= 0,
+    };
+  }
 
-    return new Promise((resolve, reject) => {
-      const fileStream = createReadStream(filePath);
-      const rl = createInterface({
-        input: fileStream,
-        crlfDelay: Infinity,
-      });
-
-      rl.on('line', (line) => {
-        currentLine++;
-        totalLines++;
-        
-        if (line.trim() === '') return;
-        
-        // Skip lines before cursor
-        if (currentLine <= cursor) return;
-
-        // Check if we've reached the limit
-        if (results.length >= limit) {
-          rl.close();
-          return;
-        }
+  /**
+   * Read logs in reverse direction (latest first). Only the requested window
+   * is read: in the active segment it is located with the index, older
+   * entries come from the closed segments, newest first.
+   * nextCursor continues towards older entries.
+   */
+  private async readLogsReverse(
+    filePath: string,
+    cursor: string | undefined,
+    before: number,
+    limit: number
+  ): Promise<PaginationResult<LogEntry>> {
+    const totalCount = await this.getLogCount(filePath);
 
-        try {
-          const entry = JSON.parse(line) as LogEntry;
-          entry.timestamp = new Date(entry.timestamp);
-
-          // Check response size
-          const entrySize = JSON.stringify(entry).length;
-          if (responseSize + entrySize > this.options.maxChunkSize && results.length > 0) {
-            rl.close();
-            return;
-          }
-
-          results.push(entry);
-          responseSize += entrySize;
-        } catch (error) {
-          // Skip invalid JSON lines
+    // Oldest first while collecting
+    let window: Array<{ entry: LogEntry; segment: number }> = [];
+    let older = false;
+
+    const fd = this.openActive(filePath);
+    const manifest = readSegmentManifest(filePath);
+    if (fd !== null) {
+      // The window ends at the first line past the cursor; start reading `limit` lines earlier
+      const windowEnd = this.seekAfter(filePath, fd, before);
+      const windowStart = Math.max(0, windowEnd - limit);
+      older = windowStart > 0;
+
+      await this.streamLines(filePath, fd, windowStart, (line) => {
+        const entry = this.parseLine(line);
+        if (!entry) return;
+        if (entry.lineNumber > before) return false;
+
+        window.push({ entry, segment: manifest.nextSegment });
+        if (window.length > limit) {
+          window.shift();
+          older = true;
         }
       });
+    }
 
-      rl.on('close', () => {
-        const nextCursor = results.length > 0 
-          ? results[results.length - 1].lineNumber
-          : cursor;
-
-        resolve({
-          data: results,
-          total: totalLines,
-          nextCursor: totalLines > cursor + results.length ? nextCursor : undefined,
-          prevCursor: cursor > 0 ? Math.max(0, cursor - limit) : undefined,
-          hasMore: totalLines > cursor + results.length,
-          hasPrevious: cursor > 0,
-        });
-      });
+    for (const info of [...manifest.segments].reverse()) {
+      if (older) break;
+      if (info.firstSequence > before) continue;
+
+      // Entries already read from the active file while it was being closed are skipped
+      const oldestRead = window.length > 0 ? window[0].entry.lineNumber : Infinity;
+      const entries = readSegmentLines(filePath, info.segment)
+        .map(line => this.parseLine(line))
+        .filter((entry): entry is LogEntry => entry !== null && entry.lineNumber <= before && entry.lineNumber < oldestRead);
+
+      const needed = limit - window.length;
+      if (entries.length > needed) {
+        older = true;
+      }
+      window = [
+        ...entries.slice(entries.length - Math.min(needed, entries.length)).map(entry => ({ entry, segment: info.segment })),
+        ...window
+      ];
+    }
 
-      rl.on('error', reject);
-    });
+    // Latest first, cut to the response size from the oldest end
+    const results: Array<{ entry: LogEntry; segment: number }> = [];
+    let responseSize = 0;
+    for (const item of window.reverse()) {
+      const entrySize = JSON.stringify(item.entry).length;
+      if (responseSize + entrySize > this.options.maxChunkSize && results.length > 0) {
+        older = true;
+        break;
+      }
+      results.push(item);
+      responseSize += entrySize;
+    }
+
+    const oldest = results[results.length - 1];
+    return {
+      data: results.map(({ entry }) => entry),
+      total: totalCount,
+      nextCursor: older ? this.cursorAfter(filePath, oldest.entry.lineNumber - 1, oldest.segment) : undefined,
+      prevCursor: cursor,
+      hasMore: older,
+      hasPrevious: cursor !== undefined,
+    };
   }
 
   /**
-   * Read logs in reverse direction (latest first)
+   * Reverse read restricted to entries passing a filter. Matching entries are
+   * sparse, so all matches are collected and the window is taken from those.
    */
-  private async readLogsReverse(
+  private async readLogsReverseFiltered(
     filePath: string,
-    cursor: number,
-    limit: number
+    cursor: string | undefined,
+    before: number,
+    limit: number,
+    filter: EntryFilter
   ): Promise<PaginationResult<LogEntry>> {
-    // For reverse reading, we need to read all lines first to determine total count
-    // Then read from the appropriate position
-    const totalCount = await this.getLogCount(filePath);
-    
-    if (totalCount === 0) {
-      return {
-        data: [],
-        total: 0,
-        hasMore: false,
-        hasPrevious: false,
+    const matches: Array<{ entry: LogEntry; segment: number }> = [];
+
+    await this.streamEntries(filePath, -1, (entry, segment) => {
+      if (filter(entry)) {
+        matches.push({ entry, segment });
+      }
+    });
+
+    const upToCursor = matches.filter(({ entry }) => entry.lineNumber <= before);
+    const window = upToCursor.slice(-limit);
+    const hasMore = upToCursor.length > window.length;
+    const oldest = window[0];
+
+    return {
+      data: window.reverse().map(({ entry }) => entry),
+      total: matches.length,
+      nextCursor: hasMore ? this.cursorAfter(filePath, oldest.entry.lineNumber - 1, oldest.segment) : undefined,
+      prevCursor: cursor,
+      hasMore,
+      hasPrevious: cursor !== undefined,
+    };
+  }
+
+  /**
+   * Stream parsed entries with a sequence number above `after`, passing each
+   * with the segment it was read from: closed segments first, then the
+   * active file. Blank and unparsable lines are skipped. Return false from
+   * the callback to stop.
+   */
+  private async streamEntries(
+    filePath: string,
+    after: number,
+    onEntry: (entry: LogEntry, segment: number) => boolean | void,
+    options: StreamOptions = {}
+  ): Promise<void> {
+    // Opened before the manifest is read: if the CLI closes the active
+    // segment meanwhile, either this file or the manifest has its entries
+    let fd = this.openActive(filePath);
+
+    try {
+      const manifest = readSegmentManifest(filePath);
+      let last = after;
+      const handleLine = (line: string, segment: number): boolean | void => {
+        const entry = this.parseLine(line);
+
+        // Entries of a segment being closed can be in both places
+        if (!entry || entry.lineNumber <= last) return;
+        last = entry.lineNumber;
+        return onEntry(entry, segment);
       };
+
+      for (const info of manifest.segments) {
+        if (info.segment < (options.segment ?? 0) || info.lastSequence <= after) continue;
+        if (options.startTime !== undefined && info.lastTimestamp < options.startTime) continue;
+
+        for (const line of readSegmentLines(filePath, info.segment)) {
+          if (handleLine(line, info.segment) === false) return;
+        }
+      }
+
+      if (fd === null) return;
+
+      const fromLine = options.fromLine ?? this.seekAfter(filePath, fd, after);
+      const activeFd = fd;
+      fd = null; // Closed by streamLines
+      await this.streamLines(filePath, activeFd, fromLine, (line) => handleLine(line, manifest.nextSegment));
+    } finally {
+      if (fd !== null) closeSync(fd);
     }
+  }
 
-    // Calculate the actual start position for reverse reading
-    const startLine = cursor === 0 ? totalCount - limit : cursor - limit;
-    const endLine = cursor === 0 ? totalCount : cursor;
+  private parseLine(line: string): LogEntry | null {
+    if (line.trim() === '') return null;
 
-    const results: LogEntry[] = [];
-    let currentLine = 0;
-    let responseSize = 0;
+    try {
+      return parseLogEntry(line);
+    } catch {
+      // Skip invalid JSON lines
+      return null;
+    }
+  }
+
+  /**
+   * Line position in the active file from which reading finds every entry
+   * after a sequence number: the lines before it all hold earlier entries.
+   * Binary search over the index; 0 (read from the start) without a usable one.
+   */
+  private seekAfter(filePath: string, fd: number, sequence: number): number {
+    if (sequence < 0) return 0;
+
+    const index = LogIndex.open(filePath);
+    if (!index) return 0;
+
+    try {
+      let low = 0;
+      let high = index.lineCount;
+      while (low < high) {
+        const middle = (low + high) >>> 1;
+        const lineNumber = this.readLineNumberAt(fd, index.offsetOf(middle));
+        if (lineNumber === null) {
+          // The index does not match the file (rewritten outside logpiper)
+          return 0;
+        }
+
+        if (lineNumber <= sequence) {
+          low = middle + 1;
+        } else {
+          high = middle;
+        }
+      }
+      return low;
+    } catch {
+      return 0;
+    } finally {
+      index.close();
+    }
+  }
+
+  /**
+   * Sequence number of the entry on the line starting at `offset`
+   */
+  private readLineNumberAt(fd: number, offset: number): number | null {
+    const chunks: Buffer[] = [];
+    const buffer = Buffer.alloc(4096);
+    let position = offset;
+
+    while (true) {
+      const bytesRead = readSync(fd, buffer, 0, buffer.length, position);
+      if (bytesRead === 0) break;
+
+      const newlineIndex = buffer.subarray(0, bytesRead).indexOf(0x0a);
+      if (newlineIndex !== -1) {
+        chunks.push(Buffer.from(buffer.subarray(0, newlineIndex)));
+        break;
+      }
+      chunks.push(Buffer.from(buffer.subarray(0, bytesRead)));
+      position += bytesRead;
+    }
+
+    try {
+      const lineNumber = JSON.parse(Buffer.concat(chunks).toString('utf8')).lineNumber;
+      return typeof lineNumber === 'number' ? lineNumber : null;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Stream the lines of the open active file after a line position, passing
+   * each with its 1-based position. The index locates the start; lines it
+   * does not cover yet are reached by reading on from the last indexed line.
+   * Return false to stop. `fd` is closed once the lines have been read.
+   */
+  private async streamLines(
+    filePath: string,
+    fd: number,
+    fromLine: number,
+    onLine: (line: string, position: number) => boolean | void
+  ): Promise<void> {
+    let startLine = 0;
+    let startOffset = 0;
+
+    if (fromLine > 0) {
+      const index = LogIndex.open(filePath);
+      try {
+        if (index && index.lineCount > 0) {
+          startLine = Math.min(fromLine, index.lineCount - 1);
+          startOffset = index.offsetOf(startLine);
+        }
+      } catch (error) {
+        closeSync(fd);
+        throw error;
+      } finally {
+        index?.close();
+      }
+    }
+
+    let currentLine = startLine;
+    let stopped = false;
 
     return new Promise((resolve, reject) => {
-      const fileStream = createReadStream(filePath);
+      const fileStream = createReadStream(filePath, { fd, start: startOffset });
       const rl = createInterface({
         input: fileStream,
         crlfDelay: Infinity,
       });
 
       rl.on('line', (line) => {
+        // readline may still deliver buffered lines after close()
+        if (stopped) return;
         currentLine++;
-        
-        if (line.trim() === '') return;
-        
-        // Only include lines in our target range
-        if (currentLine <= Math.max(0, startLine) || currentLine > endLine) return;
-
-        try {
-          const entry = JSON.parse(line) as LogEntry;
-          entry.timestamp = new Date(entry.timestamp);
-
-          // Check response size
-          const entrySize = JSON.stringify(entry).length;
-          if (responseSize + entrySize > this.options.maxChunkSize && results.length > 0) {
-            rl.close();
-            return;
-          }
-
-          results.push(entry);
-          responseSize += entrySize;
-        } catch (error) {
-          // Skip invalid JSON lines
+
+        // Skip lines before the requested position
+        if (currentLine <= fromLine) return;
+
+        if (onLine(line, currentLine) === false) {
+          stopped = true;
+          rl.close();
         }
       });
 
       rl.on('close', () => {
-        // Reverse the results for latest-first order
-        results.reverse();
-
-        const nextCursor = endLine < totalCount ? endLine + limit : undefined;
-        const prevCursor = startLine > 0 ? Math.max(0, startLine) : undefined;
-
-        resolve({
-          data: results,
-          total: totalCount,
-          nextCursor,
-          prevCursor,
-          hasMore: endLine < totalCount,
-          hasPrevious: startLine > 0,
-        });
+        fileStream.destroy();
+        resolve();
       });
 
       rl.on('error', reject);
     });
   }
 
+  /**
+   * Position of the last line covered by the file's index, or 0 without one
+   */
+  private lastIndexedLine(filePath: string): number {
+    const index = LogIndex.open(filePath);
+    if (!index) return 0;
+
+    index.close();
+    return Math.max(0, index.lineCount - 1);
+  }
+
+  /**
+   * Descriptor of the active file, or null when there is none (the session
+   * has not logged yet, or its last segment was just closed)
+   */
+  private openActive(filePath: string): number | null {
+    try {
+      return openSync(filePath, 'r');
+    } catch {
+      return null;
+    }
+  }
+
+  private hasLogs(filePath: string): boolean {
+    return existsSync(filePath) || existsSync(manifestPathFor(filePath));
+  }
+
+  /**
+   * Position a cursor for this file points after, if one was given
+   */
+  private decode(filePath: string, cursor: string | undefined): CursorPosition | undefined {
+    return cursor === undefined ? undefined : decodeCursor(cursor, this.sessionIdOf(filePath));
+  }
+
+  private cursorAfter(filePath: string, sequence: number, segment: number = 0): string {
+    return cursorAfter(this.sessionIdOf(filePath), sequence, segment);
+  }
+
+  private sessionIdOf(filePath: string): string {
+    return basename(filePath, '.logs');
+  }
+
   /**
    * Estimate response size for auto-chunking
    */
   private estimateResponseSize(entries: LogEntry[]): number {
     return JSON.stringify(entries).length;
   }
-}
\ No newline at end of file
+}
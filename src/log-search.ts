@@ -0,0 +1,401 @@
+import type { LogEntry, LogFilter, PaginationResult, SearchOrder } from './types.js';
+import { cursorAfter, decodeCursor, encodeCursor, InvalidCursorError } from './cursor.js';
+import {
+  entryTokenSequences,
+  evaluateQuery,
+  parseSearchQuery,
+  positiveLeaves,
+  queryMatchesEntry,
+  serviceFilterMatches,
+  sessionFilterMatches,
+  valueMatches,
+  type LeafNode,
+  type QueryNode,
+  type SearchQuery,
+  type SearchTerm,
+  type Truth
+} from './search-query.js';
+import { serviceMatches } from './service-prefix.js';
+
+/**
+ * Full-text search over the token index of a session (see TermIndex), with
+ * queries written in the language described in search-query.ts.
+ *
+ * The index narrows a query down to candidate entries and rules out those
+ * failing its level, service, time, session and project filters; phrases,
+ * regexes and the remaining filters are checked on the entries themselves.
+ */
+
+/**
+ * What the index keeps about an entry besides its tokens
+ */
+export interface IndexedEntry {
+  sequence: number;
+  timestamp: number; // ms
+  level: string;
+  service?: string;
+  length: number; // Number of tokens
+}
+
+/**
+ * Inverted index of one session's entries
+ */
+export interface TermIndex {
+  entryCount(): number;
+  totalLength(): number; // Tokens of all entries together
+  lastSequence(): number; // -1 when empty
+  /**
+   * Sequences of every indexed entry, for queries no token narrows down
+   */
+  sequences(): number[];
+  /**
+   * Entries containing a token, as sequence → number of occurrences
+   */
+  postings(token: string): Map<number, number>;
+  tokensWithPrefix(prefix: string): string[];
+  entries(sequences: number[]): Map<number, IndexedEntry>;
+}
+
+/**
+ * Reads the entries with the given sequences, passing each to `onEntry` in
+ * storage order; entries no longer stored are skipped. A search checks all its
+ * candidates with one call, so stored data must be read (and decompressed)
+ * at most once per call.
+ */
+export type EntryFetcher = (sequences: number[], onEntry: (entry: LogEntry) => void) => Promise<void>;
+
+/**
+ * A session to search
+ */
+export interface SearchSource {
+  sessionId: string;
+  projectDir?: string;
+  index: TermIndex;
+  fetch: EntryFetcher;
+}
+
+const MAX_RESPONSE_BYTES = 1024 * 1024; // 1MB
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+// An entry captured now scores twice as high as an equally relevant one from long ago
+const RECENCY_HALF_LIFE_MS = 60 * 60 * 1000; // 1 hour
+
+/**
+ * Token frequencies of an entry, as stored in the index
+ */
+export function entryTerms(entry: LogEntry): { length: number; terms: Record<string, number> } {
+  const terms: Record<string, number> = {};
+  let length = 0;
+
+  for (const tokens of entryTokenSequences(entry)) {
+    for (const token of tokens) {
+      terms[token] = (terms[token] ?? 0) + 1;
+      length++;
+    }
+  }
+
+  return { length, terms };
+}
+
+function indexedEntryMatches(info: IndexedEntry, filter: LogFilter | undefined): boolean {
+  return !filter || (
+    (!filter.service || serviceMatches(info.service, filter.service)) &&
+    (!filter.levels || filter.levels.includes(info.level)) &&
+    (!filter.startTime || info.timestamp >= filter.startTime.getTime()) &&
+    (!filter.endTime || info.timestamp <= filter.endTime.getTime())
+  );
+}
+
+/**
+ * What a session alone tells about a query's session and project filters
+ */
+function sessionLeafTruth(node: LeafNode, source: SearchSource): Truth {
+  if (node.type !== 'filter') return undefined;
+  if (node.key === 'session') return sessionFilterMatches(node, source.sessionId, source.projectDir ?? '');
+  if (node.key === 'project') return source.projectDir === undefined ? undefined : sessionFilterMatches(node, source.sessionId, source.projectDir);
+  return undefined;
+}
+
+interface Candidate {
+  sequence: number;
+  timestamp: number;
+  score: number;
+  verify: boolean; // Whether the entry must be read to tell if it matches
+}
+
+/**
+ * Entries that may match a query, in the requested order
+ */
+function findCandidates(
+  source: SearchSource,
+  query: SearchQuery,
+  range: { after: number; upTo: number },
+  filter: LogFilter | undefined,
+  order: SearchOrder,
+  asOf: number
+): Candidate[] {
+  const { index } = source;
+  const entryCount = index.entryCount();
+  if (!query.root || entryCount === 0 || evaluateQuery(query.root, node => sessionLeafTruth(node, source)) === false) {
+    return [];
+  }
+
+  const postingsOf = new Map<string, Map<number, number>>();
+  const tokenPostings = (token: string, prefix: boolean): Map<number, number> => {
+    const key = `${prefix ? '*' : '='}${token}`;
+    let postings = postingsOf.get(key);
+    if (!postings) {
+      if (!prefix) {
+        postings = index.postings(token);
+      } else {
+        postings = new Map();
+        for (const expanded of index.tokensWithPrefix(token)) {
+          for (const [sequence, frequency] of index.postings(expanded)) {
+            postings.set(sequence, (postings.get(sequence) ?? 0) + frequency);
+          }
+        }
+      }
+      postingsOf.set(key, postings);
+    }
+    return postings;
+  };
+
+  // A phrase occurs at most as often as its rarest token
+  const termPostingsOf = new Map<SearchTerm, Map<number, number>>();
+  const termPostings = (term: SearchTerm): Map<number, number> => {
+    let postings = termPostingsOf.get(term);
+    if (postings) return postings;
+
+    const lists = term.tokens.map((token, i) => tokenPostings(token, term.prefix && i === term.tokens.length - 1));
+    const [rarest, ...others] = lists.sort((a, b) => a.size - b.size);
+
+    postings = new Map<number, number>();
+    for (const [sequence, frequency] of rarest) {
+      let min = frequency;
+      for (const other of others) {
+        min = Math.min(min, other.get(sequence) ?? 0);
+      }
+      if (min > 0) postings.set(sequence, min);
+    }
+    termPostingsOf.set(term, postings);
+    return postings;
+  };
+
+  // Entries that can match judging by their tokens; undefined when tokens don't narrow the query down
+  const candidateSequences = (node: QueryNode): Set<number> | undefined => {
+    if (node.type === 'term') {
+      return new Set(termPostings(node.term).keys());
+    }
+    if (node.type === 'and') {
+      const sets = node.nodes.map(candidateSequences).filter((set): set is Set<number> => set !== undefined);
+      if (sets.length === 0) return undefined;
+      const [smallest, ...others] = sets.sort((a, b) => a.size - b.size);
+      return new Set([...smallest].filter(sequence => others.every(set => set.has(sequence))));
+    }
+    if (node.type === 'or') {
+      const sets = node.nodes.map(candidateSequences);
+      return sets.includes(undefined) ? undefined : new Set(sets.flatMap(set => [...set!]));
+    }
+    return undefined;
+  };
+
+  const sequences = [...(candidateSequences(query.root) ?? index.sequences())]
+    .filter(sequence => sequence > range.after && sequence <= range.upTo);
+  const entries = index.entries(sequences);
+  const averageLength = index.totalLength() / entryCount || 1;
+  const scoredTerms = positiveLeaves(query.root)
+    .flatMap(node => node.type === 'term' ? [termPostings(node.term)] : []);
+
+  const candidates: Candidate[] = [];
+  for (const sequence of sequences) {
+    const info = entries.get(sequence);
+    if (!info || !indexedEntryMatches(info, filter)) continue;
+
+    const truth = evaluateQuery(query.root, node => {
+      switch (node.type) {
+        case 'term':
+          // Tokens of a phrase may occur apart
+          return !termPostings(node.term).has(sequence) ? false : node.term.tokens.length === 1 ? true : undefined;
+        case 'time':
+          return node.bound === 'since' ? info.timestamp >= node.time : info.timestamp <= node.time;
+        case 'filter':
+          if (node.key === 'level') return node.values.some(value => valueMatches(value, info.level));
+          if (node.key === 'service') return serviceFilterMatches(node, info.service);
+          return sessionLeafTruth(node, source);
+        default:
+          return undefined;
+      }
+    });
+    if (truth === false) continue;
+
+    let score = 0;
+    for (const postings of scoredTerms) {
+      const frequency = postings.get(sequence);
+      if (frequency === undefined) continue;
+      const idf = Math.log(1 + (entryCount - postings.size + 0.5) / (postings.size + 0.5));
+      score += idf * frequency * (K1 + 1) / (frequency + K1 * (1 - B + B * info.length / averageLength));
+    }
+
+    const age = Math.max(0, asOf - info.timestamp);
+    candidates.push({
+      sequence,
+      timestamp: info.timestamp,
+      score: score * (1 + Math.pow(2, -age / RECENCY_HALF_LIFE_MS)),
+      verify: truth === undefined
+    });
+  }
+
+  return order === 'relevance'
+    ? candidates.sort((a, b) => b.score - a.score || b.sequence - a.sequence)
+    : candidates.sort((a, b) => a.sequence - b.sequence);
+}
+
+/**
+ * The candidates that match: those the index decided on, and those whose
+ * entries pass the query once read, in the same order
+ */
+async function confirmMatches(candidates: Candidate[], query: SearchQuery, fetch: EntryFetcher): Promise<Candidate[]> {
+  const unverified = candidates.filter(candidate => candidate.verify).map(candidate => candidate.sequence);
+  if (unverified.length === 0) return candidates;
+
+  const matching = new Set<number>();
+  await fetch(unverified, entry => {
+    if (queryMatchesEntry(query, entry)) matching.add(entry.lineNumber);
+  });
+  return candidates.filter(candidate => !candidate.verify || matching.has(candidate.sequence));
+}
+
+async function fetchEntries(fetch: EntryFetcher, sequences: number[]): Promise<Map<number, LogEntry>> {
+  const entries = new Map<number, LogEntry>();
+  await fetch(sequences, entry => entries.set(entry.lineNumber, entry));
+  return entries;
+}
+
+/**
+ * Fetch matches from `start` on until `limit` entries that are still stored
+ * are collected, staying within the response size
+ * @returns the entries and the position of the first match not returned, if any remain
+ */
+async function collectMatches(
+  matches: Candidate[],
+  start: number,
+  limit: number,
+  fetch: EntryFetcher
+): Promise<{ entries: LogEntry[]; next?: number }> {
+  const entries: LogEntry[] = [];
+  let responseSize = 0;
+
+  for (let position = start; position < matches.length;) {
+    const batch = matches.slice(position, position + limit + 1);
+    const fetched = await fetchEntries(fetch, batch.map(match => match.sequence));
+
+    for (const match of batch) {
+      const entry = fetched.get(match.sequence);
+      if (!entry) {
+        position++;
+        continue;
+      }
+
+      const entrySize = JSON.stringify(entry).length;
+      if (entries.length >= limit || (responseSize + entrySize > MAX_RESPONSE_BYTES && entries.length > 0)) {
+        return { entries, next: position };
+      }
+
+      entries.push(entry);
+      responseSize += entrySize;
+      position++;
+    }
+  }
+
+  return { entries };
+}
+
+/**
+ * One page of a session's search results. Time-ordered pages continue after
+ * the last entry returned; relevance-ordered pages continue in the ranking
+ * taken on the first page, which ignores entries added since.
+ */
+export async function searchSession(
+  source: SearchSource,
+  queryText: string,
+  cursor: string | undefined,
+  limit: number,
+  filter: LogFilter | undefined,
+  order: SearchOrder
+): Promise<PaginationResult<LogEntry>> {
+  const { sessionId, index, fetch } = source;
+  const position = cursor === undefined ? undefined : decodeCursor(cursor, sessionId);
+  if (position && (position.rank !== undefined) !== (order === 'relevance')) {
+    throw new InvalidCursorError(`Cursor "${cursor}" was returned by a search in another order`);
+  }
+
+  const after = order === 'time' ? position?.sequence ?? -1 : -1;
+  const upTo = order === 'relevance' ? position?.sequence ?? index.lastSequence() : Infinity;
+  const asOf = position?.rank?.asOf ?? Date.now();
+  const offset = position?.rank?.offset ?? 0;
+  const query = parseSearchQuery(queryText, asOf);
+
+  const candidates = findCandidates(source, query, { after, upTo }, filter, order, asOf);
+  const matches = await confirmMatches(candidates, query, fetch);
+  const { entries, next } = await collectMatches(matches, offset, limit, fetch);
+
+  let nextCursor: string | undefined;
+  if (next !== undefined) {
+    nextCursor = order === 'relevance'
+      ? encodeCursor({ sessionId, segment: 0, sequence: upTo, rank: { offset: next, asOf } })
+      : cursorAfter(sessionId, entries[entries.length - 1].lineNumber);
+  }
+
+  return {
+    data: entries,
+    total: matches.length,
+    nextCursor,
+    prevCursor: position ? cursor : undefined,
+    hasMore: next !== undefined,
+    hasPrevious: position !== undefined,
+  };
+}
+
+/**
+ * The best matches across sessions: the most relevant, or the most recent when ordered by time
+ */
+export async function searchSessions(
+  sources: SearchSource[],
+  queryText: string,
+  limit: number,
+  filter: LogFilter | undefined,
+  order: SearchOrder
+): Promise<PaginationResult<LogEntry>> {
+  const query = parseSearchQuery(queryText);
+  const asOf = Date.now();
+  const ranked: Array<{ entry: LogEntry; score: number }> = [];
+  let total = 0;
+  let truncated = false; // A session has matches beyond those ranked
+
+  for (const source of sources) {
+    const candidates = findCandidates(source, query, { after: -1, upTo: Infinity }, filter, 'relevance', asOf);
+    if (order === 'time') {
+      candidates.sort((a, b) => b.timestamp - a.timestamp || b.sequence - a.sequence);
+    }
+
+    const scores = new Map(candidates.map(candidate => [candidate.sequence, candidate.score]));
+    const matches = await confirmMatches(candidates, query, source.fetch);
+    const { entries, next } = await collectMatches(matches, 0, limit, source.fetch);
+    total += matches.length;
+    truncated ||= next !== undefined;
+    ranked.push(...entries.map(entry => ({ entry, score: scores.get(entry.lineNumber)! })));
+  }
+
+  const newestFirst = (a: { entry: LogEntry }, b: { entry: LogEntry }) => b.entry.timestamp.getTime() - a.entry.timestamp.getTime();
+  ranked.sort(order === 'relevance' ? (a, b) => b.score - a.score || newestFirst(a, b) : newestFirst);
+
+  return {
+    data: ranked.slice(0, limit).map(({ entry }) => entry),
+    total,
+    hasMore: truncated || ranked.length > limit,
+    hasPrevious: false,
+  };
+}
@@ -0,0 +1,275 @@
+import { existsSync, readdirSync, readFileSync, statSync, unlinkSync } from 'fs';
+import { basename, dirname, join } from 'path';
+import { gunzipSync, gzipSync } from 'zlib';
+import { writeFileAtomic } from './atomic-file.js';
+import { indexPathFor, LogIndexWriter } from './log-index.js';
+import { parseLogEntry } from './log-entry.js';
+
+/**
+ * A session's log is stored as rolling segments. The CLI appends to the
+ * active segment, `<id>.logs`. Once it reaches the size or age limit it is
+ * compressed into `<id>.<n>.logs.gz`, recorded in the `<id>.segments`
+ * manifest and a new active segment is started. Segments are numbered in
+ * write order, so later segments only hold later entries.
+ */
+
+/**
+ * When the active segment is closed and how much a session may keep on disk
+ */
+export interface SegmentPolicy {
+  maxSegmentBytes: number; // Uncompressed size of the active segment
+  maxSegmentAgeMs: number; // Time since the first entry of the active segment
+  maxSessionBytes: number; // Disk budget per session, checked whenever a segment is closed
+}
+
+export const DEFAULT_SEGMENT_POLICY: SegmentPolicy = {
+  maxSegmentBytes: 8 * 1024 * 1024, // 8MB
+  maxSegmentAgeMs: 60 * 60 * 1000, // 1 hour
+  maxSessionBytes: 100 * 1024 * 1024, // 100MB
+};
+
+/**
+ * Segment settings from LOGPIPER_SEGMENT_MAX_MB, LOGPIPER_SEGMENT_MAX_AGE_MINUTES
+ * and LOGPIPER_SESSION_MAX_MB
+ */
+export function segmentPolicyFromEnv(): Partial<SegmentPolicy> {
+  const read = (name: string): number | undefined => {
+    const value = Number(process.env[name]);
+    return process.env[name] && Number.isFinite(value) && value > 0 ? value : undefined;
+  };
+
+  const segmentMb = read('LOGPIPER_SEGMENT_MAX_MB');
+  const segmentMinutes = read('LOGPIPER_SEGMENT_MAX_AGE_MINUTES');
+  const sessionMb = read('LOGPIPER_SESSION_MAX_MB');
+  const policy: Partial<SegmentPolicy> = {
+    maxSegmentBytes: segmentMb !== undefined ? segmentMb * 1024 * 1024 : undefined,
+    maxSegmentAgeMs: segmentMinutes !== undefined ? segmentMinutes * 60 * 1000 : undefined,
+    maxSessionBytes: sessionMb !== undefined ? sessionMb * 1024 * 1024 : undefined,
+  };
+
+  return Object.fromEntries(Object.entries(policy).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * A closed segment. Sequence and time ranges are those of the segment as it
+ * was written, also after compaction.
+ */
+export interface SegmentInfo {
+  segment: number;
+  firstSequence: number;
+  lastSequence: number;
+  firstTimestamp: number; // ms
+  lastTimestamp: number; // ms
+  entries: number;
+  bytes: number; // Compressed size on disk
+  compacted: boolean; // Evicted to stay within the session budget; only error entries are left
+}
+
+export interface SegmentManifest {
+  nextSegment: number; // Number of the active segment
+  segments: SegmentInfo[]; // Closed segments, oldest first
+}
+
+export function manifestPathFor(logsPath: string): string {
+  return logsPath.replace(/\.logs$/, '.segments');
+}
+
+export function segmentPathFor(logsPath: string, segment: number): string {
+  return logsPath.replace(/\.logs$/, `.${segment}.logs.gz`);
+}
+
+/**
+ * Closed segment files of a `.logs` file found on disk, including any the
+ * manifest no longer lists
+ */
+export function listSegmentFiles(logsPath: string): string[] {
+  const directory = dirname(logsPath);
+  if (!existsSync(directory)) {
+    return [];
+  }
+
+  const prefix = basename(logsPath, '.logs') + '.';
+  return readdirSync(directory)
+    .filter(file => file.startsWith(prefix) && /^\d+\.logs\.gz$/.test(file.slice(prefix.length)))
+    .map(file => join(directory, file));
+}
+
+/**
+ * The manifest of a `.logs` file; empty for sessions that were never rotated
+ */
+export function readSegmentManifest(logsPath: string): SegmentManifest {
+  try {
+    const manifest = JSON.parse(readFileSync(manifestPathFor(logsPath), 'utf8'));
+    if (Number.isInteger(manifest.nextSegment) && Array.isArray(manifest.segments)) {
+      return manifest;
+    }
+  } catch {
+    // Not rotated yet
+  }
+  return { nextSegment: 0, segments: [] };
+}
+
+/**
+ * Lines of a closed segment. Segments are bounded by maxSegmentBytes, so
+ * they are decompressed in one go. A segment evicted since the manifest was
+ * read has no lines.
+ */
+export function readSegmentLines(logsPath: string, segment: number): string[] {
+  let content: Buffer;
+  try {
+    content = gunzipSync(readFileSync(segmentPathFor(logsPath, segment)));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`Failed to read log segment ${segment} of ${logsPath}:`, error);
+    }
+    return [];
+  }
+
+  return content.toString('utf8').split('\n').filter(line => line.trim() !== '');
+}
+
+/**
+ * Appends lines to the active segment and closes it when the segment policy
+ * says so. Used by the CLI, the only writer of a session's log.
+ */
+export class SegmentedLogWriter {
+  private logsPath: string;
+  private policy: SegmentPolicy;
+  private writer: LogIndexWriter;
+  private activeBytes: number;
+  private activeSince: number | null = null; // Timestamp of the first entry this writer added to the active segment
+  private onEvict?: (segments: SegmentInfo[]) => void;
+
+  /**
+   * @param onEvict called with the segments evicted to stay within the session budget
+   */
+  constructor(logsPath: string, policy: SegmentPolicy, onEvict?: (segments: SegmentInfo[]) => void) {
+    this.logsPath = logsPath;
+    this.policy = policy;
+    this.onEvict = onEvict;
+    this.writer = new LogIndexWriter(logsPath);
+    this.activeBytes = existsSync(logsPath) ? statSync(logsPath).size : 0;
+  }
+
+  append(line: string, timestamp: number): void {
+    const lineBytes = Buffer.byteLength(line) + 1;
+    if (this.activeBytes > 0 && (
+      this.activeBytes + lineBytes > this.policy.maxSegmentBytes ||
+      (this.activeSince !== null && timestamp - this.activeSince >= this.policy.maxSegmentAgeMs)
+    )) {
+      this.rotate();
+    }
+
+    this.activeSince ??= timestamp;
+    this.writer.append(line, timestamp);
+    this.activeBytes += lineBytes;
+  }
+
+  /**
+   * Compress the active segment and start a new one. The compressed segment
+   * and the manifest are written before the active file is removed, so a
+   * reader that opened the old file or lists the new segment sees every entry.
+   */
+  private rotate(): void {
+    const content = readFileSync(this.logsPath);
+    const entries = content.toString('utf8').split('\n').flatMap(line => {
+      try {
+        return line.trim() === '' ? [] : [parseLogEntry(line)];
+      } catch {
+        return [];
+      }
+    });
+
+    if (entries.length > 0) {
+      const manifest = readSegmentManifest(this.logsPath);
+      const segment = manifest.nextSegment;
+      const compressed = gzipSync(content);
+      writeFileAtomic(segmentPathFor(this.logsPath, segment), compressed);
+
+      const first = entries[0];
+      const last = entries[entries.length - 1];
+      manifest.segments.push({
+        segment,
+        firstSequence: first.lineNumber,
+        lastSequence: last.lineNumber,
+        firstTimestamp: first.timestamp.getTime(),
+        lastTimestamp: last.timestamp.getTime(),
+        entries: entries.length,
+        bytes: compressed.length,
+        compacted: false
+      });
+      manifest.nextSegment = segment + 1;
+      writeFileAtomic(manifestPathFor(this.logsPath), JSON.stringify(manifest, null, 2));
+
+      this.enforceSessionBudget(manifest);
+    }
+
+    for (const file of [this.logsPath, indexPathFor(this.logsPath)]) {
+      try {
+        unlinkSync(file);
+      } catch {
+        // Already gone
+      }
+    }
+
+    this.writer = new LogIndexWriter(this.logsPath);
+    this.activeBytes = 0;
+    this.activeSince = null;
+  }
+
+  /**
+   * Evict the oldest segments until the session fits its budget. An evicted
+   * segment keeps its error entries; it is only deleted when it has none.
+   */
+  private enforceSessionBudget(manifest: SegmentManifest): void {
+    let totalBytes = manifest.segments.reduce((sum, info) => sum + info.bytes, 0);
+    if (totalBytes <= this.policy.maxSessionBytes) {
+      return;
+    }
+
+    const emptied: number[] = [];
+    const evicted: SegmentInfo[] = [];
+
+    for (const info of manifest.segments) {
+      if (totalBytes <= this.policy.maxSessionBytes) break;
+      if (info.compacted) continue;
+      evicted.push(info);
+
+      const errorLines = readSegmentLines(this.logsPath, info.segment).filter(line => {
+        try {
+          return parseLogEntry(line).logLevel === 'error';
+        } catch {
+          return false;
+        }
+      });
+
+      totalBytes -= info.bytes;
+      info.compacted = true;
+      info.entries = errorLines.length;
+
+      if (errorLines.length === 0) {
+        info.bytes = 0;
+        emptied.push(info.segment);
+      } else {
+        const compressed = gzipSync(errorLines.join('\n') + '\n');
+        writeFileAtomic(segmentPathFor(this.logsPath, info.segment), compressed);
+        info.bytes = compressed.length;
+        totalBytes += info.bytes;
+      }
+    }
+
+    manifest.segments = manifest.segments.filter(info => !emptied.includes(info.segment));
+    writeFileAtomic(manifestPathFor(this.logsPath), JSON.stringify(manifest, null, 2));
+
+    // Listed segments are never missing; unlisted ones are removed after the manifest
+    for (const segment of emptied) {
+      try {
+        unlinkSync(segmentPathFor(this.logsPath, segment));
+      } catch {
+        // Already gone
+      }
+    }
+
+    this.onEvict?.(evicted);
+  }
+}
@@ -0,0 +1,304 @@
+import { EventEmitter } from 'events';
+import {
+  closeSync,
+  existsSync,
+  fstatSync,
+  mkdirSync,
+  openSync,
+  readdirSync,
+  readSync,
+  statSync,
+  watch,
+  type FSWatcher
+} from 'fs';
+import { join } from 'path';
+import { parseLogEntry } from './log-entry.js';
+import { readSegmentLines, readSegmentManifest } from './log-segments.js';
+import { SessionStore } from './session-store.js';
+
+interface TailState {
+  offset: number; // Byte offset of the first unread byte
+  partial: Buffer; // Trailing bytes of a line that has not been terminated yet
+  lastLineNumber: number;
+  segment: number; // Number of the active segment being read
+}
+
+/**
+ * Follows the files written by CLI instances in the data directory.
+ *
+ * Events:
+ * - `entry` (LogEntry): a newly appended log entry
+ * - `logsAppended` (sessionId): a session's log grew
+ * - `sessionAdded` / `sessionRemoved` (sessionId): a session file appeared or disappeared
+ * - `sessionUpdated` (sessionId, status): a session's status changed
+ *
+ * fs.watch gives low latency; a periodic rescan catches events that
+ * fs.watch drops on some platforms and filesystems.
+ */
+export class LogTailer extends EventEmitter {
+  private dataDir: string;
+  private store: SessionStore;
+  private pollIntervalMs: number;
+  private states: Map<string, TailState> = new Map();
+  private sessionStatuses: Map<string, string> = new Map();
+  private watcher: FSWatcher | null = null;
+  private pollTimer: NodeJS.Timeout | null = null;
+  private readonly readChunkSize = 64 * 1024;
+
+  constructor(dataDir: string, pollIntervalMs: number = 2000) {
+    super();
+    this.dataDir = dataDir;
+    this.store = new SessionStore(dataDir);
+    this.pollIntervalMs = pollIntervalMs;
+  }
+
+  start(): void {
+    if (!existsSync(this.dataDir)) {
+      mkdirSync(this.dataDir, { recursive: true });
+    }
+
+    // Content written before the server started has already happened;
+    // only alert on what arrives from now on
+    for (const file of readdirSync(this.dataDir)) {
+      if (file.endsWith('.logs')) {
+        const logsFile = join(this.dataDir, file);
+        this.states.set(this.toSessionId(file), {
+          offset: this.getFileSize(logsFile),
+          partial: Buffer.alloc(0),
+          lastLineNumber: -1,
+          segment: readSegmentManifest(logsFile).nextSegment
+        });
+      } else if (file.endsWith('.json')) {
+        const sessionId = this.toSessionId(file);
+        this.sessionStatuses.set(sessionId, this.readSessionStatus(sessionId) ?? 'unknown');
+      }
+    }
+
+    try {
+      this.watcher = watch(this.dataDir, (_event, filename) => {
+        if (!filename) return;
+
+        if (filename.endsWith('.logs') || filename.endsWith('.segments')) {
+          this.readNewEntries(this.toSessionId(filename));
+        } else if (filename.endsWith('.json') || filename.endsWith('.ends')) {
+          this.checkSession(this.toSessionId(filename));
+        }
+      });
+      this.watcher.on('error', (error) => {
+        console.error('Log directory watcher failed, falling back to polling:', error);
+        this.watcher?.close();
+        this.watcher = null;
+      });
+    } catch (error) {
+      console.error('Failed to watch log directory, falling back to polling:', error);
+    }
+
+    this.pollTimer = setInterval(() => this.scan(), this.pollIntervalMs);
+    this.pollTimer.unref();
+  }
+
+  stop(): void {
+    this.watcher?.close();
+    this.watcher = null;
+
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  private scan(): void {
+    if (!existsSync(this.dataDir)) {
+      return;
+    }
+
+    const seenLogs = new Set<string>();
+    const seenSessions = new Set<string>();
+    for (const file of readdirSync(this.dataDir)) {
+      if (file.endsWith('.logs') || file.endsWith('.segments')) {
+        const sessionId = this.toSessionId(file);
+        if (seenLogs.has(sessionId)) continue;
+        seenLogs.add(sessionId);
+        this.readNewEntries(sessionId);
+      } else if (file.endsWith('.json')) {
+        const sessionId = this.toSessionId(file);
+        seenSessions.add(sessionId);
+        this.checkSession(sessionId);
+      }
+    }
+
+    // Forget sessions whose files were removed
+    for (const sessionId of this.states.keys()) {
+      if (!seenLogs.has(sessionId)) {
+        this.states.delete(sessionId);
+      }
+    }
+
+    for (const sessionId of Array.from(this.sessionStatuses.keys())) {
+      if (!seenSessions.has(sessionId)) {
+        this.checkSession(sessionId);
+      }
+    }
+  }
+
+  private checkSession(sessionId: string): void {
+    const previousStatus = this.sessionStatuses.get(sessionId);
+
+    if (!existsSync(join(this.dataDir, `${sessionId}.json`))) {
+      if (previousStatus !== undefined) {
+        this.sessionStatuses.delete(sessionId);
+        this.emit('sessionRemoved', sessionId);
+      }
+      return;
+    }
+
+    // The CLI may be midway through rewriting the file; keep the last known status
+    const status = this.readSessionStatus(sessionId);
+    if (status === null) return;
+
+    this.sessionStatuses.set(sessionId, status);
+    if (previousStatus === undefined) {
+      this.emit('sessionAdded', sessionId);
+    } else if (previousStatus !== status) {
+      this.emit('sessionUpdated', sessionId, status);
+    }
+  }
+
+  private readSessionStatus(sessionId: string): string | null {
+    const status = this.store.readSessionStatus(sessionId);
+    return typeof status === 'string' ? status : null;
+  }
+
+  private readNewEntries(sessionId: string): void {
+    const logsFile = join(this.dataDir, `${sessionId}.logs`);
+
+    // Opened before the manifest is read: if the CLI closes the active
+    // segment meanwhile, either this file or the manifest has its entries
+    let fd: number | null;
+    try {
+      fd = openSync(logsFile, 'r');
+    } catch {
+      fd = null;
+    }
+
+    try {
+      const manifest = readSegmentManifest(logsFile);
+      if (fd === null && manifest.segments.length === 0) {
+        this.states.delete(sessionId);
+        return;
+      }
+
+      let state = this.states.get(sessionId);
+      if (!state) {
+        // A session that appeared after start: read it from the beginning
+        state = { offset: 0, partial: Buffer.alloc(0), lastLineNumber: -1, segment: manifest.nextSegment };
+        this.states.set(sessionId, state);
+      }
+
+      let appended = false;
+      if (manifest.nextSegment !== state.segment) {
+        // The CLI closed the segment being read. Entries appended to it since
+        // the last read are in the closed segments; the new one starts empty.
+        if (state.lastLineNumber >= 0) {
+          for (const info of manifest.segments) {
+            if (info.segment < state.segment || info.lastSequence <= state.lastLineNumber) continue;
+            for (const line of readSegmentLines(logsFile, info.segment)) {
+              this.emitLine(sessionId, state, line);
+            }
+            appended = true;
+          }
+        }
+
+        state.segment = manifest.nextSegment;
+        state.offset = 0;
+        state.partial = Buffer.alloc(0);
+      }
+
+      if (fd !== null) {
+        appended = this.readActiveSegment(sessionId, state, fd) || appended;
+      }
+
+      if (appended) {
+        this.emit('logsAppended', sessionId);
+      }
+    } finally {
+      if (fd !== null) closeSync(fd);
+    }
+  }
+
+  /**
+   * Read what was appended to the active segment since the last read
+   * @returns whether anything was read
+   */
+  private readActiveSegment(sessionId: string, state: TailState, fd: number): boolean {
+    const size = fstatSync(fd).size;
+    if (size < state.offset) {
+      // The file was rewritten in place. Re-read it and rely on line numbers
+      // to skip entries that were already emitted; without a known line number
+      // there is nothing to compare against, so resume from the new end.
+      state.offset = state.lastLineNumber >= 0 ? 0 : size;
+      state.partial = Buffer.alloc(0);
+    }
+
+    if (size === state.offset) {
+      return false;
+    }
+
+    try {
+      const buffer = Buffer.alloc(this.readChunkSize);
+      while (state.offset < size) {
+        const bytesRead = readSync(fd, buffer, 0, Math.min(buffer.length, size - state.offset), state.offset);
+        if (bytesRead === 0) break;
+        state.offset += bytesRead;
+        this.consumeBytes(sessionId, state, buffer.subarray(0, bytesRead));
+      }
+    } catch (error) {
+      console.error(`Failed to read new logs for session ${sessionId}:`, error);
+    }
+
+    return true;
+  }
+
+  private consumeBytes(sessionId: string, state: TailState, bytes: Buffer): void {
+    let data = state.partial.length > 0 ? Buffer.concat([state.partial, bytes]) : bytes;
+    let newlineIndex = data.indexOf(0x0a);
+
+    while (newlineIndex !== -1) {
+      const line = data.subarray(0, newlineIndex).toString('utf8');
+      data = data.subarray(newlineIndex + 1);
+      this.emitLine(sessionId, state, line);
+      newlineIndex = data.indexOf(0x0a);
+    }
+
+    // Copy so the shared read buffer can be reused
+    state.partial = Buffer.from(data);
+  }
+
+  private emitLine(sessionId: string, state: TailState, line: string): void {
+    if (line.trim() === '') return;
+
+    try {
+      const entry = parseLogEntry(line);
+      if (entry.lineNumber <= state.lastLineNumber) {
+        return;
+      }
+
+      state.lastLineNumber = entry.lineNumber;
+      this.emit('entry', entry);
+    } catch (error) {
+      console.error(`Skipping malformed log line in session ${sessionId}`);
+    }
+  }
+
+  private getFileSize(filePath: string): number {
+    try {
+      return statSync(filePath).size;
+    } catch {
+      return 0;
+    }
+  }
+
+  private toSessionId(filename: string): string {
+    return filename.replace(/\.(logs|json|segments|ends)$/, '');
+  }
+}
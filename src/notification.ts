@@ -1,16 +1,32 @@
+import type { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import type { LoggingLevel } from '@modelcontextprotocol/sdk/types.js';
 import type { ErrorEvent, NotificationPayload } from './types.js';
 
+const LOGGING_LEVELS: LoggingLevel[] = [
+  'debug', 'info', 'notice', 'warning', 'error', 'critical', 'alert', 'emergency'
+];
+
 export class NotificationSystem {
+  private server: Server;
+  private minLogLevel: LoggingLevel = 'info';
   private notificationQueue: NotificationPayload[] = [];
   private rateLimitMap: Map<string, number[]> = new Map();
   private maxNotificationsPerMinute = 5;
   private batchTimeout: NodeJS.Timeout | null = null;
   private pendingBatch: ErrorEvent[] = [];
 
-  constructor() {
+  constructor(server: Server) {
+    this.server = server;
     this.startBatchProcessor();
   }
 
+  /**
+   * Minimum level for notifications/message, as requested via logging/setLevel
+   */
+  setLogLevel(level: LoggingLevel): void {
+    this.minLogLevel = level;
+  }
+
   async sendErrorNotification(errorEvent: ErrorEvent): Promise<void> {
     if (this.shouldSuppressNotification(errorEvent)) {
       return;
@@ -224,21 +240,57 @@ export class NotificationSystem {
 
   private async sendNotification(notification: NotificationPayload): Promise<void> {
     try {
-      // Send via JSON-RPC notification to stdout for MCP client
-      const jsonRpcNotification = {
-        jsonrpc: '2.0',
+      // Custom method for clients that understand logpiper alerts
+      await this.server.notification({
         method: notification.method,
         params: notification.params,
-      };
+      });
 
-      process.stdout.write(JSON.stringify(jsonRpcNotification) + '\n');
-      
-      console.error(`📢 Sent ${notification.params.severity} notification: ${notification.params.summary}`);
+      // Standard MCP logging message so every client surfaces the alert
+      const level = this.getLoggingLevel(notification);
+      if (LOGGING_LEVELS.indexOf(level) >= LOGGING_LEVELS.indexOf(this.minLogLevel)) {
+        await this.server.sendLoggingMessage({
+          level,
+          logger: 'logpiper',
+          data: {
+            message: this.describeNotification(notification),
+            ...notification.params,
+          },
+        });
+      }
+
+      console.error(`📢 Sent ${level} notification: ${this.describeNotification(notification)}`);
     } catch (error) {
       console.error('Failed to send notification:', error);
     }
   }
 
+  private getLoggingLevel(notification: NotificationPayload): LoggingLevel {
+    if (notification.method === 'notifications/session_update') {
+      switch (notification.params.status) {
+        case 'crashed': return 'error';
+        case 'orphaned': return 'warning';
+        case 'stopped': return 'notice';
+        default: return 'info';
+      }
+    }
+
+    switch (notification.params.severity) {
+      case 'critical': return 'critical';
+      case 'high': return 'error';
+      case 'medium': return 'warning';
+      default: return 'info';
+    }
+  }
+
+  private describeNotification(notification: NotificationPayload): string {
+    if (notification.method === 'notifications/session_update') {
+      return `Session ${notification.params.sessionId} ${notification.params.status}`;
+    }
+
+    return notification.params.summary;
+  }
+
   private startBatchProcessor(): void {
     // Process any pending batches on exit
     process.on('SIGINT', () => {
@@ -256,7 +308,7 @@ export class NotificationSystem {
 
   async sendSessionUpdateNotification(
     sessionId: string, 
-    status: 'started' | 'stopped' | 'crashed',
+    status: 'started' | 'stopped' | 'crashed' | 'orphaned',
     metadata: any
   ): Promise<void> {
     const notification: NotificationPayload = {
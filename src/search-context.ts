@@ -0,0 +1,66 @@
+import type { LogEntry } from './types.js';
+
+/**
+ * Entries next to a search hit in its session's log, nearest first
+ */
+export interface Neighbours {
+  before: LogEntry[];
+  after: LogEntry[];
+}
+
+/**
+ * Consecutive entries of one session around one or more hits
+ */
+export interface ContextWindow {
+  sessionId: string;
+  entries: LogEntry[]; // In sequence order
+  hits: Set<number>; // lineNumbers of the entries that matched
+}
+
+/**
+ * Group hits with up to `before` and `after` of their neighbours. Windows
+ * that overlap or touch are merged; they are returned in the order of their
+ * first hit among `hits`.
+ */
+export function buildContextWindows(
+  hits: LogEntry[],
+  neighbours: Map<LogEntry, Neighbours>,
+  before: number,
+  after: number
+): ContextWindow[] {
+  const windows = hits.map((hit, rank) => {
+    const around = neighbours.get(hit) ?? { before: [], after: [] };
+    return {
+      rank,
+      window: {
+        sessionId: hit.sessionId,
+        entries: [...around.before.slice(0, before).reverse(), hit, ...around.after.slice(0, after)],
+        hits: new Set([hit.lineNumber])
+      }
+    };
+  });
+
+  const first = (window: ContextWindow) => window.entries[0].lineNumber;
+  const last = (window: ContextWindow) => window.entries[window.entries.length - 1].lineNumber;
+
+  windows.sort((a, b) => a.window.sessionId.localeCompare(b.window.sessionId) || first(a.window) - first(b.window));
+
+  const merged: typeof windows = [];
+  for (const current of windows) {
+    const previous = merged[merged.length - 1];
+    if (!previous || previous.window.sessionId !== current.window.sessionId || first(current.window) > last(previous.window) + 1) {
+      merged.push(current);
+      continue;
+    }
+
+    const entries = new Map(previous.window.entries.map(entry => [entry.lineNumber, entry]));
+    for (const entry of current.window.entries) {
+      entries.set(entry.lineNumber, entry);
+    }
+    previous.window.entries = [...entries.values()].sort((a, b) => a.lineNumber - b.lineNumber);
+    current.window.hits.forEach(lineNumber => previous.window.hits.add(lineNumber));
+    previous.rank = Math.min(previous.rank, current.rank);
+  }
+
+  return merged.sort((a, b) => a.rank - b.rank).map(({ window }) => window);
+}
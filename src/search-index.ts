@@ -0,0 +1,215 @@
+import { appendFileSync, closeSync, fstatSync, openSync, readFileSync, readSync } from 'fs';
+import { writeFileAtomic } from './atomic-file.js';
+import { entryTerms, type IndexedEntry, type TermIndex } from './log-search.js';
+import type { LogEntry } from './types.js';
+
+/**
+ * Token index kept next to each `.logs` file as `<id>.terms`, so searches
+ * look up the entries containing a token instead of scanning the log.
+ *
+ * One NDJSON record per entry with its sequence, timestamp, level, service,
+ * number of tokens and token frequencies. The CLI appends a record after
+ * the entry has been written, so the index may lag the log but never runs
+ * ahead of it. It spans all segments; records of entries evicted from a
+ * segment are pruned by rewriting the file.
+ */
+
+interface TermRecord {
+  seq: number;
+  time: number;
+  level: string;
+  service?: string;
+  length: number;
+  terms: Record<string, number>;
+}
+
+export function termsPathFor(logsPath: string): string {
+  return logsPath.replace(/\.logs$/, '.terms');
+}
+
+function termRecordFor(entry: LogEntry): TermRecord {
+  return {
+    seq: entry.lineNumber,
+    time: new Date(entry.timestamp).getTime(),
+    level: entry.logLevel,
+    ...(entry.service && { service: entry.service }),
+    ...entryTerms(entry)
+  };
+}
+
+/**
+ * Appends term records; used by the CLI next to its log writer
+ */
+export class TermIndexWriter {
+  private termsPath: string;
+
+  constructor(logsPath: string) {
+    this.termsPath = termsPathFor(logsPath);
+  }
+
+  append(entry: LogEntry): void {
+    appendFileSync(this.termsPath, JSON.stringify(termRecordFor(entry)) + '\n');
+  }
+
+  /**
+   * Drop the records of entries evicted from the given sequence ranges.
+   * Evicted segments keep their error entries, and so does the index.
+   */
+  prune(ranges: Array<{ firstSequence: number; lastSequence: number }>): void {
+    let content: string;
+    try {
+      content = readFileSync(this.termsPath, 'utf8');
+    } catch {
+      return;
+    }
+
+    const kept = content.split('\n').filter(line => {
+      if (line.trim() === '') return false;
+      try {
+        const record: TermRecord = JSON.parse(line);
+        return record.level === 'error' ||
+          !ranges.some(range => record.seq >= range.firstSequence && record.seq <= range.lastSequence);
+      } catch {
+        return false;
+      }
+    });
+
+    writeFileAtomic(this.termsPath, kept.map(line => line + '\n').join(''));
+  }
+}
+
+/**
+ * A session's term index held in memory. Each refresh only reads the records
+ * appended since the previous one, and reloads the file after it was pruned.
+ * Sessions recorded before term indexes existed are indexed from their log.
+ */
+export class FileTermIndex implements TermIndex {
+  private termsPath: string;
+  private scanLog: (after: number, onEntry: (entry: LogEntry) => void) => Promise<void>;
+  private postingLists: Map<string, number[]> = new Map(); // Per token: sequence, frequency, sequence, ...
+  private indexedEntries: Map<number, IndexedEntry> = new Map();
+  private tokenCount = 0;
+  private newestSequence = -1;
+  private inode: number | null = null;
+  private offset = 0; // Byte offset of the first record not read yet
+  private readonly readChunkSize = 1024 * 1024;
+
+  constructor(logsPath: string, scanLog: (after: number, onEntry: (entry: LogEntry) => void) => Promise<void>) {
+    this.termsPath = termsPathFor(logsPath);
+    this.scanLog = scanLog;
+  }
+
+  async refresh(): Promise<void> {
+    let fd: number;
+    try {
+      fd = openSync(this.termsPath, 'r');
+    } catch {
+      await this.scanLog(this.newestSequence, entry => this.add(termRecordFor(entry)));
+      return;
+    }
+
+    try {
+      const stats = fstatSync(fd);
+      if (stats.ino !== this.inode || stats.size < this.offset) {
+        this.reset();
+        this.inode = stats.ino;
+      }
+
+      let pending = Buffer.alloc(0);
+      const chunk = Buffer.alloc(this.readChunkSize);
+      let position = this.offset;
+      while (position < stats.size) {
+        const bytesRead = readSync(fd, chunk, 0, Math.min(chunk.length, stats.size - position), position);
+        if (bytesRead === 0) break;
+        position += bytesRead;
+
+        const data = Buffer.concat([pending, chunk.subarray(0, bytesRead)]);
+        const end = data.lastIndexOf(0x0a) + 1;
+        for (const line of data.subarray(0, end).toString('utf8').split('\n')) {
+          if (line.trim() === '') continue;
+          try {
+            this.add(JSON.parse(line));
+          } catch {
+            // Not a record
+          }
+        }
+
+        // A record still being appended is read again next time
+        this.offset += end;
+        pending = data.subarray(end);
+      }
+    } finally {
+      closeSync(fd);
+    }
+  }
+
+  entryCount(): number {
+    return this.indexedEntries.size;
+  }
+
+  totalLength(): number {
+    return this.tokenCount;
+  }
+
+  lastSequence(): number {
+    return this.newestSequence;
+  }
+
+  sequences(): number[] {
+    return [...this.indexedEntries.keys()];
+  }
+
+  postings(token: string): Map<number, number> {
+    const list = this.postingLists.get(token) ?? [];
+    const postings = new Map<number, number>();
+    for (let i = 0; i < list.length; i += 2) {
+      postings.set(list[i], list[i + 1]);
+    }
+    return postings;
+  }
+
+  tokensWithPrefix(prefix: string): string[] {
+    return [...this.postingLists.keys()].filter(token => token.startsWith(prefix));
+  }
+
+  entries(sequences: number[]): Map<number, IndexedEntry> {
+    const entries = new Map<number, IndexedEntry>();
+    for (const sequence of sequences) {
+      const info = this.indexedEntries.get(sequence);
+      if (info) entries.set(sequence, info);
+    }
+    return entries;
+  }
+
+  private add(record: TermRecord): void {
+    // Records are written in sequence order
+    if (record.seq <= this.newestSequence) return;
+
+    this.newestSequence = record.seq;
+    this.tokenCount += record.length;
+    this.indexedEntries.set(record.seq, {
+      sequence: record.seq,
+      timestamp: record.time,
+      level: record.level,
+      service: record.service,
+      length: record.length
+    });
+
+    for (const [token, frequency] of Object.entries(record.terms)) {
+      let list = this.postingLists.get(token);
+      if (!list) {
+        list = [];
+        this.postingLists.set(token, list);
+      }
+      list.push(record.seq, frequency);
+    }
+  }
+
+  private reset(): void {
+    this.postingLists.clear();
+    this.indexedEntries.clear();
+    this.tokenCount = 0;
+    this.newestSequence = -1;
+    this.offset = 0;
+  }
+}
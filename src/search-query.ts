@@ -0,0 +1,383 @@
+import type { LogEntry } from './types.js';
+import { serviceMatches } from './service-prefix.js';
+import { parseTimeExpression } from './time-expression.js';
+
+/**
+ * Query language of search_logs.
+ *
+ * Words separated by spaces must all match (`AND` may be written out), `OR`
+ * between them matches either side and parentheses group. A leading `-` or
+ * `NOT` excludes what follows. Words match case-insensitively on whole
+ * tokens of an entry's content, structured fields and service:
+ * - `"quoted words"` match as a phrase, as do words joined by punctuation such as `ORDER-7`
+ * - a trailing `*` matches every token starting with the word
+ * - `/regex/flags` is tested against the content
+ *
+ * Filters are written `key:value`, with comma-separated alternatives and a
+ * trailing `*` for a prefix: `level:`, `stream:`, `service:`, `session:`,
+ * `project:` (path or directory name) and `fields.<name>:` for parsed JSON
+ * fields, which also compare with `>`, `>=`, `<` or `<=` (`fields.status:>=500`).
+ * `since:` and `until:` take a time as described in time-expression.ts, such
+ * as a duration before now (`30s`, `10m`, `2h`, `7d`) or a date.
+ *
+ * Example: `level:error service:api -"healthcheck" /timeout after \d+ms/ since:10m`
+ */
+
+export class InvalidQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvalidQueryError';
+  }
+}
+
+export interface SearchTerm {
+  tokens: string[]; // More than one for a phrase
+  prefix: boolean; // The last token matches as a prefix
+}
+
+export interface ValueMatch {
+  text: string;
+  prefix: boolean;
+  comparison?: '>' | '>=' | '<' | '<=';
+}
+
+export type FilterKey = 'level' | 'stream' | 'service' | 'session' | 'project' | 'field';
+
+export type QueryNode =
+  | { type: 'term'; term: SearchTerm }
+  | { type: 'regex'; regex: RegExp }
+  | { type: 'filter'; key: FilterKey; path?: string; values: ValueMatch[] }
+  | { type: 'time'; bound: 'since' | 'until'; time: number } // ms
+  | { type: 'not'; node: QueryNode }
+  | { type: 'and'; nodes: QueryNode[] }
+  | { type: 'or'; nodes: QueryNode[] };
+
+export type LeafNode = Exclude<QueryNode, { type: 'not' | 'and' | 'or' }>;
+
+export interface SearchQuery {
+  root?: QueryNode; // Missing for an empty query, which matches nothing
+}
+
+/**
+ * true or false, or undefined when it cannot be told from what is known
+ */
+export type Truth = boolean | undefined;
+
+const TOKEN_PATTERN = /[\p{L}\p{N}_]+/gu;
+const MAX_TOKEN_LENGTH = 64;
+
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(TOKEN_PATTERN) ?? []).map(token => token.slice(0, MAX_TOKEN_LENGTH));
+}
+
+/**
+ * Token sequences of the searchable parts of an entry. Phrases only match within one part.
+ */
+export function entryTokenSequences(entry: LogEntry): string[][] {
+  return [
+    tokenize(entry.content),
+    entry.fields ? tokenize(JSON.stringify(entry.fields)) : [],
+    entry.service ? tokenize(entry.service) : []
+  ];
+}
+
+export function termMatchesTokens(term: SearchTerm, tokens: string[]): boolean {
+  const last = term.tokens.length - 1;
+  for (let start = 0; start + last < tokens.length; start++) {
+    let matched = 0;
+    while (matched <= last && (tokens[start + matched] === term.tokens[matched] ||
+        (term.prefix && matched === last && tokens[start + matched].startsWith(term.tokens[matched])))) {
+      matched++;
+    }
+    if (matched > last) return true;
+  }
+  return false;
+}
+
+type Lexeme = { kind: '(' | ')' | 'and' | 'or' | 'not' } | { kind: 'leaf'; node?: LeafNode };
+
+/**
+ * @param now time that durations in `since:` and `until:` count back from
+ * @throws InvalidQueryError on unbalanced parentheses, invalid regexes and times
+ */
+export function parseSearchQuery(query: string, now: number = Date.now()): SearchQuery {
+  const lexemes = lex(query, now);
+  let position = 0;
+
+  const parseOr = (): QueryNode | undefined => {
+    const nodes = [parseAnd()];
+    while (lexemes[position]?.kind === 'or') {
+      position++;
+      nodes.push(parseAnd());
+    }
+    return combine('or', nodes);
+  };
+
+  const parseAnd = (): QueryNode | undefined => {
+    const nodes: Array<QueryNode | undefined> = [];
+    for (let lexeme = lexemes[position]; lexeme && lexeme.kind !== ')' && lexeme.kind !== 'or'; lexeme = lexemes[position]) {
+      if (lexeme.kind === 'and') {
+        position++;
+      } else {
+        nodes.push(parseUnary());
+      }
+    }
+    return combine('and', nodes);
+  };
+
+  const parseUnary = (): QueryNode | undefined => {
+    const lexeme = lexemes[position];
+    if (!lexeme || lexeme.kind === ')' || lexeme.kind === 'or' || lexeme.kind === 'and') {
+      return undefined; // A dangling NOT is ignored
+    }
+    position++;
+    if (lexeme.kind === 'not') {
+      const node = parseUnary();
+      return node && { type: 'not', node };
+    }
+    if (lexeme.kind === '(') {
+      const node = parseOr();
+      if (lexemes[position++]?.kind !== ')') {
+        throw new InvalidQueryError(`Query "${query}" has an unclosed parenthesis`);
+      }
+      return node;
+    }
+    return (lexeme as Extract<Lexeme, { kind: 'leaf' }>).node;
+  };
+
+  const root = parseOr();
+  if (position < lexemes.length) {
+    throw new InvalidQueryError(`Query "${query}" has an unmatched closing parenthesis`);
+  }
+  return { root };
+}
+
+function combine(type: 'and' | 'or', nodes: Array<QueryNode | undefined>): QueryNode | undefined {
+  const present = nodes.filter((node): node is QueryNode => node !== undefined);
+  return present.length <= 1 ? present[0] : { type, nodes: present };
+}
+
+function lex(query: string, now: number): Lexeme[] {
+  const lexemes: Lexeme[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const rest = query.slice(i);
+    const char = query[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      lexemes.push({ kind: char });
+      i++;
+    } else if (char === '-' && rest.length > 1 && !/\s/.test(rest[1])) {
+      lexemes.push({ kind: 'not' });
+      i++;
+    } else if (char === '"') {
+      const end = query.indexOf('"', i + 1);
+      const phrase = query.slice(i + 1, end < 0 ? query.length : end);
+      lexemes.push({ kind: 'leaf', node: termNode(phrase, false) });
+      i = end < 0 ? query.length : end + 1;
+    } else {
+      const regex = /^\/((?:\\.|[^\\/])+)\/([a-z]*)/.exec(rest);
+      const filter = /^(level|stream|service|session|project|since|until|fields\.[\w.-]+):("[^"]*"?|[^\s()]*)/.exec(rest);
+      const word = /^[^\s()"]+/.exec(rest)![0];
+
+      if (regex) {
+        lexemes.push({ kind: 'leaf', node: regexNode(regex[1], regex[2]) });
+        i += regex[0].length;
+      } else if (filter) {
+        lexemes.push({ kind: 'leaf', node: filterNode(filter[1], filter[2], now) });
+        i += filter[0].length;
+      } else if (word === 'AND' || word === 'OR' || word === 'NOT') {
+        lexemes.push({ kind: word.toLowerCase() as 'and' | 'or' | 'not' });
+        i += word.length;
+      } else {
+        const prefix = word.endsWith('*');
+        lexemes.push({ kind: 'leaf', node: termNode(prefix ? word.slice(0, -1) : word, prefix) });
+        i += word.length;
+      }
+    }
+  }
+
+  return lexemes;
+}
+
+function termNode(text: string, prefix: boolean): LeafNode | undefined {
+  const tokens = tokenize(text);
+  return tokens.length > 0 ? { type: 'term', term: { tokens, prefix } } : undefined;
+}
+
+function regexNode(pattern: string, flags: string): LeafNode {
+  try {
+    // Global and sticky regexes keep state between tests
+    return { type: 'regex', regex: new RegExp(pattern, flags.replace(/[gy]/g, '')) };
+  } catch (error) {
+    throw new InvalidQueryError(`Invalid regex /${pattern}/${flags}: ${(error as Error).message}`);
+  }
+}
+
+function filterNode(key: string, value: string, now: number): LeafNode {
+  const quoted = value.startsWith('"');
+  const text = quoted ? value.slice(1).replace(/"$/, '') : value;
+
+  if (key === 'since' || key === 'until') {
+    return { type: 'time', bound: key, time: parseTime(key, text, now) };
+  }
+
+  if (text === '') {
+    throw new InvalidQueryError(`Filter ${key}: needs a value`);
+  }
+
+  const values = (quoted ? [text] : text.split(',').filter(part => part !== '')).map(part => {
+    const comparison = key.startsWith('fields.') && !quoted ? /^(>=|<=|>|<)/.exec(part)?.[1] as ValueMatch['comparison'] : undefined;
+    const match = comparison ? part.slice(comparison.length) : part;
+    const prefix = !quoted && !comparison && match.endsWith('*');
+    return { text: prefix ? match.slice(0, -1) : match, prefix, ...(comparison && { comparison }) };
+  });
+
+  return key.startsWith('fields.')
+    ? { type: 'filter', key: 'field', path: key.slice('fields.'.length), values }
+    : { type: 'filter', key: key as FilterKey, values };
+}
+
+function parseTime(key: string, text: string, now: number): number {
+  const time = parseTimeExpression(text, now);
+  if (Number.isNaN(time)) {
+    throw new InvalidQueryError(`Invalid time "${text}" in ${key}: use a duration such as 10m, 2h or 7d, or a date`);
+  }
+  return time;
+}
+
+/**
+ * Evaluate a query with three-valued logic, asking `leaf` about each filter,
+ * term and regex; a query can be ruled out before everything is known
+ */
+export function evaluateQuery(node: QueryNode, leaf: (node: LeafNode) => Truth): Truth {
+  switch (node.type) {
+    case 'not': {
+      const value = evaluateQuery(node.node, leaf);
+      return value === undefined ? undefined : !value;
+    }
+    case 'and':
+    case 'or': {
+      const decisive = node.type === 'or';
+      let result: Truth = !decisive;
+      for (const child of node.nodes) {
+        const value = evaluateQuery(child, leaf);
+        if (value === decisive) return decisive;
+        if (value === undefined) result = undefined;
+      }
+      return result;
+    }
+    default:
+      return leaf(node);
+  }
+}
+
+/**
+ * Leaves that count towards a match rather than exclude one
+ */
+export function positiveLeaves(node: QueryNode | undefined): LeafNode[] {
+  if (!node || node.type === 'not') return [];
+  if (node.type === 'and' || node.type === 'or') return node.nodes.flatMap(child => positiveLeaves(child));
+  return [node];
+}
+
+export function valueMatches(match: ValueMatch, actual: unknown): boolean {
+  if (actual === undefined || actual === null) return false;
+  const text = typeof actual === 'object' ? JSON.stringify(actual) : String(actual);
+
+  if (match.comparison) {
+    const [left, right] = [Number(text), Number(match.text)];
+    const order = Number.isNaN(left) || Number.isNaN(right) ? text.localeCompare(match.text) : left - right;
+    switch (match.comparison) {
+      case '>': return order > 0;
+      case '>=': return order >= 0;
+      case '<': return order < 0;
+      case '<=': return order <= 0;
+    }
+  }
+
+  return match.prefix
+    ? text.toLowerCase().startsWith(match.text.toLowerCase())
+    : text.toLowerCase() === match.text.toLowerCase();
+}
+
+/**
+ * Whether a session filter matches a session's ID or project directory
+ */
+export function sessionFilterMatches(node: LeafNode & { type: 'filter' }, sessionId: string, projectDir: string): boolean {
+  if (node.key === 'session') {
+    return node.values.some(value => valueMatches(value, sessionId));
+  }
+  const directoryName = projectDir.split(/[\\/]/).filter(part => part !== '').pop() ?? projectDir;
+  return node.values.some(value => valueMatches(value, projectDir) || valueMatches(value, directoryName));
+}
+
+export function serviceFilterMatches(node: LeafNode & { type: 'filter' }, service: string | undefined): boolean {
+  return node.values.some(value => value.prefix ? valueMatches(value, service) : serviceMatches(service, value.text));
+}
+
+function fieldValue(fields: Record<string, unknown> | undefined, path: string): unknown {
+  if (!fields) return undefined;
+  if (path in fields) return fields[path];
+
+  let value: unknown = fields;
+  for (const key of path.split('.')) {
+    if (typeof value !== 'object' || value === null) return undefined;
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+/**
+ * Whether an entry matches a query, phrases included
+ */
+export function queryMatchesEntry(query: SearchQuery, entry: LogEntry): boolean {
+  if (!query.root) return false;
+
+  let sequences: string[][] | undefined;
+  const timestamp = new Date(entry.timestamp).getTime();
+
+  return evaluateQuery(query.root, node => {
+    switch (node.type) {
+      case 'term':
+        sequences ??= entryTokenSequences(entry);
+        return sequences.some(tokens => termMatchesTokens(node.term, tokens));
+      case 'regex':
+        return node.regex.test(entry.content);
+      case 'time':
+        return node.bound === 'since' ? timestamp >= node.time : timestamp <= node.time;
+      case 'filter':
+        switch (node.key) {
+          case 'level': return node.values.some(value => valueMatches(value, entry.logLevel));
+          case 'stream': return node.values.some(value => valueMatches(value, entry.stream));
+          case 'service': return serviceFilterMatches(node, entry.service);
+          case 'session':
+          case 'project': return sessionFilterMatches(node, entry.sessionId, entry.projectDir);
+          case 'field': return node.values.some(value => valueMatches(value, fieldValue(entry.fields, node.path!)));
+        }
+    }
+  }) === true;
+}
+
+/**
+ * Whether a text contains any word or regex of a query, e.g. to pick the lines of a matching entry
+ */
+export function queryMentionedIn(query: SearchQuery, text: string): boolean {
+  const tokens = tokenize(text);
+  return positiveLeaves(query.root).some(node =>
+    (node.type === 'term' && termMatchesTokens(node.term, tokens)) ||
+    (node.type === 'regex' && node.regex.test(text)));
+}
+
+/**
+ * Whether a query only matches some sessions by ID or project, so that
+ * sessions beyond the active ones are worth searching
+ */
+export function queryNamesSessions(query: SearchQuery): boolean {
+  if (!query.root) return false;
+  return evaluateQuery(query.root, node =>
+    node.type === 'filter' && (node.key === 'session' || node.key === 'project') ? false : undefined) === false;
+}
@@ -1,32 +1,113 @@
 #!/usr/bin/env node
 
+import { randomBytes } from 'crypto';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
   CallToolRequestSchema,
+  CompleteRequestSchema,
   ErrorCode,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
   ListToolsRequestSchema,
   McpError,
   ReadResourceRequestSchema,
+  SetLevelRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from '@modelcontextprotocol/sdk/types.js';
 
-import { LogManager } from './log-manager.js';
+import { HEARTBEAT_INTERVAL_MS, LogManager } from './log-manager.js';
 import { ErrorDetector } from './error-detector.js';
 import { NotificationSystem } from './notification.js';
 import { TokenLimiter } from './token-limiter.js';
-import type { LogEntry, LogSession } from './types.js';
+import { cursorAfter, decodeTimelineCursor, InvalidCursorError } from './cursor.js';
+import { flattenEntryLines, type LogLineHit } from './log-entry.js';
+import { buildContextWindows, type Neighbours } from './search-context.js';
+import {
+  InvalidQueryError,
+  parseSearchQuery,
+  queryMatchesEntry,
+  queryMentionedIn,
+  queryNamesSessions,
+  type SearchQuery,
+} from './search-query.js';
+import { parseTimeExpression } from './time-expression.js';
+import type { LogEntry, LogFilter, LogLine, LogSession, PaginationResult, SearchOrder, StorageWatcher } from './types.js';
+
+const SESSION_RESOURCE_TEMPLATES = [
+  {
+    uriTemplate: 'logpiper://logs/{sessionId}',
+    name: 'Session logs',
+    description: 'Captured output of a logging session',
+    mimeType: 'text/plain',
+  },
+  {
+    uriTemplate: 'logpiper://errors/{sessionId}',
+    name: 'Session errors',
+    description: 'Errors detected in a logging session',
+    mimeType: 'application/json',
+  },
+  {
+    uriTemplate: 'logpiper://sessions/{sessionId}',
+    name: 'Session details',
+    description: 'Metadata and statistics of a logging session',
+    mimeType: 'application/json',
+  },
+];
+
+const LOG_LEVELS = ['error', 'warn', 'info'];
+
+// Most neighbouring entries search_logs returns on either side of a hit
+const MAX_SEARCH_CONTEXT = 50;
+
+// Longest get_new_logs and wait_for_pattern wait for output; below the 60s request timeout of MCP clients
+const MAX_WAIT_MS = 50000;
+
+// Entries wait_for_pattern tests per read of a session's new output
+const PATTERN_SCAN_PAGE = 500;
+
+/**
+ * A get_new_logs call waiting for one session, or any session when sessionId is omitted
+ */
+interface ActivityWaiter {
+  sessionId?: string;
+  wake(): void;
+}
+
+/**
+ * One read of new output while polling for it (see pollNewLogs)
+ */
+interface PollRead {
+  found: number; // Entries found; polling stops at the first read finding any
+  hasMore: boolean; // More output is already there to read
+  finished: boolean; // No more output will arrive
+}
+
+/**
+ * New logs read for get_new_logs, before they are returned
+ */
+interface NewLogsRead extends PollRead {
+  body: Record<string, unknown>;
+}
 
 class LogPiperMcpServer {
   private server: Server;
   private logManager: LogManager;
   private errorDetector: ErrorDetector;
   private notificationSystem: NotificationSystem;
+  private logTailer: StorageWatcher;
+  private subscriptions: Set<string> = new Set();
+  private pendingResourceUpdates: Set<string> = new Set();
+  private resourceUpdateTimer: NodeJS.Timeout | null = null;
+  private readonly resourceUpdateDelayMs = 250;
+  private activityWaiters: Set<ActivityWaiter> = new Set();
+  private readonly connectionId = randomBytes(4).toString('hex'); // Each server process serves one client over stdio
 
   constructor() {
     this.logManager = new LogManager();
     this.errorDetector = new ErrorDetector();
-    this.notificationSystem = new NotificationSystem();
+    this.logTailer = this.logManager.watch();
 
     this.server = new Server(
       {
@@ -35,18 +116,40 @@ class LogPiperMcpServer {
       },
       {
         capabilities: {
-          resources: {},
+          completions: {},
+          logging: {},
+          resources: {
+            subscribe: true,
+            listChanged: true,
+          },
           tools: {},
         },
       }
     );
 
+    this.notificationSystem = new NotificationSystem(this.server);
+
     this.setupRequestHandlers();
-    this.setupIncomingLogHandlers();
+    this.setupLogIngestion();
     this.startCleanupTimer();
   }
 
   private setupRequestHandlers(): void {
+    this.server.setRequestHandler(SetLevelRequestSchema, async (request) => {
+      this.notificationSystem.setLogLevel(request.params.level);
+      return {};
+    });
+
+    this.server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      this.subscriptions.add(request.params.uri);
+      return {};
+    });
+
+    this.server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      this.subscriptions.delete(request.params.uri);
+      return {};
+    });
+
     this.server.setRequestHandler(ListResourcesRequestSchema, async () => {
       const sessions = this.logManager.getActiveSessions();
 
@@ -73,6 +176,26 @@ class LogPiperMcpServer {
       };
     });
 
+    this.server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+      return {
+        resourceTemplates: SESSION_RESOURCE_TEMPLATES,
+      };
+    });
+
+    this.server.setRequestHandler(CompleteRequestSchema, async (request) => {
+      const { ref, argument } = request.params;
+
+      // MCP completion references name prompts or resource templates; this server only has templates
+      const isSessionArgument = argument.name === 'sessionId' && ref.type === 'ref/resource' &&
+        SESSION_RESOURCE_TEMPLATES.some(t => t.uriTemplate === ref.uri);
+
+      if (!isSessionArgument) {
+        return { completion: { values: [], hasMore: false } };
+      }
+
+      return { completion: this.completeSessionId(argument.value) };
+    });
+
     this.server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
       const uri = request.params.uri;
 
@@ -97,13 +220,13 @@ class LogPiperMcpServer {
 
           // If logs are small enough, get them all
           if (totalCount <= 5000) { // Estimated threshold
-            const result = await this.logManager.getLogsPaginated(sessionId, 0, totalCount);
+            const result = await this.logManager.getLogsPaginated(sessionId, undefined, totalCount);
             logContent = result.data
               .map(log => `[${log.timestamp.toISOString()}] [${log.logLevel.toUpperCase()}] ${log.content}`)
               .join('\n');
           } else {
             // For large logs, get recent ones and add a message
-            const result = await this.logManager.getLogsPaginated(sessionId, 0, 2000, true);
+            const result = await this.logManager.getLogsPaginated(sessionId, undefined, 2000, true);
             logContent = `# LogPiper: Large log file detected (${totalCount} entries)
 # Showing most recent 2000 entries. Use MCP tools for paginated access.
 # Available tools: get_logs_paginated, search_logs
@@ -160,6 +283,43 @@ class LogPiperMcpServer {
         };
       }
 
+      if (uri.startsWith('logpiper://errors/')) {
+        const sessionId = uri.replace('logpiper://errors/', '');
+        const session = this.logManager.getSession(sessionId);
+
+        if (!session) {
+          throw new McpError(ErrorCode.InvalidRequest, `Session ${sessionId} not found`);
+        }
+
+        return {
+          contents: [{
+            uri,
+            mimeType: 'application/json',
+            text: JSON.stringify(session.errorHistory || [], null, 2),
+          }],
+        };
+      }
+
+      if (uri.startsWith('logpiper://sessions/')) {
+        const sessionId = uri.replace('logpiper://sessions/', '');
+        const session = this.logManager.getSession(sessionId);
+
+        if (!session) {
+          throw new McpError(ErrorCode.InvalidRequest, `Session ${sessionId} not found`);
+        }
+
+        return {
+          contents: [{
+            uri,
+            mimeType: 'application/json',
+            text: JSON.stringify({
+              ...session,
+              stats: this.logManager.getSessionStats(sessionId),
+            }, null, 2),
+          }],
+        };
+      }
+
       throw new McpError(ErrorCode.InvalidRequest, `Unknown resource: ${uri}`);
     });
 
@@ -168,7 +328,7 @@ class LogPiperMcpServer {
         tools: [
           {
             name: 'get_new_logs',
-            description: 'Get new logs since a specific cursor position (streaming)',
+            description: 'Get new logs since a cursor (streaming)',
             inputSchema: {
               type: 'object',
               properties: {
@@ -177,33 +337,99 @@ class LogPiperMcpServer {
                   description: 'Session ID to get logs from. If not provided, returns from all active sessions.',
                 },
                 since: {
-                  type: 'number',
-                  description: 'Line number cursor to get logs after. Defaults to 0.',
-                  default: 0,
+                  type: 'string',
+                  description: 'Cursor returned by a previous call (nextCursor) to get logs after. Requires sessionId. Defaults to the saved cursor of this consumer.',
                 },
                 limit: {
                   type: 'number',
                   description: 'Maximum number of log entries to return',
                   default: 100,
                 },
-                consumeLogs: {
-                  type: 'boolean',
-                  description: 'Whether to remove logs after fetching them (default: true)',
-                  default: true,
+                consumerId: {
+                  type: 'string',
+                  description: 'Name of the reader. Each consumer has its own saved cursor per session, so several clients can follow the same logs independently. Logs are never removed by reading. Defaults to a consumer of its own for this connection, named after the client.',
+                },
+                granularity: {
+                  type: 'string',
+                  enum: ['entry', 'line'],
+                  description: 'Return chunked log entries, or individual lines with their own timestamps in capture order across stdout and stderr',
+                  default: 'entry',
+                },
+                service: {
+                  type: 'string',
+                  description: 'Only return output from this service of multiplexed output such as docker compose (e.g. "backend"). Replica names like "backend-1" match too.',
+                },
+                levels: {
+                  type: 'array',
+                  items: { type: 'string', enum: LOG_LEVELS },
+                  description: 'Only return entries with these levels. The cursor still moves past the other entries.',
+                },
+                query: {
+                  type: 'string',
+                  description: 'Only return entries matching this search_logs query (e.g. "level:error OR /listening on/i"). The cursor still moves past the other entries.',
+                },
+                waitMs: {
+                  type: 'number',
+                  description: `Long-poll: when there are no new entries (matching levels and query), wait up to this many milliseconds (at most ${MAX_WAIT_MS}) for some to arrive instead of returning an empty result. Also returns when a waited-on session finishes.`,
+                  default: 0,
+                },
+              },
+            },
+          },
+          {
+            name: 'wait_for_pattern',
+            description: 'Wait until a regex matches a session\'s new output, the session exits, or the timeout passes; e.g. wait for "Listening on" before running tests. Returns the reason ("matched", "exited" or "timeout"), the matching entry and the entries before it. Reads new output like get_new_logs: entries up to the match count as read for consumerId.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                sessionId: {
+                  type: 'string',
+                  description: 'Session ID to watch',
+                },
+                pattern: {
+                  type: 'string',
+                  description: 'Regular expression tested against each new log entry, e.g. "Listening on :?\\d+|ready in \\d+ms"',
+                },
+                flags: {
+                  type: 'string',
+                  description: 'Regular expression flags: any of i, m, s and u',
+                },
+                timeoutMs: {
+                  type: 'number',
+                  description: `How long to wait in milliseconds (at most ${MAX_WAIT_MS})`,
+                  default: 30000,
+                },
+                before: {
+                  type: 'number',
+                  description: `Entries of context to return before the match, or before the end of the output on exit or timeout (up to ${MAX_SEARCH_CONTEXT})`,
+                  default: 10,
+                },
+                since: {
+                  type: 'string',
+                  description: 'Cursor returned by a previous call (nextCursor) to look after. Defaults to the saved cursor of this consumer, so output already read is not matched again.',
+                },
+                consumerId: {
+                  type: 'string',
+                  description: 'Name of the reader whose saved cursor is used and advanced, as in get_new_logs; defaults to the one of this connection',
+                },
+                service: {
+                  type: 'string',
+                  description: 'Only match output from this service of multiplexed output such as docker compose (e.g. "backend"). Replica names like "backend-1" match too.',
                 },
               },
+              required: ['sessionId', 'pattern'],
             },
           },
           {
             name: 'list_sessions',
-            description: 'List all logging sessions with metadata',
+            description: 'List all logging sessions with metadata, including exit code, signal, duration and termination reason of finished sessions',
             inputSchema: {
               type: 'object',
               properties: {
                 status: {
                   type: 'string',
-                  enum: ['running', 'stopped', 'crashed', 'all'],
-                  description: 'Filter sessions by status',
+                  enum: ['running', 'stopped', 'crashed', 'orphaned', 'all'],
+                  description: 'Filter sessions by status. Orphaned sessions were running when their logpiper CLI died; no more output will arrive.',
                   default: 'all',
                 },
                 limit: {
@@ -221,27 +447,52 @@ class LogPiperMcpServer {
           },
           {
             name: 'search_logs',
-            description: 'Search through logs with a query string',
+            description: 'Search logs with a query language: words, phrases, regexes and filters on level, stream, service, session, project, JSON fields and time, combined with AND, OR, NOT and parentheses',
             inputSchema: {
               type: 'object',
               properties: {
                 sessionId: {
                   type: 'string',
-                  description: 'Session ID to search in. If not provided, searches all sessions.',
+                  description: 'Session ID to search in. If not provided, searches all active sessions, or every session when the query filters on session: or project:.',
                 },
                 query: {
                   type: 'string',
-                  description: 'Search query string',
+                  description: 'Words match whole tokens of content, JSON fields and service, case-insensitively, and must all match unless joined with OR; group with parentheses and exclude with a leading - or NOT. "quoted phrase", prefix* and /regex/i (tested against content) are supported. Filters: level:error,warn stream:stderr service:api session:<id> project:<dir name> fields.<name>:<value> (also >, >=, <, <= as in fields.status:>=500), since:/until: with a duration (30s, 10m, 2h, 7d) or a date. A trailing * on a filter value matches a prefix. Example: level:error service:api -"healthcheck" /timeout after \\d+ms/ since:10m',
+                },
+                order: {
+                  type: 'string',
+                  enum: ['relevance', 'time'],
+                  description: 'Best matches first, favoring recent entries, or in capture order (the most recent first when searching all sessions)',
+                  default: 'relevance',
+                },
+                before: {
+                  type: 'number',
+                  description: 'Entries of context to return before each match, from stdout and stderr alike (up to 50). Matches are then grouped with their context into windows, overlapping windows are merged, and each entry or line has "match" telling whether it matched. Context is narrowed to keep the response within the token limit.',
+                  default: 0,
+                },
+                after: {
+                  type: 'number',
+                  description: 'Entries of context to return after each match (up to 50); see before',
+                  default: 0,
                 },
                 limit: {
                   type: 'number',
                   description: 'Maximum number of results to return',
                   default: 50,
                 },
-                offset: {
-                  type: 'number',
-                  description: 'Number of results to skip (for pagination)',
-                  default: 0,
+                cursor: {
+                  type: 'string',
+                  description: 'Cursor returned by a previous search of the same session (nextCursor) to continue after. Requires sessionId.',
+                },
+                granularity: {
+                  type: 'string',
+                  enum: ['entry', 'line'],
+                  description: 'Return matching log entries, or only the matching lines in capture order',
+                  default: 'entry',
+                },
+                service: {
+                  type: 'string',
+                  description: 'Only return output from this service of multiplexed output such as docker compose (e.g. "backend"). Replica names like "backend-1" match too.',
                 },
               },
               required: ['query'],
@@ -258,9 +509,48 @@ class LogPiperMcpServer {
                   description: 'Session ID to get logs from',
                 },
                 cursor: {
+                  type: 'string',
+                  description: 'Cursor returned by a previous call (nextCursor, or prevCursor to read back with reverse flipped). Defaults to the start of the log, or its end when reverse.',
+                },
+                limit: {
                   type: 'number',
-                  description: 'Starting cursor position (line number). Defaults to 0.',
-                  default: 0,
+                  description: 'Maximum number of log entries to return',
+                  default: 100,
+                },
+                reverse: {
+                  type: 'boolean',
+                  description: 'Read in reverse order (latest first)',
+                  default: false,
+                },
+                service: {
+                  type: 'string',
+                  description: 'Only return output from this service of multiplexed output such as docker compose (e.g. "backend"). Replica names like "backend-1" match too.',
+                },
+              },
+              required: ['sessionId'],
+            },
+          },
+          {
+            name: 'get_logs_by_time',
+            description: 'Get the logs of a session captured within a time range, with cursor-based pagination. total counts every entry in the range, on every page.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                sessionId: {
+                  type: 'string',
+                  description: 'Session ID to get logs from',
+                },
+                start: {
+                  type: 'string',
+                  description: 'Start of the range: an ISO 8601 timestamp (e.g. "2025-01-31T14:00:00Z"), a duration before now (30s, 10m, 2h, 7d, 1w) or "now"',
+                },
+                end: {
+                  type: 'string',
+                  description: 'End of the range, in the same forms as start. Defaults to now.',
+                },
+                cursor: {
+                  type: 'string',
+                  description: 'Cursor returned by a previous call with the same range (nextCursor, or prevCursor to read back with reverse flipped)',
                 },
                 limit: {
                   type: 'number',
@@ -272,13 +562,89 @@ class LogPiperMcpServer {
                   description: 'Read in reverse order (latest first)',
                   default: false,
                 },
-                consumeLogs: {
+                service: {
+                  type: 'string',
+                  description: 'Only return output from this service of multiplexed output such as docker compose (e.g. "backend"). Replica names like "backend-1" match too.',
+                },
+              },
+              required: ['sessionId', 'start'],
+            },
+          },
+          {
+            name: 'get_logs_by_level',
+            description: 'Get the logs of a session with the given levels, with cursor-based pagination. total counts every entry with those levels, on every page.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                sessionId: {
+                  type: 'string',
+                  description: 'Session ID to get logs from',
+                },
+                levels: {
+                  type: 'array',
+                  items: { type: 'string', enum: LOG_LEVELS },
+                  description: 'Levels to return',
+                },
+                cursor: {
+                  type: 'string',
+                  description: 'Cursor returned by a previous call with the same levels (nextCursor, or prevCursor to read back with reverse flipped)',
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Maximum number of log entries to return',
+                  default: 100,
+                },
+                reverse: {
                   type: 'boolean',
-                  description: 'Whether to remove logs after fetching them (default: true)',
-                  default: true,
+                  description: 'Read in reverse order (latest first)',
+                  default: false,
+                },
+                service: {
+                  type: 'string',
+                  description: 'Only return output from this service of multiplexed output such as docker compose (e.g. "backend"). Replica names like "backend-1" match too.',
+                },
+              },
+              required: ['sessionId', 'levels'],
+            },
+          },
+          {
+            name: 'get_timeline',
+            description: 'Get the logs of several sessions merged into one timeline, oldest first, with cursor-based pagination. The cursor keeps a position in every session, so paging never skips or repeats entries and new output shows up on later pages.',
+            inputSchema: {
+              type: 'object',
+              properties: {
+                sessionIds: {
+                  type: 'array',
+                  items: { type: 'string' },
+                  description: 'Sessions to merge. Defaults to the sessions of the cursor, or all active sessions.',
+                },
+                cursor: {
+                  type: 'string',
+                  description: 'Cursor returned by a previous get_timeline call (nextCursor) to continue after. It is returned at the end of the timeline too, for polling.',
+                },
+                limit: {
+                  type: 'number',
+                  description: 'Maximum number of log entries to return',
+                  default: 100,
+                },
+                start: {
+                  type: 'string',
+                  description: 'Only entries captured at or after this time: an ISO 8601 timestamp, a duration before now (30s, 10m, 2h, 7d, 1w) or "now"',
+                },
+                end: {
+                  type: 'string',
+                  description: 'Only entries captured at or before this time, in the same forms as start',
+                },
+                levels: {
+                  type: 'array',
+                  items: { type: 'string', enum: LOG_LEVELS },
+                  description: 'Only entries with these levels',
+                },
+                service: {
+                  type: 'string',
+                  description: 'Only return output from this service of multiplexed output such as docker compose (e.g. "backend"). Replica names like "backend-1" match too.',
                 },
               },
-              required: ['sessionId'],
             },
           },
           {
@@ -314,96 +680,365 @@ class LogPiperMcpServer {
       };
     });
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
+    this.server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
       const { name, arguments: args } = request.params;
 
-      switch (name) {
-        case 'get_new_logs':
-          return this.handleGetNewLogs(args as any);
-        case 'list_sessions':
-          return this.handleListSessions(args as any);
-        case 'search_logs':
-          return this.handleSearchLogs(args as any);
-        case 'get_logs_paginated':
-          return this.handleGetLogsPaginated(args as any);
-        case 'cleanup_sessions':
-          return this.handleCleanupSessions(args as any);
-        default:
-          throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+      try {
+        switch (name) {
+          case 'get_new_logs':
+            return await this.handleGetNewLogs(args as any, extra.signal);
+          case 'wait_for_pattern':
+            return await this.handleWaitForPattern(args as any, extra.signal);
+          case 'list_sessions':
+            return await this.handleListSessions(args as any);
+          case 'search_logs':
+            return await this.handleSearchLogs(args as any);
+          case 'get_logs_paginated':
+            return await this.handleGetLogsPaginated(args as any);
+          case 'get_logs_by_time':
+            return await this.handleGetLogsByTime(args as any);
+          case 'get_logs_by_level':
+            return await this.handleGetLogsByLevel(args as any);
+          case 'get_timeline':
+            return await this.handleGetTimeline(args as any);
+          case 'cleanup_sessions':
+            return await this.handleCleanupSessions(args as any);
+          default:
+            throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+        }
+      } catch (error) {
+        if (error instanceof InvalidCursorError || error instanceof InvalidQueryError) {
+          throw new McpError(ErrorCode.InvalidParams, error.message);
+        }
+        throw error;
       }
     });
   }
 
+  /**
+   * Suggest session IDs matching a partial value, most recently active first.
+   * Matches on the ID itself, the command signature and the project name.
+   */
+  private completeSessionId(value: string): { values: string[]; total: number; hasMore: boolean } {
+    const maxValues = 100; // Upper bound allowed by the MCP spec
+    const needle = value.trim().toLowerCase();
+
+    // listSessions() is already ordered by lastActivity, newest first
+    const matches = this.logManager.listSessions().filter(session => {
+      if (!needle) return true;
+
+      const signature = session.metadata?.commandSignature ?? `${session.command} ${session.args.join(' ')}`;
+      const projectName = session.metadata?.projectName ?? session.projectDir.split(/[/\\]/).pop() ?? '';
+
+      return session.id.toLowerCase().startsWith(needle) ||
+        signature.toLowerCase().includes(needle) ||
+        projectName.toLowerCase().includes(needle);
+    });
+
+    return {
+      values: matches.slice(0, maxValues).map(session => session.id),
+      total: matches.length,
+      hasMore: matches.length > maxValues,
+    };
+  }
+
+  /**
+   * Reader of a client that names no consumerId: one per connection, so
+   * clients never advance each other's cursors
+   */
+  private defaultConsumerId(): string {
+    return `${this.server.getClientVersion()?.name ?? 'client'}-${this.connectionId}`;
+  }
+
   private async handleGetNewLogs(args: {
     sessionId?: string;
-    since?: number;
+    since?: string;
     limit?: number;
-    consumeLogs?: boolean;
-  }) {
-    const { sessionId, since = 0, limit = 100, consumeLogs = true } = args;
+    consumerId?: string;
+    granularity?: 'entry' | 'line';
+    service?: string;
+    levels?: string[];
+    query?: string;
+    waitMs?: number;
+  }, signal?: AbortSignal) {
+    const { sessionId, since, limit = 100, consumerId = this.defaultConsumerId(), granularity = 'entry', service, levels, query, waitMs = 0 } = args;
+    if (levels) {
+      this.checkLevels(levels);
+    }
+    const filter: LogFilter | undefined = service || levels ? { ...this.createServiceFilter(service), ...(levels && { levels }) } : undefined;
+    const searchQuery = query !== undefined ? parseSearchQuery(query) : undefined;
 
-    if (sessionId) {
-      const result = await this.logManager.getNewLogs(sessionId, since, limit);
+    if (since !== undefined && !sessionId) {
+      throw new McpError(ErrorCode.InvalidParams, 'since is a cursor of one session and requires sessionId');
+    }
 
-      // Update read cursor to track what has been read
-      if (result.data.length > 0) {
-        const maxLineNumber = Math.max(...result.data.map(log => log.lineNumber));
-        this.updateSessionReadCursor(sessionId, maxLineNumber);
+    let cursor = since;
+    const { read, waitedMs, timedOut } = await this.pollNewLogs(sessionId, waitMs, signal, async () => {
+      if (!sessionId) {
+        return this.readActiveNewLogs(limit, consumerId, granularity, service, filter, searchQuery);
+      }
+      const result = await this.readSessionNewLogs(sessionId, cursor, limit, consumerId, granularity, service, filter, searchQuery);
+      cursor = result.body.nextCursor as string;
+      return result;
+    });
 
-        // Remove consumed logs if requested
-        if (consumeLogs) {
-          await this.removeConsumedLogs(sessionId, maxLineNumber);
-        }
+    return {
+      content: [this.applyTokenLimit({
+        ...read.body,
+        ...(waitMs > 0 && { waitedMs, timedOut }),
+      })],
+    };
+  }
+
+  private async handleWaitForPattern(args: {
+    sessionId: string;
+    pattern: string;
+    flags?: string;
+    timeoutMs?: number;
+    before?: number;
+    since?: string;
+    consumerId?: string;
+    service?: string;
+  }, signal?: AbortSignal) {
+    const { sessionId, pattern, flags = '', timeoutMs = 30000, since, consumerId = this.defaultConsumerId(), service } = args;
+    const before = this.contextSize(args.before ?? 10);
+    const filter = this.createServiceFilter(service);
+
+    if (!/^[imsu]*$/.test(flags)) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid flags "${flags}": use any of i, m, s and u`);
+    }
+    let regex: RegExp;
+    try {
+      regex = new RegExp(pattern, flags);
+    } catch (error) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid pattern "${pattern}": ${error instanceof Error ? error.message : error}`);
+    }
+    if (!this.logManager.getSession(sessionId)) {
+      throw new McpError(ErrorCode.InvalidParams, `Session ${sessionId} not found`);
+    }
+
+    const startCursor = since ?? this.logManager.getReadCursor(sessionId, consumerId);
+    let cursor = startCursor;
+    let match: LogEntry | undefined;
+    const { read, waitedMs } = await this.pollNewLogs(sessionId, timeoutMs, signal, async () => {
+      // Output written before the session finished is all there when read after
+      const running = this.logManager.getSession(sessionId)?.status === 'running';
+      const result = await this.logManager.getNewLogs(sessionId, cursor, PATTERN_SCAN_PAGE, filter);
+      match = result.data.find(entry => regex.test(entry.content));
+      cursor = match ? cursorAfter(sessionId, match.lineNumber) : result.nextCursor!;
+      this.logManager.setReadCursor(sessionId, consumerId, cursor);
+      return { found: match ? 1 : 0, hasMore: !match && result.hasMore, finished: !running && !result.hasMore };
+    });
+
+    // Context runs up to the match, or to the end of the output
+    let context: LogEntry[] = [];
+    if (match && before > 0) {
+      context = (await this.logManager.getNeighbours(sessionId, match.lineNumber, before, 0, filter)).before.reverse();
+    } else if (!match && before > 0) {
+      context = (await this.logManager.getLogsPaginated(sessionId, undefined, before, true, filter)).data.reverse();
+    }
+
+    const session = this.logManager.getSession(sessionId);
+    const reason = match ? 'matched' : read.finished ? 'exited' : 'timeout';
+
+    return {
+      content: [this.applyTokenLimit({
+        sessionId,
+        consumerId,
+        pattern: regex.toString(),
+        ...(service && { service }),
+        reason,
+        waitedMs,
+        ...(match && {
+          match: this.formatLogs([match], 'entry')[0],
+          matchedLine: match.lines?.find(line => regex.test(line.content))?.content ?? match.content,
+        }),
+        context: this.formatLogs(context, 'entry'),
+        ...(reason === 'exited' && {
+          status: session?.status,
+          exitCode: session?.exitCode,
+          signal: session?.signal,
+          terminationReason: session?.terminationReason,
+        }),
+        cursor: startCursor,
+        nextCursor: cursor,
+      })],
+    };
+  }
+
+  /**
+   * Read new output until a read finds some, no more will arrive or `waitMs`
+   * runs out, waiting for the session (or any session) to change between reads
+   */
+  private async pollNewLogs<T extends PollRead>(
+    sessionId: string | undefined,
+    waitMs: number,
+    signal: AbortSignal | undefined,
+    readNew: () => Promise<T>
+  ): Promise<{ read: T; waitedMs: number; timedOut: boolean }> {
+    const waitFor = Math.min(Math.max(waitMs, 0), MAX_WAIT_MS);
+    const started = Date.now();
+
+    // Register for activity before each read, so output written while reading wakes the wait
+    for (;;) {
+      const activity = this.watchActivity(sessionId);
+      const read = await readNew();
+
+      const remaining = started + waitFor - Date.now();
+      const done = read.found > 0 || read.finished || remaining <= 0 || signal?.aborted ||
+        (!read.hasMore && !await activity.wait(remaining, signal));
+      activity.cancel();
+
+      if (done) {
+        return { read, waitedMs: Date.now() - started, timedOut: read.found === 0 && !read.finished };
       }
+    }
+  }
 
-      return {
-        content: [this.applyTokenLimit({
-          sessionId,
-          logs: result.data,
-          total: result.total,
-          nextCursor: result.nextCursor,
-          hasMore: result.hasMore,
-          hasPrevious: result.hasPrevious,
-          logsConsumed: consumeLogs && result.data.length > 0,
-        })],
-      };
-    } else {
-      const activeSessions = this.logManager.getActiveSessions();
-      const allResults: LogEntry[] = [];
-      let totalCount = 0;
-
-      for (const session of activeSessions) {
-        const result = await this.logManager.getNewLogs(session.id, since, limit);
-        allResults.push(...result.data);
-        totalCount += result.total;
-
-        // Update read cursor and remove consumed logs for each session
-        if (result.data.length > 0) {
-          const maxLineNumber = Math.max(...result.data.map(log => log.lineNumber));
-          this.updateSessionReadCursor(session.id, maxLineNumber);
-
-          if (consumeLogs) {
-            await this.removeConsumedLogs(session.id, maxLineNumber);
-          }
-        }
+  private async readSessionNewLogs(
+    sessionId: string,
+    since: string | undefined,
+    limit: number,
+    consumerId: string,
+    granularity: 'entry' | 'line',
+    service: string | undefined,
+    filter: LogFilter | undefined,
+    searchQuery: SearchQuery | undefined
+  ): Promise<NewLogsRead> {
+    // Output written before the session finished is all there when read after
+    const status = this.logManager.getSession(sessionId)?.status;
+    const cursor = since ?? this.logManager.getReadCursor(sessionId, consumerId);
+    const result = await this.logManager.getNewLogs(sessionId, cursor, limit, filter);
+    this.logManager.setReadCursor(sessionId, consumerId, result.nextCursor!);
+    const logs = searchQuery ? result.data.filter(entry => queryMatchesEntry(searchQuery, entry)) : result.data;
+
+    return {
+      body: {
+        sessionId,
+        consumerId,
+        granularity,
+        ...(service && { service }),
+        ...(status !== 'running' && { status: status ?? 'not_found' }),
+        logs: this.formatLogs(logs, granularity),
+        total: result.total,
+        cursor,
+        nextCursor: result.nextCursor,
+        hasMore: result.hasMore,
+        hasPrevious: result.hasPrevious,
+      },
+      found: logs.length,
+      hasMore: result.hasMore,
+      finished: status !== 'running' && !result.hasMore,
+    };
+  }
+
+  private async readActiveNewLogs(
+    limit: number,
+    consumerId: string,
+    granularity: 'entry' | 'line',
+    service: string | undefined,
+    filter: LogFilter | undefined,
+    searchQuery: SearchQuery | undefined
+  ): Promise<NewLogsRead> {
+    const activeSessions = this.logManager.getActiveSessions();
+    const sessionResults: Array<{ sessionId: string; cursor?: string; result: PaginationResult<LogEntry>; logs: LogEntry[] }> = [];
+    const allResults: LogEntry[] = [];
+    let totalCount = 0;
+
+    for (const session of activeSessions) {
+      const cursor = this.logManager.getReadCursor(session.id, consumerId);
+      const result = await this.logManager.getNewLogs(session.id, cursor, limit, filter);
+      const logs = searchQuery ? result.data.filter(entry => queryMatchesEntry(searchQuery, entry)) : result.data;
+      sessionResults.push({ sessionId: session.id, cursor, result, logs });
+      allResults.push(...logs);
+      totalCount += result.total;
+    }
+
+    allResults.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+
+    // Apply final pagination to merged results
+    const finalResults = allResults.slice(0, limit);
+    const hasMore = allResults.length > limit || sessionResults.some(({ result }) => result.hasMore);
+
+    // Advance each session's cursor only past the entries actually returned
+    const returned = new Set(finalResults);
+    const cursors: Record<string, string> = {};
+    for (const { sessionId: id, cursor, result, logs } of sessionResults) {
+      const returnedEntries = logs.filter(entry => returned.has(entry));
+      const nextCursor = returnedEntries.length === logs.length
+        ? result.nextCursor
+        : returnedEntries.length > 0
+          ? cursorAfter(id, returnedEntries[returnedEntries.length - 1].lineNumber)
+          : cursor;
+
+      if (nextCursor !== undefined) {
+        cursors[id] = nextCursor;
+        this.logManager.setReadCursor(id, consumerId, nextCursor);
       }
+    }
 
-      allResults.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+    return {
+      body: {
+        consumerId,
+        granularity,
+        ...(service && { service }),
+        logs: this.formatLogs(finalResults, granularity),
+        total: totalCount,
+        cursors,
+        hasMore,
+      },
+      found: finalResults.length,
+      hasMore,
+      finished: false, // New sessions may start
+    };
+  }
 
-      // Apply final pagination to merged results
-      const finalResults = allResults.slice(0, limit);
-      const hasMore = allResults.length > limit;
+  /**
+   * Wait for a session's log to grow or its status to change, or for any
+   * session when sessionId is omitted. Created before reading and waited on
+   * after, so activity in between is not missed; cancel it when not waiting.
+   * wait() resolves false when the time runs out or the request is cancelled.
+   */
+  private watchActivity(sessionId?: string): { wait(ms: number, signal?: AbortSignal): Promise<boolean>; cancel(): void } {
+    let woken = false;
+    let resolveWait: ((woke: boolean) => void) | undefined;
+    const waiter: ActivityWaiter = {
+      sessionId,
+      wake: () => {
+        woken = true;
+        resolveWait?.(true);
+      },
+    };
+    this.activityWaiters.add(waiter);
 
-      return {
-        content: [this.applyTokenLimit({
-          logs: finalResults,
-          total: totalCount,
-          nextCursor: finalResults.length > 0 ? Math.max(...finalResults.map(l => l.lineNumber)) : since,
-          hasMore,
-          hasPrevious: since > 0,
-          logsConsumed: consumeLogs && finalResults.length > 0,
-        })],
-      };
+    return {
+      wait: (ms, signal) => new Promise<boolean>(resolve => {
+        if (woken || signal?.aborted) {
+          resolve(woken);
+          return;
+        }
+
+        const timer = setTimeout(() => finish(false), ms);
+        const onAbort = () => finish(false);
+        const finish = (woke: boolean) => {
+          clearTimeout(timer);
+          signal?.removeEventListener('abort', onAbort);
+          resolve(woke);
+        };
+        signal?.addEventListener('abort', onAbort);
+        resolveWait = finish;
+      }),
+      cancel: () => {
+        this.activityWaiters.delete(waiter);
+      },
+    };
+  }
+
+  private wakeActivityWaiters(sessionId: string): void {
+    for (const waiter of this.activityWaiters) {
+      if (waiter.sessionId === undefined || waiter.sessionId === sessionId) {
+        waiter.wake();
+      }
     }
   }
 
@@ -442,56 +1077,72 @@ class LogPiperMcpServer {
     sessionId?: string;
     query: string;
     limit?: number;
-    offset?: number;
+    cursor?: string;
+    granularity?: 'entry' | 'line';
+    service?: string;
+    order?: SearchOrder;
+    before?: number;
+    after?: number;
   }) {
-    const { sessionId, query, limit = 50, offset = 0 } = args;
+    const { sessionId, query, limit = 50, cursor, granularity = 'entry', service, order = 'relevance' } = args;
+    const before = this.contextSize(args.before);
+    const after = this.contextSize(args.after);
+    const filter = this.createServiceFilter(service);
+    const searchQuery = parseSearchQuery(query);
+
+    // Entries matched on their structured fields or service match every line;
+    // otherwise only lines mentioning the query
+    const matchesLine = (line: LogLine, entry: LogEntry) =>
+      queryMentionedIn(searchQuery, line.content) || !queryMentionedIn(searchQuery, entry.content);
+
+    if (cursor !== undefined && !sessionId) {
+      throw new McpError(ErrorCode.InvalidParams, 'cursor is a cursor of one session and requires sessionId');
+    }
 
     if (sessionId) {
-      const result = await this.logManager.searchLogs(sessionId, query, offset, limit);
+      const result = await this.logManager.searchLogs(sessionId, query, cursor, limit, filter, order);
+      const respond = (results: unknown, context?: { before: number; after: number }) => ({
+        sessionId,
+        query,
+        order,
+        granularity,
+        ...(service && { service }),
+        ...(context && { context }),
+        results,
+        total: result.total,
+        cursor,
+        limit,
+        nextCursor: result.nextCursor,
+        hasMore: result.hasMore,
+        hasPrevious: result.hasPrevious,
+      });
 
       return {
-        content: [this.applyTokenLimit({
-          sessionId,
-          query,
-          results: result.data,
-          total: result.total,
-          offset,
-          limit,
-          hasMore: result.hasMore,
-          hasPrevious: result.hasPrevious,
-          nextOffset: result.nextCursor,
-          prevOffset: result.prevCursor,
-        })],
+        content: [this.applyTokenLimit(before + after > 0
+          ? await this.respondWithContext(result.data, before, after, filter, granularity, matchesLine, respond)
+          : respond(this.formatLogs(result.data, granularity, matchesLine)))],
       };
     } else {
-      const sessions = this.logManager.getActiveSessions();
-      const allResults: LogEntry[] = [];
-      let totalCount = 0;
-
-      for (const session of sessions) {
-        const result = await this.logManager.searchLogs(session.id, query, offset, limit);
-        allResults.push(...result.data);
-        totalCount += result.total;
-      }
-
-      allResults.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
-
-      // Apply final pagination to merged results
-      const finalResults = allResults.slice(0, limit);
-      const hasMore = allResults.length > limit;
+      // Sessions named in the query are searched even when no longer running
+      const sessions = queryNamesSessions(searchQuery) ? this.logManager.listSessions() : this.logManager.getActiveSessions();
+      const sessionIds = sessions.map(session => session.id);
+      const result = await this.logManager.searchSessions(sessionIds, query, limit, filter, order);
+      const respond = (results: unknown, context?: { before: number; after: number }) => ({
+        query,
+        order,
+        granularity,
+        ...(service && { service }),
+        ...(context && { context }),
+        results,
+        total: result.total,
+        limit,
+        hasMore: result.hasMore, // Page through the matches of one session by passing its sessionId
+      });
 
       return {
-        content: [this.applyTokenLimit({
-          query,
-          results: finalResults,
-          total: totalCount,
-          offset,
-          limit,
-          hasMore,
-          hasPrevious: offset > 0,
-          nextOffset: hasMore ? offset + limit : null,
-          prevOffset: offset > 0 ? Math.max(0, offset - limit) : null,
-        })],
+        content: [this.applyTokenLimit(before + after > 0
+          ? await this.respondWithContext(result.data, before, after, filter, granularity, matchesLine, respond)
+          : respond(this.formatLogs(result.data, granularity, matchesLine)))],
       };
     }
   }
@@ -500,30 +1151,89 @@ class LogPiperMcpServer {
 
   private async handleGetLogsPaginated(args: {
     sessionId: string;
-    cursor?: number;
+    cursor?: string;
     limit?: number;
     reverse?: boolean;
-    consumeLogs?: boolean;
+    service?: string;
   }) {
-    const { sessionId, cursor = 0, limit = 100, reverse = false, consumeLogs = true } = args;
+    const { sessionId, cursor, limit = 100, reverse = false, service } = args;
 
-    const result = await this.logManager.getLogsPaginated(sessionId, cursor, limit, reverse);
+    const result = await this.logManager.getLogsPaginated(sessionId, cursor, limit, reverse, this.createServiceFilter(service));
 
-    // Update read cursor to track what has been read
-    if (result.data.length > 0) {
-      const maxLineNumber = Math.max(...result.data.map(log => log.lineNumber));
-      this.updateSessionReadCursor(sessionId, maxLineNumber);
+    return {
+      content: [this.applyTokenLimit({
+        sessionId,
+        ...(service && { service }),
+        logs: this.formatLogs(result.data, 'entry'),
+        total: result.total,
+        cursor,
+        limit,
+        reverse,
+        nextCursor: result.nextCursor,
+        prevCursor: result.prevCursor,
+        hasMore: result.hasMore,
+        hasPrevious: result.hasPrevious,
+      })],
+    };
+  }
 
-      // Remove consumed logs if requested
-      if (consumeLogs) {
-        await this.removeConsumedLogs(sessionId, maxLineNumber);
-      }
-    }
+  private async handleGetLogsByTime(args: {
+    sessionId: string;
+    start: string;
+    end?: string;
+    cursor?: string;
+    limit?: number;
+    reverse?: boolean;
+    service?: string;
+  }) {
+    const { sessionId, start, end = 'now', cursor, limit = 100, reverse = false, service } = args;
+    const startTime = this.parseTimeArgument('start', start);
+    const endTime = this.parseTimeArgument('end', end);
+
+    const result = await this.logManager.getLogsByTimeRangePaginated(
+      sessionId, startTime, endTime, cursor, limit, this.createServiceFilter(service), reverse
+    );
+
+    return {
+      content: [this.applyTokenLimit({
+        sessionId,
+        ...(service && { service }),
+        start: startTime.toISOString(),
+        end: endTime.toISOString(),
+        logs: this.formatLogs(result.data, 'entry'),
+        total: result.total,
+        cursor,
+        limit,
+        reverse,
+        nextCursor: result.nextCursor,
+        prevCursor: result.prevCursor,
+        hasMore: result.hasMore,
+        hasPrevious: result.hasPrevious,
+      })],
+    };
+  }
+
+  private async handleGetLogsByLevel(args: {
+    sessionId: string;
+    levels: string[];
+    cursor?: string;
+    limit?: number;
+    reverse?: boolean;
+    service?: string;
+  }) {
+    const { sessionId, levels, cursor, limit = 100, reverse = false, service } = args;
+    this.checkLevels(levels);
+
+    const result = await this.logManager.getLogsByLevelPaginated(
+      sessionId, levels, cursor, limit, this.createServiceFilter(service), reverse
+    );
 
     return {
       content: [this.applyTokenLimit({
         sessionId,
-        logs: result.data,
+        ...(service && { service }),
+        levels,
+        logs: this.formatLogs(result.data, 'entry'),
         total: result.total,
         cursor,
         limit,
@@ -532,11 +1242,69 @@ class LogPiperMcpServer {
         prevCursor: result.prevCursor,
         hasMore: result.hasMore,
         hasPrevious: result.hasPrevious,
-        logsConsumed: consumeLogs && result.data.length > 0,
       })],
     };
   }
 
+  private async handleGetTimeline(args: {
+    sessionIds?: string[];
+    cursor?: string;
+    limit?: number;
+    start?: string;
+    end?: string;
+    levels?: string[];
+    service?: string;
+  }) {
+    const { cursor, limit = 100, start, end, levels, service } = args;
+    if (levels) {
+      this.checkLevels(levels);
+    }
+
+    const sessionIds = args.sessionIds ??
+      (cursor ? [...decodeTimelineCursor(cursor).keys()] : this.logManager.getActiveSessions().map(session => session.id));
+    const filter: LogFilter = {
+      ...this.createServiceFilter(service),
+      ...(levels && { levels }),
+      ...(start && { startTime: this.parseTimeArgument('start', start) }),
+      ...(end && { endTime: this.parseTimeArgument('end', end) }),
+    };
+
+    const result = await this.logManager.mergeLogsFromSessionsPaginated(sessionIds, cursor, limit, filter);
+
+    return {
+      content: [this.applyTokenLimit({
+        sessionIds,
+        ...(service && { service }),
+        ...(levels && { levels }),
+        ...(filter.startTime && { start: filter.startTime.toISOString() }),
+        ...(filter.endTime && { end: filter.endTime.toISOString() }),
+        logs: this.formatLogs(result.data, 'entry'),
+        total: result.total,
+        cursor,
+        limit,
+        nextCursor: result.nextCursor,
+        hasMore: result.hasMore,
+      })],
+    };
+  }
+
+  /**
+   * A time argument of a tool: an ISO 8601 timestamp or a relative expression
+   */
+  private parseTimeArgument(name: string, value: string): Date {
+    const time = parseTimeExpression(value);
+    if (Number.isNaN(time)) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid ${name} "${value}": use an ISO 8601 timestamp, a duration before now such as 10m, 2h or 7d, or "now"`);
+    }
+    return new Date(time);
+  }
+
+  private checkLevels(levels: string[]): void {
+    if (!Array.isArray(levels) || levels.length === 0 || levels.some(level => !LOG_LEVELS.includes(level))) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid levels ${JSON.stringify(levels)}: use one or more of ${LOG_LEVELS.join(', ')}`);
+    }
+  }
+
 
   private async handleCleanupSessions(args: {
     mode?: 'smart' | 'all';
@@ -570,7 +1338,7 @@ class LogPiperMcpServer {
       };
     } else {
       // Smart cleanup mode
-      const result = this.logManager.cleanupOldSessions(dryRun, force);
+      const result = await this.logManager.cleanupOldSessions(dryRun, force);
       return {
         content: [this.applyTokenLimit({
           ...result,
@@ -588,80 +1356,155 @@ class LogPiperMcpServer {
 
 
 
-  private setupIncomingLogHandlers(): void {
-    // Handle incoming data from CLI instances
-    process.stdin.on('data', (data) => {
-      try {
-        const message = JSON.parse(data.toString().trim());
-        this.handleIncomingMessage(message);
-      } catch (error) {
-        console.error('Failed to parse incoming message:', error);
+  private setupLogIngestion(): void {
+    // CLI instances write to <session>.logs files; stdin belongs to the MCP transport
+    this.logTailer.on('entry', (logEntry: LogEntry) => {
+      this.handleLogEntry(logEntry).catch((error) => {
+        console.error(`Failed to process log entry ${logEntry.id}:`, error);
+      });
+    });
+
+    this.logTailer.on('logsAppended', (sessionId: string) => {
+      this.notifyResourceUpdated(`logpiper://logs/${sessionId}`);
+      this.notifyResourceUpdated(`logpiper://sessions/${sessionId}`); // Its stats count the entries
+      this.wakeActivityWaiters(sessionId);
+    });
+
+    this.logTailer.on('sessionUpdated', (sessionId: string, status: string) => {
+      this.wakeActivityWaiters(sessionId);
+      this.notifyResourceUpdated(`logpiper://logs/${sessionId}`);
+      this.notifyResourceUpdated(`logpiper://sessions/${sessionId}`);
+      this.notifySessionsChanged();
+
+      // Tell agents to stop waiting on output that will never come
+      if (status === 'orphaned') {
+        const session = this.logManager.getSession(sessionId);
+        this.notificationSystem.sendSessionUpdateNotification(sessionId, 'orphaned', {
+          command: session ? [session.command, ...session.args].join(' ') : undefined,
+          lastHeartbeat: session?.heartbeatAt,
+        }).catch((error) => {
+          console.error(`Failed to notify about orphaned session ${sessionId}:`, error);
+        });
       }
     });
+
+    this.logTailer.on('sessionAdded', (sessionId: string) => {
+      this.wakeActivityWaiters(sessionId);
+      this.notifySessionsChanged();
+    });
+    this.logTailer.on('sessionRemoved', () => this.notifySessionsChanged());
   }
 
-  private async handleIncomingMessage(message: any): Promise<void> {
-    switch (message.type) {
-      case 'session_start':
-        this.logManager.createSession(
-          message.data.projectDir,
-          message.data.command,
-          message.data.args
-        );
-        break;
-
-      case 'log_entry':
-        const logEntry: LogEntry = message.data;
-        this.logManager.addLog(logEntry);
-
-        const errorEvent = this.errorDetector.analyzeLog(logEntry);
-        if (errorEvent) {
-          await this.notificationSystem.sendErrorNotification(errorEvent);
-        }
-        break;
+  /**
+   * Queue a resources/updated notification for a subscribed URI.
+   * Updates are coalesced so a chatty process does not flood the client.
+   */
+  private notifyResourceUpdated(uri: string): void {
+    if (!this.subscriptions.has(uri)) {
+      return;
+    }
 
-      case 'session_end':
-        this.logManager.updateSession(message.data.sessionId, {
-          status: 'stopped',
-          endTime: new Date(message.data.endTime),
-        });
-        break;
+    this.pendingResourceUpdates.add(uri);
+    if (this.resourceUpdateTimer) {
+      return;
+    }
 
-      case 'process_error':
-        this.logManager.updateSession(message.data.sessionId, {
-          status: 'crashed',
-        });
-        break;
+    this.resourceUpdateTimer = setTimeout(() => {
+      const uris = Array.from(this.pendingResourceUpdates);
+      this.pendingResourceUpdates.clear();
+      this.resourceUpdateTimer = null;
 
-      case 'session_interrupt':
-        this.logManager.updateSession(message.data.sessionId, {
-          status: 'stopped',
-          endTime: new Date(message.data.timestamp),
+      for (const pendingUri of uris) {
+        this.server.sendResourceUpdated({ uri: pendingUri }).catch((error) => {
+          console.error(`Failed to send resource update for ${pendingUri}:`, error);
         });
-        break;
+      }
+    }, this.resourceUpdateDelayMs);
+  }
+
+  /**
+   * The active session list backs both the resource list and the session resources
+   */
+  private notifySessionsChanged(): void {
+    this.server.sendResourceListChanged().catch((error) => {
+      console.error('Failed to send resource list change:', error);
+    });
+
+    this.notifyResourceUpdated('logpiper://sessions/active');
+    this.notifyResourceUpdated('logpiper://sessions/overview');
+  }
+
+  private async handleLogEntry(logEntry: LogEntry): Promise<void> {
+    const errorEvent = this.errorDetector.analyzeLog(logEntry);
+    if (!errorEvent) {
+      return;
     }
+
+    this.logManager.recordErrorEvent(logEntry.sessionId, errorEvent);
+    this.notifyResourceUpdated(`logpiper://errors/${logEntry.sessionId}`);
+    await this.notificationSystem.sendErrorNotification(errorEvent);
+  }
+
+  private createServiceFilter(service?: string): LogFilter | undefined {
+    return service ? { service } : undefined;
   }
 
   /**
-   * Update the read cursor for a session to track which logs have been read
+   * Shape log entries for a tool response: whole entries without the per-line
+   * breakdown or the ANSI original (both repeat the content), or individual
+   * lines in capture order
    */
-  private updateSessionReadCursor(sessionId: string, lineNumber: number): void {
-    try {
-      const { join } = require('path');
-      const { tmpdir } = require('os');
-      const fs = require('fs');
-      
-      const sessionFile = join(tmpdir(), 'logpiper', `${sessionId}.json`);
-      if (fs.existsSync(sessionFile)) {
-        const sessionData = JSON.parse(fs.readFileSync(sessionFile, 'utf8'));
-        if (lineNumber > sessionData.readCursor) {
-          sessionData.readCursor = lineNumber;
-          sessionData.lastActivity = new Date().toISOString();
-          fs.writeFileSync(sessionFile, JSON.stringify(sessionData, null, 2));
-        }
+  private formatLogs(
+    entries: LogEntry[],
+    granularity: 'entry' | 'line',
+    filter?: (line: LogLine, entry: LogEntry) => boolean
+  ): Array<Omit<LogEntry, 'lines' | 'raw'>> | LogLineHit[] {
+    if (granularity === 'line') {
+      return flattenEntryLines(entries, filter);
+    }
+
+    return entries.map(({ lines, raw, ...entry }) => entry);
+  }
+
+  private contextSize(requested: number | undefined): number {
+    return Math.min(Math.max(Math.floor(requested ?? 0), 0), MAX_SEARCH_CONTEXT);
+  }
+
+  /**
+   * Respond with search hits grouped with their neighbouring entries. When
+   * the response would exceed the token limit, the context is narrowed
+   * rather than hits dropped; `context` tells how much is included.
+   */
+  private async respondWithContext(
+    hits: LogEntry[],
+    before: number,
+    after: number,
+    filter: LogFilter | undefined,
+    granularity: 'entry' | 'line',
+    matchesLine: (line: LogLine, entry: LogEntry) => boolean,
+    respond: (results: unknown, context: { before: number; after: number }) => object
+  ): Promise<object> {
+    const neighbours = new Map<LogEntry, Neighbours>();
+    for (const hit of hits) {
+      neighbours.set(hit, await this.logManager.getNeighbours(hit.sessionId, hit.lineNumber, before, after, filter));
+    }
+
+    while (true) {
+      const windows = buildContextWindows(hits, neighbours, before, after).map(window => ({
+        sessionId: window.sessionId,
+        firstLineNumber: window.entries[0].lineNumber,
+        lastLineNumber: window.entries[window.entries.length - 1].lineNumber,
+        ...(granularity === 'line'
+          ? { lines: flattenEntryLines(window.entries, undefined, (line, entry) => window.hits.has(entry.lineNumber) && matchesLine(line, entry)) }
+          : { entries: window.entries.map(({ lines, ...entry }) => ({ ...entry, match: window.hits.has(entry.lineNumber) })) }),
+      }));
+
+      const response = respond(windows, { before, after });
+      if ((before === 0 && after === 0) || TokenLimiter.fitsLimit(JSON.stringify(response, null, 2))) {
+        return response;
       }
-    } catch (error) {
-      // Silently fail - not critical for functionality
+      before = Math.floor(before / 2);
+      after = Math.floor(after / 2);
     }
   }
 
@@ -682,61 +1525,29 @@ class LogPiperMcpServer {
     };
   }
 
-  /**
-   * Remove consumed logs up to a specific line number
-   */
-  private async removeConsumedLogs(sessionId: string, upToLineNumber: number): Promise<void> {
-    try {
-      const { join } = require('path');
-      const { tmpdir } = require('os');
-      const fs = require('fs');
-      
-      const logsFile = join(tmpdir(), 'logpiper', `${sessionId}.logs`);
-      if (!fs.existsSync(logsFile)) {
-        return;
-      }
-
-      // Read all logs
-      const content = fs.readFileSync(logsFile, 'utf8');
-      const lines = content.trim().split('\n').filter((line: string) => line.length > 0);
-      
-      // Filter out consumed logs (those with lineNumber <= upToLineNumber)
-      const remainingLines = lines.filter((line: string) => {
-        try {
-          const logEntry = JSON.parse(line);
-          return logEntry.lineNumber > upToLineNumber;
-        } catch {
-          return true; // Keep malformed lines
-        }
+  private startCleanupTimer(): void {
+    const cleanup = () => {
+      this.logManager.cleanup().catch((error) => {
+        console.error('Failed to clean up old sessions:', error);
       });
+    };
 
-      // Write back only the remaining logs
-      if (remainingLines.length === 0) {
-        // If no logs remain, delete the file to free up space
-        fs.unlinkSync(logsFile);
-      } else {
-        fs.writeFileSync(logsFile, remainingLines.join('\n') + '\n');
-      }
-
-      console.error(`Removed ${lines.length - remainingLines.length} consumed log entries for session ${sessionId}`);
-    } catch (error) {
-      console.error(`Failed to remove consumed logs for session ${sessionId}:`, error);
-    }
-  }
-
-  private startCleanupTimer(): void {
     // Run initial cleanup on startup
-    this.logManager.cleanup();
+    cleanup();
     
     // Schedule regular cleanups
+    setInterval(cleanup, 15 * 60 * 1000); // Cleanup every 15 minutes
+
+    // Sessions whose CLI was killed would otherwise stay running forever
     setInterval(() => {
-      this.logManager.cleanup();
-    }, 15 * 60 * 1000); // Cleanup every 15 minutes
+      this.logManager.reconcileOrphanedSessions();
+    }, HEARTBEAT_INTERVAL_MS);
   }
 
   async start(): Promise<void> {
     const transport = new StdioServerTransport();
     await this.server.connect(transport);
+    this.logTailer.start();
     console.error('logpiper-mcp server started');
   }
 }
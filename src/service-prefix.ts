@@ -0,0 +1,91 @@
+/**
+ * Service prefixes in multiplexed output (docker compose, concurrently, foreman)
+ */
+
+export interface ServicePrefix {
+  service: string;
+  content: string; // The line with the prefix removed
+}
+
+// Level words and diagnostic labels that look like a "[name]" or "name:" prefix
+const NON_SERVICE_LABELS = /^(?:fatal|error|err|crit|critical|severe|panic|warn|warning|info|notice|debug|trace|verbose|note|hint|help|caused|at|usage|see|todo|fixme|http|https|file|line)$/i;
+const ERROR_NAME = /(?:Error|Exception|Warning)$/;
+
+// Lines a "name |" or "name:" prefix must start before it is taken for a service
+const COMPOSE_PREFIX_MIN_LINES = 2;
+const COLON_PREFIX_MIN_LINES = 3;
+
+/**
+ * Detect and remove an unambiguous service prefix: "[api] compiled successfully"
+ */
+export function splitServicePrefix(line: string): ServicePrefix | null {
+  const bracketMatch = line.match(/^\[([a-zA-Z0-9_-]+)\]\s*/);
+  if (bracketMatch && isServiceName(bracketMatch[1])) {
+    return prefix(bracketMatch[1], line, bracketMatch[0].length);
+  }
+
+  return null;
+}
+
+/**
+ * Detects service prefixes in the output of one command. Besides the form
+ * of splitServicePrefix it takes "backend-1  | listening on :8080" and
+ * "worker: job 42 done", but only once the same name has started several
+ * lines: tables print "cli.ts    |   80.5 |" rows, and single commands report
+ * errors the same way ("ls: cannot access 'x'", "curl: (7) Failed to connect").
+ * Lines seen before that are already stored, so they keep their prefix in
+ * their content and have no service.
+ */
+export class ServicePrefixDetector {
+  private composePrefixLines: Map<string, number> = new Map();
+  private colonPrefixLines: Map<string, number> = new Map();
+
+  split(line: string): ServicePrefix | null {
+    const servicePrefix = splitServicePrefix(line);
+    if (servicePrefix) return servicePrefix;
+
+    // docker compose pads names to a common width, so the bar is always preceded by whitespace
+    const composeMatch = line.match(/^([a-zA-Z0-9_.-]+)\s+\| ?/);
+    if (composeMatch) {
+      if (!isServiceName(composeMatch[1])) return null;
+      return countLine(this.composePrefixLines, composeMatch[1]) >= COMPOSE_PREFIX_MIN_LINES
+        ? prefix(composeMatch[1], line, composeMatch[0].length)
+        : null;
+    }
+
+    // Restricted to lower-case names so prose such as "Server: started" keeps its label
+    const colonMatch = line.match(/^([a-z0-9][a-z0-9_-]*):\s+/);
+    if (!colonMatch || !isServiceName(colonMatch[1])) return null;
+
+    return countLine(this.colonPrefixLines, colonMatch[1]) >= COLON_PREFIX_MIN_LINES
+      ? prefix(colonMatch[1], line, colonMatch[0].length)
+      : null;
+  }
+}
+
+/**
+ * Whether a stored service matches a requested one. Scaled compose services
+ * print as "backend-1", "backend-2" or "project-backend-1", so the replica
+ * suffix and project prefix are optional.
+ */
+export function serviceMatches(service: string | undefined, requested: string): boolean {
+  if (!service) return false;
+  if (service === requested) return true;
+
+  const escaped = requested.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  return new RegExp(`^(?:[\\w.-]+[-_])?${escaped}[-_]\\d+$`).test(service);
+}
+
+function isServiceName(name: string): boolean {
+  return !NON_SERVICE_LABELS.test(name) && !ERROR_NAME.test(name) && !/^\d+$/.test(name);
+}
+
+function countLine(lines: Map<string, number>, name: string): number {
+  const count = (lines.get(name) ?? 0) + 1;
+  lines.set(name, count);
+  return count;
+}
+
+function prefix(service: string, line: string, length: number): ServicePrefix {
+  return { service, content: line.slice(length) };
+}
@@ -0,0 +1,359 @@
+import type { ErrorEvent, LogEntry, LogSession, SessionEnd } from './types.js';
+import {
+  appendFileSync,
+  existsSync,
+  mkdirSync,
+  readdirSync,
+  readFileSync
+} from 'fs';
+import { join } from 'path';
+import { writeFileAtomic } from './atomic-file.js';
+import { cursorAfter, decodeCursor } from './cursor.js';
+import { indexPathFor } from './log-index.js';
+import {
+  DEFAULT_SEGMENT_POLICY,
+  listSegmentFiles,
+  manifestPathFor,
+  segmentPolicyFromEnv,
+  SegmentedLogWriter,
+  type SegmentPolicy
+} from './log-segments.js';
+import { TermIndexWriter, termsPathFor } from './search-index.js';
+
+// Errors returned with a session; older ones stay in storage
+export const MAX_ERROR_HISTORY = 100;
+
+/**
+ * Convert the dates of a session read back from JSON to Date objects
+ */
+export function reviveSessionDates(sessionData: any): LogSession {
+  sessionData.startTime = new Date(sessionData.startTime);
+  sessionData.lastActivity = new Date(sessionData.lastActivity);
+  if (sessionData.endTime) {
+    sessionData.endTime = new Date(sessionData.endTime);
+  }
+  if (sessionData.heartbeatAt) {
+    sessionData.heartbeatAt = new Date(sessionData.heartbeatAt);
+  }
+  return sessionData;
+}
+
+/**
+ * Apply an end recorded by another process to session data. A close is
+ * final; an orphaned mark only holds while the session has not sent a
+ * heartbeat since it was made.
+ * @returns whether the session changed
+ */
+export function applySessionEnd(sessionData: any, end: SessionEnd): boolean {
+  if (end.status === 'stopped') {
+    if (sessionData.status === 'stopped') return false;
+  } else {
+    const lastHeartbeat = new Date(sessionData.heartbeatAt ?? sessionData.startTime).getTime();
+    if (sessionData.status !== 'running' || lastHeartbeat > new Date(end.heartbeatAt ?? 0).getTime()) return false;
+  }
+
+  sessionData.status = end.status;
+  sessionData.endTime = end.endTime;
+  return true;
+}
+
+/**
+ * On-disk layout of the data directory. No file is rewritten by two processes:
+ * - `<id>.json`: session metadata, written by the CLI capturing the session only
+ * - `<id>.ends`: NDJSON ends of the session recorded by other processes: a CLI
+ *   closing it from the duplicate-session prompt, or a server finding its CLI
+ *   dead. Applied to `<id>.json` when read, and folded into it by the owning
+ *   CLI's next write.
+ * - `<id>.logs`: NDJSON log entries of the active segment, appended by the CLI only
+ * - `<id>.idx`: byte offset index of `<id>.logs`, appended by the CLI with each entry
+ * - `<id>.terms`: token index of all segments for search, appended by the CLI
+ *   after each entry (see search-index.ts)
+ * - `<id>.<n>.logs.gz` and `<id>.segments`: closed segments and their manifest,
+ *   written by the CLI (see log-segments.ts)
+ * - `<id>.cursors/<consumer>`: read cursor of one consumer, written by the server
+ *   process serving it. Each MCP client runs its own server, so consumers get
+ *   a file each rather than sharing one. `<id>.readers`, the single file
+ *   they used to share, is still read.
+ * - `<id>.errors`: NDJSON detected errors, appended by the servers only. Every
+ *   server following the session detects the same errors; an event has the
+ *   same id in all of them, and duplicates are dropped when reading.
+ *
+ * Rewritten files are replaced atomically, so readers see either the old or
+ * the new content and never a partial write. Sidecar names must not end in
+ * `.json` or `.logs`, which identify sessions.
+ */
+export class SessionStore {
+  private dataDir: string;
+  private segmentPolicy: SegmentPolicy;
+  private logWriters: Map<string, { log: SegmentedLogWriter; terms: TermIndexWriter }> = new Map();
+
+  constructor(dataDir: string, segmentPolicy: Partial<SegmentPolicy> = {}) {
+    this.dataDir = dataDir;
+    this.segmentPolicy = {
+      ...DEFAULT_SEGMENT_POLICY,
+      ...segmentPolicyFromEnv(),
+      ...segmentPolicy,
+    };
+  }
+
+  sessionPath(sessionId: string): string {
+    return join(this.dataDir, `${sessionId}.json`);
+  }
+
+  logsPath(sessionId: string): string {
+    return join(this.dataDir, `${sessionId}.logs`);
+  }
+
+  indexPath(sessionId: string): string {
+    return indexPathFor(this.logsPath(sessionId));
+  }
+
+  termsPath(sessionId: string): string {
+    return termsPathFor(this.logsPath(sessionId));
+  }
+
+  manifestPath(sessionId: string): string {
+    return manifestPathFor(this.logsPath(sessionId));
+  }
+
+  readersPath(sessionId: string): string {
+    return join(this.dataDir, `${sessionId}.readers`);
+  }
+
+  cursorsPath(sessionId: string): string {
+    return join(this.dataDir, `${sessionId}.cursors`);
+  }
+
+  errorsPath(sessionId: string): string {
+    return join(this.dataDir, `${sessionId}.errors`);
+  }
+
+  endsPath(sessionId: string): string {
+    return join(this.dataDir, `${sessionId}.ends`);
+  }
+
+  /**
+   * Every file that belongs to a session
+   */
+  sessionFiles(sessionId: string): string[] {
+    return [
+      this.sessionPath(sessionId),
+      this.logsPath(sessionId),
+      this.indexPath(sessionId),
+      this.termsPath(sessionId),
+      this.manifestPath(sessionId),
+      ...listSegmentFiles(this.logsPath(sessionId)),
+      this.readersPath(sessionId),
+      this.cursorsPath(sessionId),
+      this.errorsPath(sessionId),
+      this.endsPath(sessionId)
+    ];
+  }
+
+  listSessionIds(): string[] {
+    if (!existsSync(this.dataDir)) {
+      return [];
+    }
+
+    return readdirSync(this.dataDir)
+      .filter(file => file.endsWith('.json'))
+      .map(file => file.slice(0, -'.json'.length));
+  }
+
+  /**
+   * Raw session file content, without the server-owned sidecars
+   */
+  readSessionData(sessionId: string): any | undefined {
+    try {
+      return JSON.parse(readFileSync(this.sessionPath(sessionId), 'utf8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Status of a session with the ends recorded by others applied
+   */
+  readSessionStatus(sessionId: string): LogSession['status'] | undefined {
+    const sessionData = this.readSessionData(sessionId);
+    if (!sessionData) {
+      return undefined;
+    }
+
+    this.applySessionEnds(sessionId, sessionData);
+    return sessionData.status;
+  }
+
+  /**
+   * A session with its recorded ends, reader cursors and error history merged in
+   */
+  readSession(sessionId: string): LogSession | undefined {
+    const sessionData = this.readSessionData(sessionId);
+    if (!sessionData) {
+      return undefined;
+    }
+
+    this.applySessionEnds(sessionId, sessionData);
+
+    // Sessions written before the sidecars existed keep both in the session file
+    const readCursors: Record<string, string> = { ...sessionData.readCursors, ...this.readReaderCursors(sessionId) };
+    for (const [consumerId, cursor] of Object.entries(readCursors)) {
+      readCursors[consumerId] = this.normalizeCursor(sessionId, cursor);
+    }
+    sessionData.readCursors = readCursors;
+    sessionData.readCursor = Math.max(
+      sessionData.readCursor ?? 0,
+      ...Object.values(readCursors).map(cursor => decodeCursor(cursor, sessionId).sequence + 1)
+    );
+
+    if (existsSync(this.errorsPath(sessionId))) {
+      sessionData.errorHistory = this.readErrors(sessionId, MAX_ERROR_HISTORY);
+    }
+
+    return sessionData;
+  }
+
+  /**
+   * Replace the session file. Only the session's owner may call this.
+   */
+  writeSession(session: LogSession): void {
+    writeFileAtomic(this.sessionPath(session.id), JSON.stringify(session, null, 2));
+  }
+
+  /**
+   * Read-modify-write the session file. Only the session's owner may call
+   * this; `update` sees the ends recorded by others and writes them back.
+   * The update is skipped when `update` returns false.
+   */
+  updateSessionData(sessionId: string, update: (sessionData: any) => boolean | void): boolean {
+    const sessionData = this.readSessionData(sessionId);
+    if (sessionData) {
+      this.applySessionEnds(sessionId, sessionData);
+    }
+    if (!sessionData || update(sessionData) === false) {
+      return false;
+    }
+
+    writeFileAtomic(this.sessionPath(sessionId), JSON.stringify(sessionData, null, 2));
+    return true;
+  }
+
+  appendLog(entry: LogEntry): void {
+    let writer = this.logWriters.get(entry.sessionId);
+    if (!writer) {
+      const logsPath = this.logsPath(entry.sessionId);
+      const terms = new TermIndexWriter(logsPath);
+      const log = new SegmentedLogWriter(logsPath, this.segmentPolicy, evicted => terms.prune(evicted));
+      writer = { log, terms };
+      this.logWriters.set(entry.sessionId, writer);
+    }
+
+    writer.log.append(JSON.stringify(entry), new Date(entry.timestamp).getTime());
+    writer.terms.append(entry);
+  }
+
+  readReaderCursors(sessionId: string): Record<string, string> {
+    let cursors: Record<string, string> = {};
+    try {
+      cursors = JSON.parse(readFileSync(this.readersPath(sessionId), 'utf8'));
+    } catch {
+      // No cursors saved before the per-consumer files
+    }
+
+    let files: string[] = [];
+    try {
+      files = readdirSync(this.cursorsPath(sessionId));
+    } catch {
+      return cursors;
+    }
+
+    // Encoded consumer IDs contain no dots; temporary files of atomic writes do
+    for (const file of files.filter(name => !name.includes('.'))) {
+      try {
+        cursors[Buffer.from(file, 'base64url').toString('utf8')] = readFileSync(join(this.cursorsPath(sessionId), file), 'utf8');
+      } catch {
+        // Removed along with the session
+      }
+    }
+    return cursors;
+  }
+
+  writeReaderCursor(sessionId: string, consumerId: string, cursor: string): void {
+    const cursorsPath = this.cursorsPath(sessionId);
+    mkdirSync(cursorsPath, { recursive: true });
+    writeFileAtomic(join(cursorsPath, Buffer.from(consumerId).toString('base64url')), cursor);
+  }
+
+  /**
+   * Cursors used to be saved as line positions. Entries are written one per
+   * line in sequence order, so position n follows the entry with sequence n - 1.
+   */
+  private normalizeCursor(sessionId: string, cursor: string | number): string {
+    if (typeof cursor === 'number') {
+      return cursorAfter(sessionId, cursor - 1);
+    }
+
+    try {
+      decodeCursor(cursor, sessionId);
+      return cursor;
+    } catch {
+      return cursorAfter(sessionId, -1);
+    }
+  }
+
+  appendSessionEnd(sessionId: string, end: SessionEnd): void {
+    appendFileSync(this.endsPath(sessionId), JSON.stringify(end) + '\n');
+  }
+
+  private applySessionEnds(sessionId: string, sessionData: any): void {
+    let content: string;
+    try {
+      content = readFileSync(this.endsPath(sessionId), 'utf8');
+    } catch {
+      return; // Nobody else has ended the session
+    }
+
+    for (const line of content.split('\n')) {
+      if (line.trim() === '') continue;
+      try {
+        applySessionEnd(sessionData, JSON.parse(line));
+      } catch {
+        // A line still being appended
+      }
+    }
+  }
+
+  appendError(sessionId: string, errorEvent: ErrorEvent): void {
+    appendFileSync(this.errorsPath(sessionId), JSON.stringify(errorEvent) + '\n');
+  }
+
+  /**
+   * Detected errors, oldest first, each once however many servers recorded it
+   * @param limit - Return only the most recent errors
+   */
+  readErrors(sessionId: string, limit?: number): ErrorEvent[] {
+    let content: string;
+    try {
+      content = readFileSync(this.errorsPath(sessionId), 'utf8');
+    } catch {
+      return [];
+    }
+
+    const errors: ErrorEvent[] = [];
+    const seen = new Set<string>();
+    for (const line of content.split('\n')) {
+      if (line.trim() === '') continue;
+      try {
+        const errorEvent = JSON.parse(line);
+        if (seen.has(errorEvent.id)) continue;
+        seen.add(errorEvent.id);
+        errorEvent.timestamp = new Date(errorEvent.timestamp);
+        errors.push(errorEvent);
+      } catch {
+        // A line still being appended
+      }
+    }
+
+    return limit !== undefined ? errors.slice(-limit) : errors;
+  }
+}
@@ -0,0 +1,668 @@
+import type {
+  ErrorEvent,
+  LogEntry,
+  LogFilter,
+  LogSession,
+  PaginationResult,
+  SearchOrder,
+  SessionEnd,
+  SessionRemoval,
+  StorageBackend,
+  StorageWatcher
+} from './types.js';
+import type { DatabaseSync, SQLInputValue } from 'node:sqlite';
+import { EventEmitter } from 'events';
+import { existsSync, mkdirSync } from 'fs';
+import { createRequire } from 'module';
+import { join } from 'path';
+import { cursorAfter, decodeCursor } from './cursor.js';
+import { parseLogEntry } from './log-entry.js';
+import {
+  entryTerms,
+  searchSession,
+  searchSessions,
+  type IndexedEntry,
+  type SearchSource,
+  type TermIndex
+} from './log-search.js';
+import { serviceMatches } from './service-prefix.js';
+import { applySessionEnd, MAX_ERROR_HISTORY, reviveSessionDates } from './session-store.js';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS sessions (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL, -- LogSession JSON without read cursors and errors
+    status TEXT NOT NULL,
+    last_activity INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS logs (
+    id INTEGER PRIMARY KEY AUTOINCREMENT, -- Insertion order, followed by watchers
+    session_id TEXT NOT NULL,
+    seq INTEGER NOT NULL, -- LogEntry.lineNumber
+    timestamp INTEGER NOT NULL, -- ms
+    level TEXT NOT NULL,
+    service TEXT,
+    tokens INTEGER NOT NULL, -- Number of searchable tokens
+    entry TEXT NOT NULL, -- The whole LogEntry as JSON
+    UNIQUE (session_id, seq)
+  );
+  CREATE INDEX IF NOT EXISTS logs_session_time ON logs (session_id, timestamp);
+  CREATE INDEX IF NOT EXISTS logs_session_level ON logs (session_id, level, seq);
+  CREATE INDEX IF NOT EXISTS logs_session_service ON logs (session_id, service, seq);
+  CREATE INDEX IF NOT EXISTS logs_time ON logs (timestamp);
+
+  CREATE TABLE IF NOT EXISTS terms (
+    session_id TEXT NOT NULL,
+    token TEXT NOT NULL,
+    seq INTEGER NOT NULL,
+    frequency INTEGER NOT NULL,
+    PRIMARY KEY (session_id, token, seq)
+  ) WITHOUT ROWID;
+
+  CREATE TABLE IF NOT EXISTS read_cursors (
+    session_id TEXT NOT NULL,
+    consumer_id TEXT NOT NULL,
+    cursor TEXT NOT NULL,
+    PRIMARY KEY (session_id, consumer_id)
+  );
+
+  CREATE TABLE IF NOT EXISTS errors (
+    id INTEGER PRIMARY KEY,
+    session_id TEXT NOT NULL,
+    data TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS errors_session ON errors (session_id, id);
+  -- Every server following a session records the errors it detects, under the same event id
+  CREATE UNIQUE INDEX IF NOT EXISTS errors_event ON errors (session_id, json_extract(data, '$.id'));
+`;
+
+const MAX_RESPONSE_BYTES = 1024 * 1024; // 1MB
+const DEFAULT_LIMIT = 100;
+const MAX_SQL_PARAMS = 500; // Per IN list
+
+interface LogRow {
+  seq: number;
+  entry: string;
+}
+
+interface Condition {
+  sql: string;
+  params: SQLInputValue[];
+}
+
+/**
+ * node:sqlite is loaded on first use so the file backend keeps working on
+ * Node.js versions without it
+ */
+function openDatabase(path: string): DatabaseSync {
+  let sqlite: typeof import('node:sqlite');
+  try {
+    sqlite = createRequire(import.meta.url)('node:sqlite');
+  } catch (error) {
+    throw new Error(`The sqlite storage backend requires Node.js 22.13 or later (running ${process.version}): ${error}`);
+  }
+  return new sqlite.DatabaseSync(path);
+}
+
+/**
+ * A backend keeping every session in one SQLite database, `logpiper.db` in
+ * the data directory. Log entries are rows with indexed session, timestamp,
+ * level and service columns, so filtered, time-range and cross-session reads
+ * are queries rather than scans of every entry. Searches use the `terms`
+ * table, an inverted index of the entries' tokens. Cursors and pagination
+ * work as with the file backend.
+ *
+ * Several CLIs and the server share the database: it runs in WAL mode and
+ * writers wait for each other instead of failing.
+ */
+export class SqliteStorage implements StorageBackend {
+  readonly location: string;
+  private db: DatabaseSync;
+
+  constructor(dataDir: string) {
+    if (!existsSync(dataDir)) {
+      mkdirSync(dataDir, { recursive: true });
+    }
+
+    this.location = join(dataDir, 'logpiper.db');
+    this.db = openDatabase(this.location);
+    this.db.exec('PRAGMA busy_timeout = 5000');
+    this.db.exec('PRAGMA journal_mode = WAL');
+    this.db.exec('PRAGMA synchronous = NORMAL');
+    this.db.exec(SCHEMA);
+  }
+
+  saveSession(session: LogSession): void {
+    const { readCursors, errorHistory, ...sessionData } = session;
+    this.db.prepare(`
+      INSERT INTO sessions (id, data, status, last_activity) VALUES (?, ?, ?, ?)
+      ON CONFLICT (id) DO UPDATE SET data = excluded.data, status = excluded.status, last_activity = excluded.last_activity
+    `).run(session.id, JSON.stringify(sessionData), session.status, new Date(session.lastActivity).getTime());
+  }
+
+  hasSession(sessionId: string): boolean {
+    return this.db.prepare('SELECT 1 FROM sessions WHERE id = ?').get(sessionId) !== undefined;
+  }
+
+  /**
+   * A session with its reader cursors and most recent errors merged in
+   */
+  getSession(sessionId: string): LogSession | undefined {
+    const row = this.db.prepare('SELECT data FROM sessions WHERE id = ?').get(sessionId);
+    if (!row) {
+      return undefined;
+    }
+
+    const sessionData = JSON.parse(row.data as string);
+    const readCursors: Record<string, string> = {};
+    for (const cursorRow of this.db.prepare('SELECT consumer_id, cursor FROM read_cursors WHERE session_id = ?').all(sessionId)) {
+      readCursors[cursorRow.consumer_id as string] = cursorRow.cursor as string;
+    }
+    sessionData.readCursors = readCursors;
+    sessionData.readCursor = Math.max(
+      sessionData.readCursor ?? 0,
+      ...Object.values(readCursors).map(cursor => decodeCursor(cursor, sessionId).sequence + 1)
+    );
+
+    sessionData.errorHistory = this.db.prepare('SELECT data FROM errors WHERE session_id = ? ORDER BY id DESC LIMIT ?')
+      .all(sessionId, MAX_ERROR_HISTORY)
+      .reverse()
+      .map(errorRow => {
+        const errorEvent = JSON.parse(errorRow.data as string);
+        errorEvent.timestamp = new Date(errorEvent.timestamp);
+        return errorEvent;
+      });
+
+    return reviveSessionDates(sessionData);
+  }
+
+  listSessions(): LogSession[] {
+    return this.db.prepare('SELECT id FROM sessions').all()
+      .map(row => this.getSession(row.id as string))
+      .filter((session): session is LogSession => session !== undefined);
+  }
+
+  updateSession(sessionId: string, update: (session: LogSession) => boolean | void): boolean {
+    return this.transaction(() => {
+      const row = this.db.prepare('SELECT data FROM sessions WHERE id = ?').get(sessionId);
+      if (!row) {
+        return false;
+      }
+
+      const sessionData = JSON.parse(row.data as string);
+      if (update(sessionData) === false) {
+        return false;
+      }
+
+      this.db.prepare('UPDATE sessions SET data = ?, status = ?, last_activity = ? WHERE id = ?')
+        .run(JSON.stringify(sessionData), sessionData.status, new Date(sessionData.lastActivity).getTime(), sessionId);
+      return true;
+    });
+  }
+
+  recordSessionEnd(sessionId: string, end: SessionEnd): void {
+    this.updateSession(sessionId, session => applySessionEnd(session, end));
+  }
+
+  removeSession(sessionId: string): SessionRemoval {
+    try {
+      return this.transaction(() => {
+        const logs = this.db.prepare('DELETE FROM logs WHERE session_id = ?').run(sessionId);
+        this.db.prepare('DELETE FROM terms WHERE session_id = ?').run(sessionId);
+        this.db.prepare('DELETE FROM read_cursors WHERE session_id = ?').run(sessionId);
+        this.db.prepare('DELETE FROM errors WHERE session_id = ?').run(sessionId);
+        const session = this.db.prepare('DELETE FROM sessions WHERE id = ?').run(sessionId);
+        return { sessionDeleted: session.changes > 0, logsDeleted: logs.changes > 0, errors: [] };
+      });
+    } catch (error) {
+      return { sessionDeleted: false, logsDeleted: false, errors: [`Failed to delete session ${sessionId}: ${error}`] };
+    }
+  }
+
+  removeAllSessions(): { deletedSessions: number; deletedLogFiles: number; errors: string[] } {
+    try {
+      return this.transaction(() => {
+        const sessionsWithLogs = this.db.prepare('SELECT COUNT(DISTINCT session_id) AS count FROM logs').get()!.count as number;
+        this.db.exec('DELETE FROM logs; DELETE FROM terms; DELETE FROM read_cursors; DELETE FROM errors;');
+        const sessions = this.db.prepare('DELETE FROM sessions').run();
+        return { deletedSessions: Number(sessions.changes), deletedLogFiles: sessionsWithLogs, errors: [] };
+      });
+    } catch (error) {
+      return { deletedSessions: 0, deletedLogFiles: 0, errors: [`Failed to delete sessions: ${error}`] };
+    }
+  }
+
+  setReadCursor(sessionId: string, consumerId: string, cursor: string): void {
+    this.db.prepare(`
+      INSERT OR REPLACE INTO read_cursors (session_id, consumer_id, cursor)
+      SELECT id, ?, ? FROM sessions WHERE id = ?
+    `).run(consumerId, cursor, sessionId);
+  }
+
+  recordErrorEvent(sessionId: string, errorEvent: ErrorEvent): void {
+    this.db.prepare('INSERT OR IGNORE INTO errors (session_id, data) SELECT id, ? FROM sessions WHERE id = ?')
+      .run(JSON.stringify(errorEvent), sessionId);
+  }
+
+  addLog(entry: LogEntry): void {
+    const { length, terms } = entryTerms(entry);
+
+    this.transaction(() => {
+      // An entry that was already stored keeps its first version
+      const inserted = this.db.prepare(`
+        INSERT OR IGNORE INTO logs (session_id, seq, timestamp, level, service, tokens, entry)
+        VALUES (?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        entry.sessionId,
+        entry.lineNumber,
+        new Date(entry.timestamp).getTime(),
+        entry.logLevel,
+        entry.service ?? null,
+        length,
+        JSON.stringify(entry)
+      );
+      if (inserted.changes === 0) {
+        return;
+      }
+
+      const insertTerm = this.db.prepare('INSERT INTO terms (session_id, token, seq, frequency) VALUES (?, ?, ?, ?)');
+      for (const [token, frequency] of Object.entries(terms)) {
+        insertTerm.run(entry.sessionId, token, entry.lineNumber, frequency);
+      }
+    });
+  }
+
+  /**
+   * New entries since a cursor. nextCursor is always returned; it moves past
+   * filtered-out entries up to the newest entry that existed when reading.
+   */
+  async getNewLogs(sessionId: string, since?: string, limit: number = DEFAULT_LIMIT, filter?: LogFilter): Promise<PaginationResult<LogEntry>> {
+    const after = this.decode(sessionId, since);
+    const newest = this.db.prepare('SELECT MAX(seq) AS seq FROM logs WHERE session_id = ?').get(sessionId)!.seq as number | null;
+    if (newest === null || newest <= after) {
+      return {
+        data: [],
+        total: 0,
+        nextCursor: cursorAfter(sessionId, after),
+        hasMore: false,
+        hasPrevious: after >= 0,
+      };
+    }
+
+    const where = this.where([sessionId], filter, { sql: 'seq > ? AND seq <= ?', params: [after, newest] });
+    const { entries, stopped } = this.page(this.selectRows(where, 'seq', limit + 1), limit);
+
+    return {
+      data: entries,
+      total: this.count(where),
+      nextCursor: cursorAfter(sessionId, stopped ? entries[entries.length - 1].lineNumber : newest),
+      hasMore: stopped,
+      hasPrevious: after >= 0,
+    };
+  }
+
+  async getLogsPaginated(
+    sessionId: string,
+    cursor?: string,
+    limit: number = DEFAULT_LIMIT,
+    reverse: boolean = false,
+    filter?: LogFilter
+  ): Promise<PaginationResult<LogEntry>> {
+    if (reverse) {
+      const before = cursor === undefined ? Number.MAX_SAFE_INTEGER : this.decode(sessionId, cursor);
+      const where = this.where([sessionId], filter, { sql: 'seq <= ?', params: [before] });
+      const { entries, stopped } = this.page(this.selectRows(where, 'seq DESC', limit + 1), limit);
+      const oldest = entries[entries.length - 1];
+
+      return {
+        data: entries,
+        total: this.count(this.where([sessionId], filter)),
+        nextCursor: stopped ? cursorAfter(sessionId, oldest.lineNumber - 1) : undefined,
+        prevCursor: cursor,
+        hasMore: stopped,
+        hasPrevious: cursor !== undefined,
+      };
+    }
+
+    return this.readForward(sessionId, cursor, limit, filter, this.count(this.where([sessionId], filter)));
+  }
+
+  async searchLogs(
+    sessionId: string,
+    query: string,
+    cursor?: string,
+    limit: number = DEFAULT_LIMIT,
+    filter?: LogFilter,
+    order: SearchOrder = 'time'
+  ): Promise<PaginationResult<LogEntry>> {
+    return searchSession(this.searchSource(sessionId), query, cursor, limit, filter, order);
+  }
+
+  async searchSessions(
+    sessionIds: string[],
+    query: string,
+    limit: number = DEFAULT_LIMIT,
+    filter?: LogFilter,
+    order: SearchOrder = 'time'
+  ): Promise<PaginationResult<LogEntry>> {
+    return searchSessions(sessionIds.map(sessionId => this.searchSource(sessionId)), query, limit, filter, order);
+  }
+
+  getAllLogs(sessionId: string): LogEntry[] {
+    return this.selectRows(this.where([sessionId]), 'seq').map(row => parseLogEntry(row.entry));
+  }
+
+  async getLogCount(sessionId: string): Promise<number> {
+    return this.count(this.where([sessionId]));
+  }
+
+  /**
+   * Bytes of a session's rows, approximated by the size of their JSON
+   */
+  getDiskUsage(sessionId: string): number {
+    const logs = this.db.prepare('SELECT COALESCE(SUM(length(entry)), 0) AS bytes FROM logs WHERE session_id = ?').get(sessionId)!;
+    const session = this.db.prepare('SELECT COALESCE(SUM(length(data)), 0) AS bytes FROM sessions WHERE id = ?').get(sessionId)!;
+    return (logs.bytes as number) + (session.bytes as number);
+  }
+
+  watch(): StorageWatcher {
+    return new SqliteWatcher(this.db);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+
+  /**
+   * Forward page of entries after a cursor
+   */
+  private readForward(
+    sessionId: string,
+    cursor: string | undefined,
+    limit: number,
+    filter: LogFilter | undefined,
+    total: number
+  ): PaginationResult<LogEntry> {
+    const after = this.decode(sessionId, cursor);
+    const where = this.where([sessionId], filter, { sql: 'seq > ?', params: [after] });
+    const { entries, stopped } = this.page(this.selectRows(where, 'seq', limit + 1), limit);
+
+    return {
+      data: entries,
+      total,
+      nextCursor: stopped ? cursorAfter(sessionId, entries[entries.length - 1].lineNumber) : undefined,
+      prevCursor: after >= 0 ? cursor : undefined,
+      hasMore: stopped,
+      hasPrevious: after >= 0,
+    };
+  }
+
+  /**
+   * Keep up to `limit` rows within the response size; stopped tells whether rows were left out
+   */
+  private page(rows: LogRow[], limit: number): { entries: LogEntry[]; stopped: boolean } {
+    const entries: LogEntry[] = [];
+    let responseSize = 0;
+
+    for (const row of rows.slice(0, limit)) {
+      if (responseSize + row.entry.length > MAX_RESPONSE_BYTES && entries.length > 0) {
+        break;
+      }
+      entries.push(parseLogEntry(row.entry));
+      responseSize += row.entry.length;
+    }
+
+    return { entries, stopped: entries.length < rows.length };
+  }
+
+  private selectRows(where: Condition, orderBy: string, limit: number = -1): LogRow[] {
+    return this.db.prepare(`SELECT seq, entry FROM logs WHERE ${where.sql} ORDER BY ${orderBy} LIMIT ?`)
+      .all(...where.params, limit) as unknown as LogRow[];
+  }
+
+  private count(where: Condition): number {
+    return this.db.prepare(`SELECT COUNT(*) AS count FROM logs WHERE ${where.sql}`).get(...where.params)!.count as number;
+  }
+
+  private searchSource(sessionId: string): SearchSource {
+    const row = this.db.prepare("SELECT json_extract(data, '$.projectDir') AS project_dir FROM sessions WHERE id = ?").get(sessionId);
+    return {
+      sessionId,
+      projectDir: (row?.project_dir as string | null) ?? undefined,
+      index: new SqliteTermIndex(this.db, sessionId),
+      fetch: (sequences, onEntry) => this.readEntries(sessionId, sequences, onEntry)
+    };
+  }
+
+  private async readEntries(sessionId: string, sequences: number[], onEntry: (entry: LogEntry) => void): Promise<void> {
+    for (const chunk of chunked(sequences)) {
+      const where = this.where([sessionId], undefined, { sql: `seq IN (${chunk.map(() => '?').join(', ')})`, params: chunk });
+      for (const row of this.selectRows(where, 'seq')) {
+        onEntry(parseLogEntry(row.entry));
+      }
+    }
+  }
+
+  /**
+   * WHERE clause for entries of some sessions passing a filter. A service
+   * also matches its numbered replicas, so the services of the sessions are
+   * looked up first and the indexed column compared against those.
+   */
+  private where(sessionIds: string[], filter?: LogFilter, ...conditions: Condition[]): Condition {
+    const placeholders = (values: unknown[]) => values.map(() => '?').join(', ');
+    const clauses = [`session_id IN (${placeholders(sessionIds)})`];
+    const params: SQLInputValue[] = [...sessionIds];
+
+    if (filter?.service) {
+      const services = this.db.prepare(`SELECT DISTINCT service FROM logs WHERE session_id IN (${placeholders(sessionIds)}) AND service IS NOT NULL`)
+        .all(...sessionIds)
+        .map(row => row.service as string)
+        .filter(service => serviceMatches(service, filter.service!));
+      clauses.push(`service IN (${placeholders(services)})`);
+      params.push(...services);
+    }
+    if (filter?.levels) {
+      clauses.push(`level IN (${placeholders(filter.levels)})`);
+      params.push(...filter.levels);
+    }
+    if (filter?.startTime) {
+      clauses.push('timestamp >= ?');
+      params.push(filter.startTime.getTime());
+    }
+    if (filter?.endTime) {
+      clauses.push('timestamp <= ?');
+      params.push(filter.endTime.getTime());
+    }
+    for (const condition of conditions) {
+      clauses.push(condition.sql);
+      params.push(...condition.params);
+    }
+
+    return { sql: clauses.join(' AND '), params };
+  }
+
+  /**
+   * Sequence a cursor points after; -1 without a cursor
+   */
+  private decode(sessionId: string, cursor: string | undefined): number {
+    return cursor === undefined ? -1 : decodeCursor(cursor, sessionId).sequence;
+  }
+
+  private transaction<T>(body: () => T): T {
+    this.db.exec('BEGIN IMMEDIATE');
+    try {
+      const result = body();
+      this.db.exec('COMMIT');
+      return result;
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+}
+
+function chunked<T>(values: T[]): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < values.length; i += MAX_SQL_PARAMS) {
+    chunks.push(values.slice(i, i + MAX_SQL_PARAMS));
+  }
+  return chunks;
+}
+
+/**
+ * A session's part of the terms table
+ */
+class SqliteTermIndex implements TermIndex {
+  private db: DatabaseSync;
+  private sessionId: string;
+
+  constructor(db: DatabaseSync, sessionId: string) {
+    this.db = db;
+    this.sessionId = sessionId;
+  }
+
+  entryCount(): number {
+    return this.db.prepare('SELECT COUNT(*) AS count FROM logs WHERE session_id = ?').get(this.sessionId)!.count as number;
+  }
+
+  totalLength(): number {
+    return this.db.prepare('SELECT COALESCE(SUM(tokens), 0) AS tokens FROM logs WHERE session_id = ?').get(this.sessionId)!.tokens as number;
+  }
+
+  lastSequence(): number {
+    return (this.db.prepare('SELECT MAX(seq) AS seq FROM logs WHERE session_id = ?').get(this.sessionId)!.seq as number | null) ?? -1;
+  }
+
+  sequences(): number[] {
+    return this.db.prepare('SELECT seq FROM logs WHERE session_id = ? ORDER BY seq').all(this.sessionId).map(row => row.seq as number);
+  }
+
+  postings(token: string): Map<number, number> {
+    return new Map(this.db.prepare('SELECT seq, frequency FROM terms WHERE session_id = ? AND token = ?')
+      .all(this.sessionId, token)
+      .map(row => [row.seq as number, row.frequency as number]));
+  }
+
+  tokensWithPrefix(prefix: string): string[] {
+    // Tokens sort after their prefix and before the prefix followed by the highest code point
+    return this.db.prepare('SELECT DISTINCT token FROM terms WHERE session_id = ? AND token >= ? AND token < ?')
+      .all(this.sessionId, prefix, prefix + '\u{10FFFF}')
+      .map(row => row.token as string);
+  }
+
+  entries(sequences: number[]): Map<number, IndexedEntry> {
+    const entries = new Map<number, IndexedEntry>();
+    for (const chunk of chunked(sequences)) {
+      const rows = this.db.prepare(`
+        SELECT seq, timestamp, level, service, tokens FROM logs
+        WHERE session_id = ? AND seq IN (${chunk.map(() => '?').join(', ')})
+      `).all(this.sessionId, ...chunk);
+
+      for (const row of rows) {
+        entries.set(row.seq as number, {
+          sequence: row.seq as number,
+          timestamp: row.timestamp as number,
+          level: row.level as string,
+          service: (row.service as string | null) ?? undefined,
+          length: row.tokens as number
+        });
+      }
+    }
+    return entries;
+  }
+}
+
+/**
+ * Follows the database the way LogTailer follows the data directory, by
+ * polling for rows added since the last poll
+ */
+class SqliteWatcher extends EventEmitter implements StorageWatcher {
+  private db: DatabaseSync;
+  private pollIntervalMs: number;
+  private lastLogId = 0;
+  private sessionStatuses: Map<string, string> = new Map();
+  private pollTimer: NodeJS.Timeout | null = null;
+  private readonly batchSize = 1000;
+
+  constructor(db: DatabaseSync, pollIntervalMs: number = 500) {
+    super();
+    this.db = db;
+    this.pollIntervalMs = pollIntervalMs;
+  }
+
+  start(): void {
+    // Entries written before the server started have already happened;
+    // only alert on what arrives from now on
+    this.lastLogId = (this.db.prepare('SELECT MAX(id) AS id FROM logs').get()!.id as number | null) ?? 0;
+    this.sessionStatuses = this.readSessionStatuses();
+
+    this.pollTimer = setInterval(() => this.poll(), this.pollIntervalMs);
+    this.pollTimer.unref();
+  }
+
+  stop(): void {
+    if (this.pollTimer) {
+      clearInterval(this.pollTimer);
+      this.pollTimer = null;
+    }
+  }
+
+  private poll(): void {
+    try {
+      this.readNewEntries();
+      this.readSessionChanges();
+    } catch (error) {
+      console.error('Failed to poll log database:', error);
+    }
+  }
+
+  private readNewEntries(): void {
+    const select = this.db.prepare('SELECT id, session_id, entry FROM logs WHERE id > ? ORDER BY id LIMIT ?');
+    const appended = new Set<string>();
+
+    let rows;
+    do {
+      rows = select.all(this.lastLogId, this.batchSize);
+      for (const row of rows) {
+        this.lastLogId = row.id as number;
+        appended.add(row.session_id as string);
+        try {
+          this.emit('entry', parseLogEntry(row.entry as string));
+        } catch (error) {
+          console.error('Failed to parse log entry:', error);
+        }
+      }
+    } while (rows.length === this.batchSize);
+
+    for (const sessionId of appended) {
+      this.emit('logsAppended', sessionId);
+    }
+  }
+
+  private readSessionChanges(): void {
+    const statuses = this.readSessionStatuses();
+
+    for (const [sessionId, status] of statuses) {
+      const previous = this.sessionStatuses.get(sessionId);
+      if (previous === undefined) {
+        this.emit('sessionAdded', sessionId);
+      } else if (previous !== status) {
+        this.emit('sessionUpdated', sessionId, status);
+      }
+    }
+
+    for (const sessionId of this.sessionStatuses.keys()) {
+      if (!statuses.has(sessionId)) {
+        this.emit('sessionRemoved', sessionId);
+      }
+    }
+
+    this.sessionStatuses = statuses;
+  }
+
+  private readSessionStatuses(): Map<string, string> {
+    return new Map(this.db.prepare('SELECT id, status FROM sessions').all()
+      .map(row => [row.id as string, row.status as string]));
+  }
+}
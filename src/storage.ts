@@ -0,0 +1,27 @@
+import type { StorageBackend } from './types.js';
+import { FileStorage } from './file-storage.js';
+import { SqliteStorage } from './sqlite-storage.js';
+
+export type StorageKind = 'file' | 'sqlite';
+
+/**
+ * The backend selected with LOGPIPER_STORAGE: `file` (the default) or `sqlite`
+ */
+export function storageKindFromEnv(): StorageKind {
+  const kind = process.env.LOGPIPER_STORAGE?.trim().toLowerCase();
+  if (kind === undefined || kind === '' || kind === 'file') {
+    return 'file';
+  }
+  if (kind === 'sqlite') {
+    return 'sqlite';
+  }
+  throw new Error(`Unknown LOGPIPER_STORAGE "${process.env.LOGPIPER_STORAGE}"; use "file" or "sqlite"`);
+}
+
+/**
+ * Open the storage backend for a data directory. The CLI and the MCP server
+ * only see each other's sessions when they use the same kind.
+ */
+export function createStorage(dataDir: string, kind: StorageKind = storageKindFromEnv()): StorageBackend {
+  return kind === 'sqlite' ? new SqliteStorage(dataDir) : new FileStorage(dataDir);
+}
@@ -0,0 +1,163 @@
+/**
+ * Parsing of structured log lines (JSON loggers and logfmt) at capture time
+ */
+
+export type StructuredLevel = 'info' | 'warn' | 'error';
+
+export interface StructuredLog {
+  format: 'json' | 'logfmt';
+  level?: StructuredLevel;
+  timestamp?: Date;
+  message?: string;
+  fields: Record<string, unknown>;
+}
+
+// Field names used by pino, bunyan, winston, MongoDB, logrus, zap, ECS and similar loggers
+const LEVEL_KEYS = ['level', 'lvl', 'severity', 'log.level', 's', 'loglevel', 'levelname'];
+const TIME_KEYS = ['time', 'timestamp', '@timestamp', 't', 'ts', 'date', 'datetime'];
+const MESSAGE_KEYS = ['msg', 'message', 'event', 'text'];
+
+/**
+ * Parse a JSON log line such as pino, bunyan, winston or MongoDB output
+ */
+export function parseJsonLogLine(line: string): StructuredLog | null {
+  const trimmed = line.trim();
+  if (!trimmed.startsWith('{') || !trimmed.endsWith('}')) {
+    return null;
+  }
+
+  let record: unknown;
+  try {
+    record = JSON.parse(trimmed);
+  } catch {
+    return null;
+  }
+
+  if (!record || typeof record !== 'object' || Array.isArray(record)) {
+    return null;
+  }
+
+  return extractStructuredLog(record as Record<string, unknown>, 'json');
+}
+
+/**
+ * Parse a logfmt line such as `level=warn msg="disk almost full" used=91%`.
+ * The whole line must consist of key=value pairs and name a level or a message,
+ * so prose that merely contains an `=` is not mistaken for logfmt.
+ */
+export function parseLogfmtLine(line: string): StructuredLog | null {
+  const trimmed = line.trim();
+  if (!trimmed.includes('=')) {
+    return null;
+  }
+
+  const pairPattern = /([A-Za-z_@][\w.@\-/]*)=("(?:[^"\\]|\\.)*"|[^\s"]*)(?:\s+|$)/y;
+  const record: Record<string, unknown> = {};
+  let pairCount = 0;
+  pairPattern.lastIndex = 0;
+
+  while (pairPattern.lastIndex < trimmed.length) {
+    const match = pairPattern.exec(trimmed);
+    if (!match) {
+      return null;
+    }
+
+    const rawValue = match[2];
+    record[match[1]] = rawValue.startsWith('"')
+      ? rawValue.slice(1, -1).replace(/\\(.)/g, '$1')
+      : rawValue;
+    pairCount++;
+  }
+
+  const keys = Object.keys(record).map(key => key.toLowerCase());
+  const hasKnownKey = keys.some(key => LEVEL_KEYS.includes(key) || MESSAGE_KEYS.includes(key));
+  if (pairCount < 2 || !hasKnownKey) {
+    return null;
+  }
+
+  return extractStructuredLog(record, 'logfmt');
+}
+
+function extractStructuredLog(record: Record<string, unknown>, format: 'json' | 'logfmt'): StructuredLog {
+  const fields: Record<string, unknown> = {};
+  let level: StructuredLevel | undefined;
+  let timestamp: Date | undefined;
+  let message: string | undefined;
+
+  for (const [key, value] of Object.entries(record)) {
+    const lowerKey = key.toLowerCase();
+
+    // Numeric levels are a pino/bunyan convention; elsewhere a number is just data
+    const isNumericLevel = typeof value === 'number' && (lowerKey === 'level' || lowerKey === 'lvl');
+    if (level === undefined && LEVEL_KEYS.includes(lowerKey) && (typeof value === 'string' || isNumericLevel)) {
+      level = normalizeLevel(value);
+      if (level !== undefined) continue;
+    }
+
+    if (timestamp === undefined && TIME_KEYS.includes(lowerKey)) {
+      timestamp = normalizeTimestamp(value);
+      if (timestamp !== undefined) continue;
+    }
+
+    if (message === undefined && MESSAGE_KEYS.includes(lowerKey) && typeof value === 'string') {
+      message = value;
+      continue;
+    }
+
+    fields[key] = value;
+  }
+
+  return { format, level, timestamp, message, fields };
+}
+
+/**
+ * Map a logger's native level onto the LogEntry levels
+ */
+export function normalizeLevel(value: unknown): StructuredLevel | undefined {
+  if (typeof value === 'number') {
+    // pino and bunyan: 10 trace, 20 debug, 30 info, 40 warn, 50 error, 60 fatal
+    if (value >= 50) return 'error';
+    if (value >= 40) return 'warn';
+    return 'info';
+  }
+
+  if (typeof value !== 'string' || value.length === 0) {
+    return undefined;
+  }
+
+  const lower = value.toLowerCase();
+  if (['fatal', 'panic', 'critical', 'crit', 'emerg', 'emergency', 'alert', 'error', 'err', 'severe', 'e', 'f'].includes(lower)) {
+    return 'error';
+  }
+  if (['warn', 'warning', 'w'].includes(lower)) {
+    return 'warn';
+  }
+  // MongoDB uses I for info and D1-D5 for debug verbosity
+  if (['info', 'information', 'notice', 'debug', 'trace', 'verbose', 'silly', 'fine', 'i'].includes(lower) || /^d\d?$/.test(lower)) {
+    return 'info';
+  }
+
+  return undefined;
+}
+
+function normalizeTimestamp(value: unknown): Date | undefined {
+  // MongoDB wraps dates as {"$date": "..."}
+  if (value && typeof value === 'object' && '$date' in value) {
+    return normalizeTimestamp((value as { $date: unknown }).$date);
+  }
+
+  if (typeof value === 'number') {
+    if (value < 1e9) return undefined; // Too small to be a recent epoch time
+
+    // Epoch seconds (zap, logrus) versus epoch milliseconds (pino, bunyan)
+    const date = new Date(value < 1e11 ? value * 1000 : value);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+
+  if (typeof value === 'string' && /^\d{4}-\d{2}-\d{2}/.test(value)) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? undefined : date;
+  }
+
+  return undefined;
+}
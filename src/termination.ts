@@ -0,0 +1,37 @@
+import type { TerminationReason } from './types.js';
+
+// Signals used to ask a process to shut down, and the matching 128+n exit codes
+// reported when a shell or `script` wrapper sits between logpiper and the process
+const GRACEFUL_SIGNALS = ['SIGINT', 'SIGTERM', 'SIGHUP'];
+const GRACEFUL_EXIT_CODES = [129, 130, 143];
+
+/**
+ * Classify how a process ended from its exit code and terminating signal
+ */
+export function classifyTermination(exitCode: number | null, signal: string | null): TerminationReason {
+  if (signal === 'SIGKILL' || exitCode === 137) {
+    // The kernel OOM killer uses SIGKILL, as do `kill -9` and container runtimes
+    return 'killed_sigkill_possible_oom';
+  }
+
+  if (signal === 'SIGSEGV' || signal === 'SIGBUS' || exitCode === 139 || exitCode === 135) {
+    return 'segfault';
+  }
+
+  if ((signal && GRACEFUL_SIGNALS.includes(signal)) || (exitCode !== null && GRACEFUL_EXIT_CODES.includes(exitCode))) {
+    return 'signal_graceful';
+  }
+
+  if (signal) {
+    return 'signal_other';
+  }
+
+  return exitCode === 0 ? 'success' : 'nonzero_exit';
+}
+
+/**
+ * Whether a termination counts as a clean stop rather than a crash
+ */
+export function isCleanTermination(reason: TerminationReason): boolean {
+  return reason === 'success' || reason === 'signal_graceful';
+}
@@ -0,0 +1,26 @@
+const DURATION_UNITS_MS: Record<string, number> = {
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+};
+
+/**
+ * A time given to a tool or query: `now`, a duration before now such as
+ * `30s`, `10m`, `2h`, `7d` or `1w`, or an ISO 8601 timestamp
+ * @returns ms since the epoch; NaN when the text is not a time
+ */
+export function parseTimeExpression(text: string, now: number = Date.now()): number {
+  const trimmed = text.trim();
+  if (trimmed === 'now') {
+    return now;
+  }
+
+  const duration = /^(\d+(?:\.\d+)?)([smhdw])$/.exec(trimmed);
+  if (duration) {
+    return now - Number(duration[1]) * DURATION_UNITS_MS[duration[2]];
+  }
+
+  return Date.parse(trimmed);
+}
@@ -27,6 +27,13 @@ export class TokenLimiter {
     return Math.ceil(text.length / this.CHARS_PER_TOKEN);
   }
   
+  /**
+   * Whether text fits the token limit without truncation
+   */
+  static fitsLimit(text: string, maxTokens: number = this.MAX_TOKENS): boolean {
+    return this.estimateTokens(text) <= maxTokens;
+  }
+
   /**
    * Limits JSON string to maximum token count, preserving structure where possible
    */
@@ -1,3 +1,5 @@
+import type { EventEmitter } from 'events';
+
 export interface LogEntry {
   id: string;
   sessionId: string;
@@ -6,8 +8,21 @@ export interface LogEntry {
   args: string[];
   timestamp: Date;
   logLevel: 'stdout' | 'stderr' | 'info' | 'error' | 'warn';
+  stream?: 'stdout' | 'stderr'; // Stream the output was captured from
   content: string;
+  raw?: string; // Original output including ANSI escape sequences (pty capture only)
   lineNumber: number;
+  lines?: LogLine[]; // Individual lines of a chunked entry
+  sourceTimestamp?: Date; // Timestamp reported by a structured logger
+  fields?: Record<string, unknown>; // Remaining fields of a structured (JSON or logfmt) line
+  service?: string; // Service prefix of multiplexed output (docker compose, concurrently)
+}
+
+export interface LogLine {
+  content: string;
+  timestamp: Date; // When the line was captured
+  sequence?: number; // Capture order across stdout and stderr within a session
+  level?: 'info' | 'warn' | 'error';
 }
 
 export interface LogSession {
@@ -17,12 +32,20 @@ export interface LogSession {
   args: string[];
   startTime: Date;
   endTime?: Date;
-  status: 'running' | 'stopped' | 'crashed';
+  status: 'running' | 'stopped' | 'crashed' | 'orphaned'; // orphaned: the CLI died without recording an end
   pid?: number;
-  readCursor: number;
-  errorHistory: ErrorEvent[];
+  cliPid?: number; // PID of the logpiper CLI capturing the session
+  heartbeatAt?: Date; // Refreshed periodically while the CLI is alive
+  exitCode?: number | null;
+  signal?: string | null; // Signal that terminated the process, e.g. SIGKILL
+  durationMs?: number;
+  terminationReason?: TerminationReason;
+  readCursor: number; // Entries read by the furthest reader
+  readCursors?: Record<string, string>; // Cursor per named reader (consumerId), kept in <id>.cursors
+  errorHistory: ErrorEvent[]; // Most recent detected errors, kept in <id>.errors
   lastActivity: Date;
-  autoCleanupScheduled?: boolean;
+  ephemeral?: boolean; // Deleted as soon as it finishes (--ephemeral)
+  services?: Record<string, ServiceStats>; // Per-service stats for multiplexed output
   metadata?: {
     commandSignature: string;
     projectName: string;
@@ -31,6 +54,33 @@ export interface LogSession {
   };
 }
 
+export type TerminationReason =
+  | 'success'
+  | 'nonzero_exit'
+  | 'signal_graceful' // SIGINT, SIGTERM or SIGHUP
+  | 'signal_other' // Any other terminating signal, e.g. SIGABRT
+  | 'killed_sigkill_possible_oom'
+  | 'segfault'
+  | 'spawn_error'; // The command could not be started
+
+/**
+ * How a session ended, recorded by a process other than the CLI capturing it
+ */
+export interface SessionEnd {
+  status: 'stopped' | 'orphaned'; // stopped: closed by another CLI; orphaned: its CLI died
+  endTime: Date;
+  heartbeatAt?: Date; // orphaned: last heartbeat seen; a later one means the CLI is alive after all
+}
+
+export interface ServiceStats {
+  entries: number;
+  lines: number;
+  errorCount: number;
+  warningCount: number;
+  firstSeen: Date;
+  lastActivity: Date;
+}
+
 export interface ErrorEvent {
   id: string;
   sessionId: string;
@@ -91,27 +141,96 @@ export interface NotificationPayload {
   };
 }
 
+/**
+ * Sessions in a storage backend. A session is written by the CLI capturing
+ * it; other processes only record how it ended.
+ */
 export interface SessionManager {
-  createSession(projectDir: string, command: string, args: string[]): LogSession;
+  saveSession(session: LogSession): void;
+  hasSession(sessionId: string): boolean;
   getSession(sessionId: string): LogSession | undefined;
   listSessions(): LogSession[];
-  updateSession(sessionId: string, updates: Partial<LogSession>): void;
-  removeSession(sessionId: string): void;
+  /**
+   * Read-modify-write a session. Only the CLI capturing it may call this.
+   * The update is skipped when `update` returns false.
+   * @returns whether the session was updated
+   */
+  updateSession(sessionId: string, update: (session: LogSession) => boolean | void): boolean;
+  /**
+   * Record that a session was closed or orphaned, for processes other than its CLI
+   */
+  recordSessionEnd(sessionId: string, end: SessionEnd): void;
+  removeSession(sessionId: string): SessionRemoval;
+  setReadCursor(sessionId: string, consumerId: string, cursor: string): void;
+  recordErrorEvent(sessionId: string, errorEvent: ErrorEvent): void;
+}
+
+export interface SessionRemoval {
+  sessionDeleted: boolean;
+  logsDeleted: boolean;
+  errors: string[];
 }
 
 export interface PaginationResult<T> {
   data: T[];
   total: number;
-  nextCursor?: number;
-  prevCursor?: number;
+  nextCursor?: string; // Opaque cursor continuing in the direction of the read
+  prevCursor?: string; // Opaque cursor for reading back in the opposite direction
   hasMore: boolean;
   hasPrevious: boolean;
 }
 
+/**
+ * Narrows a log read; limits, totals and cursors count matching entries only
+ */
+export interface LogFilter {
+  service?: string; // Also matches numbered replicas of the service (see serviceMatches)
+  levels?: string[];
+  startTime?: Date;
+  endTime?: Date;
+}
+
+/**
+ * Order of search results: best matches first, weighing relevance and
+ * recency, or capture order
+ */
+export type SearchOrder = 'relevance' | 'time';
+
 export interface LogStorage {
   addLog(entry: LogEntry): void;
-  getNewLogs(sessionId: string, since: number, limit?: number): Promise<PaginationResult<LogEntry>>;
+  getNewLogs(sessionId: string, since?: string, limit?: number, filter?: LogFilter): Promise<PaginationResult<LogEntry>>;
+  getLogsPaginated(sessionId: string, cursor?: string, limit?: number, reverse?: boolean, filter?: LogFilter): Promise<PaginationResult<LogEntry>>;
+  /**
+   * A page of matches for a query (see search-query.ts), in capture order unless ordered by relevance
+   */
+  searchLogs(sessionId: string, query: string, cursor?: string, limit?: number, filter?: LogFilter, order?: SearchOrder): Promise<PaginationResult<LogEntry>>;
+  /**
+   * The best matches across several sessions; ordered by time, the most recent first
+   */
+  searchSessions(sessionIds: string[], query: string, limit?: number, filter?: LogFilter, order?: SearchOrder): Promise<PaginationResult<LogEntry>>;
   getAllLogs(sessionId: string): LogEntry[];
-  searchLogs(sessionId: string, query: string, cursor?: number, limit?: number): Promise<PaginationResult<LogEntry>>;
   getLogCount(sessionId: string): Promise<number>;
-}
\ No newline at end of file
+}
+
+/**
+ * Changes to a storage backend, as events:
+ * - `entry` (LogEntry): a newly added log entry
+ * - `logsAppended` (sessionId): a session's log grew
+ * - `sessionAdded` / `sessionRemoved` (sessionId): a session appeared or disappeared
+ * - `sessionUpdated` (sessionId, status): a session's status changed
+ */
+export interface StorageWatcher extends EventEmitter {
+  start(): void;
+  stop(): void;
+}
+
+/**
+ * Where sessions and their logs are kept. The CLI writes and the MCP server
+ * reads through the same kind of backend (see storage.ts).
+ */
+export interface StorageBackend extends SessionManager, LogStorage {
+  readonly location: string; // Directory or database file, for messages
+  getDiskUsage(sessionId: string): number;
+  removeAllSessions(): { deletedSessions: number; deletedLogFiles: number; errors: string[] };
+  watch(): StorageWatcher;
+}
@@ -0,0 +1,104 @@
+/**
+ * The MCP server run as a child process for tests, spoken to over stdio
+ * with newline-delimited JSON-RPC
+ */
+
+import { spawn } from 'child_process';
+
+export class McpTestServer {
+  /**
+   * @param requestTimeoutMs How long a request may take; raise it for long-polling tools
+   */
+  constructor(requestTimeoutMs = 10000) {
+    this.requestTimeoutMs = requestTimeoutMs;
+    this.process = null;
+    this.pendingRequests = new Map();
+    this.nextRequestId = 1;
+    this.notificationHandlers = [];
+  }
+
+  /**
+   * Spawn dist/server.js and complete the initialize handshake
+   */
+  async start(clientName) {
+    this.process = spawn('node', ['dist/server.js'], {
+      cwd: process.cwd(),
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+
+    let buffer = '';
+    this.process.stdout.on('data', (data) => {
+      buffer += data.toString();
+      let newline;
+      while ((newline = buffer.indexOf('\n')) !== -1) {
+        const line = buffer.slice(0, newline);
+        buffer = buffer.slice(newline + 1);
+        this.handleMessage(line);
+      }
+    });
+    this.process.stderr.on('data', () => {});
+
+    return this.request('initialize', {
+      protocolVersion: '2025-06-18',
+      capabilities: {},
+      clientInfo: { name: clientName, version: '1.0.0' }
+    });
+  }
+
+  /**
+   * Call a handler with each notification the server sends
+   */
+  onNotification(handler) {
+    this.notificationHandlers.push(handler);
+  }
+
+  handleMessage(line) {
+    let message;
+    try {
+      message = JSON.parse(line);
+    } catch {
+      return; // Ignore non-JSON output
+    }
+
+    if (message.id === undefined) {
+      this.notificationHandlers.forEach(handler => handler(message));
+      return;
+    }
+
+    const pending = this.pendingRequests.get(message.id);
+    if (pending) {
+      this.pendingRequests.delete(message.id);
+      pending(message);
+    }
+  }
+
+  request(method, params) {
+    const id = this.nextRequestId++;
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => reject(new Error(`Timed out waiting for ${method}`)), this.requestTimeoutMs);
+      this.pendingRequests.set(id, (message) => {
+        clearTimeout(timeout);
+        if (message.error) {
+          reject(new Error(message.error.message));
+        } else {
+          resolve(message.result);
+        }
+      });
+      this.process.stdin.write(JSON.stringify({ jsonrpc: '2.0', id, method, params }) + '\n');
+    });
+  }
+
+  /**
+   * Call a tool and parse its JSON response
+   */
+  async callTool(name, args) {
+    const result = await this.request('tools/call', { name, arguments: args });
+    return JSON.parse(result.content[0].text);
+  }
+
+  stop() {
+    if (this.process && !this.process.killed) {
+      this.process.kill('SIGKILL');
+    }
+  }
+}
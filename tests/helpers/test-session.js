@@ -0,0 +1,69 @@
+/**
+ * A session written straight to the data directory, as a CLI would, for
+ * tests that read it through the server or the storage layer
+ */
+
+import { rmSync } from 'fs';
+import { LogManager } from '../../dist/log-manager.js';
+import { SessionStore } from '../../dist/session-store.js';
+
+export class TestSession {
+  constructor(sessionId, store = new SessionStore(new LogManager().getDataDir())) {
+    this.id = sessionId;
+    this.store = store;
+    this.session = null;
+    this.lineNumber = 0;
+  }
+
+  /**
+   * Write the session file with a status and any other fields to set
+   */
+  write(status, fields = {}) {
+    this.session = {
+      id: this.id,
+      projectDir: process.cwd(),
+      command: 'test',
+      args: [],
+      startTime: this.session?.startTime ?? new Date(),
+      status,
+      readCursor: 0,
+      errorHistory: [],
+      lastActivity: new Date(),
+      ...fields
+    };
+    this.store.writeSession(this.session);
+  }
+
+  /**
+   * Append an entry; errors go to stderr unless `fields` says otherwise
+   */
+  append(level, content, fields = {}) {
+    const lineNumber = this.lineNumber++;
+    this.store.appendLog({
+      id: `${this.id}_${lineNumber}`,
+      sessionId: this.id,
+      projectDir: process.cwd(),
+      command: 'test',
+      args: [],
+      timestamp: new Date(),
+      logLevel: level,
+      stream: level === 'error' ? 'stderr' : 'stdout',
+      content,
+      lineNumber,
+      ...fields
+    });
+  }
+
+  remove() {
+    removeSessionFiles(this.store, this.id);
+  }
+}
+
+/**
+ * Delete every file and directory kept for a session
+ */
+export function removeSessionFiles(store, sessionId) {
+  for (const file of store.sessionFiles(sessionId)) {
+    rmSync(file, { recursive: true, force: true });
+  }
+}
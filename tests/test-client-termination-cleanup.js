@@ -2,6 +2,7 @@
 
 /**
  * Test to verify that logpiper client termination automatically cleans up session files
+ * of --ephemeral sessions
  */
 
 import { spawn } from 'child_process';
@@ -129,7 +130,7 @@ class ClientTerminationCleanupTest {
   startSession(command, args, sessionName) {
     console.log(`  🔸 Starting ${sessionName}: ${command} ${args.join(' ')}`);
     
-    const childProcess = spawn('node', ['dist/cli.js', command, ...args], {
+    const childProcess = spawn('node', ['dist/cli.js', '--ephemeral', command, ...args], {
       cwd: process.cwd(),
       stdio: ['pipe', 'pipe', 'pipe'],
       shell: process.platform === 'win32'
@@ -0,0 +1,191 @@
+#!/usr/bin/env node
+
+/**
+ * Test that pagination cursors keep their position when the start of a log is
+ * dropped: forward, reverse and search pages continue without skipping or
+ * repeating entries, with the byte offset index stale or removed.
+ * Cursors of another session or of an unknown version are rejected.
+ */
+
+import { readFileSync, unlinkSync, writeFileSync } from 'fs';
+import { LogManager } from '../dist/log-manager.js';
+import { SessionStore } from '../dist/session-store.js';
+import { cursorAfter, InvalidCursorError } from '../dist/cursor.js';
+import { removeSessionFiles } from './helpers/test-session.js';
+
+const TOTAL_ENTRIES = 50;
+const DROPPED_ENTRIES = 10;
+const PAGE_SIZE = 7;
+
+class CursorPaginationTest {
+  constructor() {
+    this.logManager = new LogManager();
+    this.store = new SessionStore(this.logManager.getDataDir());
+    this.sessionId = 'test_cursor_pagination_' + Date.now();
+  }
+
+  async runTest() {
+    console.log('🧪 Cursor pagination test starting...\n');
+
+    try {
+      this.createSession();
+      console.log(`✅ Created test session with ${TOTAL_ENTRIES} entries: ${this.sessionId}`);
+
+      // Cursors taken before the truncation, one past and one before the dropped entries
+      const forwardPages = await this.pageForward(undefined, 3);
+      const forwardCursor = forwardPages.cursor;
+      const staleCursor = cursorAfter(this.sessionId, 4);
+      const reversePages = await this.pageReverse(undefined, 2);
+      const searchPages = await this.pageSearch(undefined, 2);
+
+      console.log(`✂️  Dropping the first ${DROPPED_ENTRIES} entries (index left stale)...`);
+      this.dropFirstEntries();
+
+      const forwardStale = await this.pageForward(forwardCursor);
+      const reverseStale = await this.pageReverse(reversePages.cursor);
+      const searchStale = await this.pageSearch(searchPages.cursor);
+      const behindStale = await this.pageForward(staleCursor);
+
+      console.log('🗑️  Removing the index...');
+      unlinkSync(this.store.indexPath(this.sessionId));
+
+      const forwardUnindexed = await this.pageForward(forwardCursor);
+      const reverseUnindexed = await this.pageReverse(reversePages.cursor);
+
+      const range = (from, to) => Array.from({ length: to - from }, (_, i) => from + i);
+      const forwardExpected = [...forwardPages.seen, ...range(forwardPages.seen.length, TOTAL_ENTRIES)].join(',');
+      const reverseExpected = [...reversePages.seen, ...range(DROPPED_ENTRIES, TOTAL_ENTRIES - reversePages.seen.length).reverse()].join(',');
+      const searchExpected = range(0, TOTAL_ENTRIES).filter(i => i % 3 === 0);
+      const remainingSearch = searchExpected.filter(i => i > searchPages.seen[searchPages.seen.length - 1]);
+
+      const forwardContinues = [...forwardPages.seen, ...forwardStale.seen].join(',') === forwardExpected &&
+        [...forwardPages.seen, ...forwardUnindexed.seen].join(',') === forwardExpected;
+      const reverseContinues = [...reversePages.seen, ...reverseStale.seen].join(',') === reverseExpected &&
+        [...reversePages.seen, ...reverseUnindexed.seen].join(',') === reverseExpected;
+      const searchContinues = [...searchPages.seen, ...searchStale.seen].join(',') ===
+        [...searchPages.seen, ...remainingSearch].join(',');
+      const behindContinues = behindStale.seen.join(',') === range(DROPPED_ENTRIES, TOTAL_ENTRIES).join(',');
+
+      console.log('🚫 Passing foreign and unsupported cursors...');
+      const foreignRejected = await this.rejects(cursorAfter('another_session', 10));
+      const versionRejected = await this.rejects('lp0.' + Buffer.from('[0]').toString('base64url'));
+      const garbageRejected = await this.rejects('not a cursor');
+
+      console.log('\n📊 Test Results:');
+      console.log(`  🔸 Forward: [${forwardPages.seen}] then [${forwardStale.seen}]`);
+      console.log(`  🔸 Reverse: [${reversePages.seen}] then [${reverseStale.seen}]`);
+      console.log(`  🔸 Search: [${searchPages.seen}] then [${searchStale.seen}]`);
+      console.log(`  🔸 Cursor inside dropped entries: [${behindStale.seen}]`);
+      console.log(`  🔸 Forward pages continue after truncation: ${forwardContinues}`);
+      console.log(`  🔸 Reverse pages continue after truncation: ${reverseContinues}`);
+      console.log(`  🔸 Search pages continue after truncation: ${searchContinues}`);
+      console.log(`  🔸 Cursor inside dropped entries resumes at the oldest kept entry: ${behindContinues}`);
+      console.log(`  🔸 Rejected foreign / unsupported / malformed cursors: ${foreignRejected} / ${versionRejected} / ${garbageRejected}`);
+
+      if (forwardContinues && reverseContinues && searchContinues && behindContinues &&
+          foreignRejected && versionRejected && garbageRejected) {
+        console.log('\n🎉 TEST PASSED: Cursors survive truncation!');
+        return true;
+      } else {
+        console.log('\n❌ TEST FAILED: Cursors lost their position');
+        return false;
+      }
+
+    } catch (error) {
+      console.error('❌ Test failed:', error);
+      return false;
+    } finally {
+      this.cleanup();
+    }
+  }
+
+  createSession() {
+    this.store.writeSession({
+      id: this.sessionId,
+      projectDir: process.cwd(),
+      command: 'test',
+      args: [],
+      startTime: new Date(),
+      status: 'stopped',
+      readCursor: 0,
+      errorHistory: [],
+      lastActivity: new Date()
+    });
+
+    for (let i = 0; i < TOTAL_ENTRIES; i++) {
+      this.store.appendLog({
+        id: `${this.sessionId}_${i}`,
+        sessionId: this.sessionId,
+        projectDir: process.cwd(),
+        command: 'test',
+        args: [],
+        timestamp: new Date(Date.now() + i),
+        logLevel: 'info',
+        stream: 'stdout',
+        content: i % 3 === 0 ? `Match entry ${i}` : `Other entry ${i}`,
+        lineNumber: i
+      });
+    }
+  }
+
+  /**
+   * Drop the oldest entries the way a size-capped log would, leaving the index untouched
+   */
+  dropFirstEntries() {
+    const logsFile = this.store.logsPath(this.sessionId);
+    const lines = readFileSync(logsFile, 'utf8').split('\n');
+    writeFileSync(logsFile, lines.slice(DROPPED_ENTRIES).join('\n'));
+  }
+
+  async pageForward(cursor, maxPages = Infinity) {
+    return this.page(cursor, maxPages, c => this.logManager.getLogsPaginated(this.sessionId, c, PAGE_SIZE));
+  }
+
+  async pageReverse(cursor, maxPages = Infinity) {
+    return this.page(cursor, maxPages, c => this.logManager.getLogsPaginated(this.sessionId, c, PAGE_SIZE, true));
+  }
+
+  async pageSearch(cursor, maxPages = Infinity) {
+    return this.page(cursor, maxPages, c => this.logManager.searchLogs(this.sessionId, 'Match', c, PAGE_SIZE));
+  }
+
+  /**
+   * Follow nextCursor until there are no more pages
+   */
+  async page(cursor, maxPages, read) {
+    const seen = [];
+    for (let pages = 0; pages < maxPages; pages++) {
+      const result = await read(cursor);
+      seen.push(...result.data.map(entry => entry.lineNumber));
+      if (!result.hasMore) break;
+      cursor = result.nextCursor;
+    }
+    return { seen, cursor };
+  }
+
+  async rejects(cursor) {
+    try {
+      await this.logManager.getLogsPaginated(this.sessionId, cursor, PAGE_SIZE);
+      return false;
+    } catch (error) {
+      return error instanceof InvalidCursorError;
+    }
+  }
+
+  cleanup() {
+    console.log('\n🧹 Cleaning up...');
+
+    removeSessionFiles(this.store, this.sessionId);
+
+    console.log('✅ Cleanup complete');
+  }
+}
+
+// Run the test
+const test = new CursorPaginationTest();
+test.runTest().then(success => {
+  process.exit(success ? 0 : 1);
+}).catch(error => {
+  console.error('Test execution failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,96 @@
+#!/usr/bin/env node
+
+/**
+ * Test for severity inference on plain-text lines: the built-in rules for
+ * common formats, the earliest level in a line winning, stack frames taking
+ * the level of the line above, and custom rules from --level-rules.
+ */
+
+import { LevelClassifier } from '../dist/level-classifier.js';
+
+const CASES = [
+  ['src/app.ts:12:5 - error TS2345: Argument of type', 'error'],
+  ['src/app.ts(12,5): error TS2345: Argument of type', 'error'],
+  ["main.c:3:10: warning: unused variable 'x'", 'warn'],
+  ['error[E0382]: borrow of moved value', 'error'],
+  ['panic: runtime error: index out of range', 'error'],
+  ['Traceback (most recent call last):', 'error'],
+  ["TypeError: Cannot read properties of undefined (reading 'id')", 'error'],
+  ['E/ActivityManager( 1234): ANR in com.example', 'error'],
+  ['W0102 15:04:05.000000 1 main.go:10] slow request', 'warn'],
+  ['[WARN] deprecated option', 'warn'],
+  ['2024-01-01 12:00:00,123 ERROR [main] c.f.App - failed', 'error'],
+  ['npm ERR! code ELIFECYCLE', 'error'],
+  ['Warning - cache disabled', 'warn'],
+  ['INFO: 3 errors fixed', 'info'], // The earliest level wins over a later "errors"
+  ['Server listening on port 3000', 'info'],
+  ['0 errors, 0 warnings', 'info'],
+];
+
+class LevelClassifierTest {
+  async runTest() {
+    console.log('🧪 Level classifier test starting...\n');
+
+    try {
+      console.log('📊 Test Results:');
+
+      const classifier = new LevelClassifier();
+      const wrong = CASES.filter(([line, level]) => classifier.classify(line) !== level);
+      for (const [line, level] of wrong) {
+        console.log(`  ❌ ${JSON.stringify(line)}: expected ${level}, got ${classifier.classify(line)}`);
+      }
+      const builtIn = wrong.length === 0;
+      console.log(`  🔸 Built-in rules classify ${CASES.length - wrong.length}/${CASES.length} lines: ${builtIn}`);
+
+      const frames = classifier.classify('    at Object.<anonymous> (/app/index.js:3:9)', 'error') === 'error' &&
+        classifier.classify('  File "app.py", line 3, in <module>', 'error') === 'error' &&
+        classifier.classify('    at Object.<anonymous> (/app/index.js:3:9)', 'info') === 'info' &&
+        classifier.classify('next request', 'error') === 'info';
+      console.log(`  🔸 Stack frames inherit the level above, other lines do not: ${frames}`);
+
+      const rules = LevelClassifier.parseRules([
+        { name: 'flaky', pattern: '^FLAKY', level: 'warn' },
+        { pattern: 'deprecated', flags: 'i', level: 'info' },
+      ]);
+      const custom = new LevelClassifier(rules);
+      const customFirst = custom.classify('FLAKY test failed, retrying') === 'warn' &&
+        custom.classify('[WARN] Deprecated option') === 'info' &&
+        custom.classify('[ERROR] boom') === 'error' &&
+        rules[1].name === 'custom_1';
+      const onlyCustom = new LevelClassifier(rules, false).classify('[ERROR] boom') === 'info';
+      console.log(`  🔸 Custom rules win over the built-in ones: ${customFirst && onlyCustom}`);
+
+      let invalidRejected = 0;
+      for (const config of [{ pattern: 'x', level: 'fatal' }, { pattern: '(unclosed', level: 'error' }]) {
+        try {
+          LevelClassifier.parseRules([config]);
+        } catch {
+          invalidRejected++;
+        }
+      }
+      const rejected = invalidRejected === 2;
+      console.log(`  🔸 Invalid levels and patterns rejected: ${rejected}`);
+
+      if (builtIn && frames && customFirst && onlyCustom && rejected) {
+        console.log('\n🎉 TEST PASSED: Plain-text lines get their severity!');
+        return true;
+      } else {
+        console.log('\n❌ TEST FAILED: Severity inference is wrong');
+        return false;
+      }
+
+    } catch (error) {
+      console.error('❌ Test failed:', error);
+      return false;
+    }
+  }
+}
+
+// Run the test
+const test = new LevelClassifierTest();
+test.runTest().then(success => {
+  process.exit(success ? 0 : 1);
+}).catch(error => {
+  console.error('Test execution failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,86 @@
+#!/usr/bin/env node
+
+/**
+ * Test for LineAssembler: lines split across chunks are emitted once, also
+ * inside multi-byte characters, carriage returns rewrite the line the way a
+ * terminal does, and an unterminated last line is returned on flush.
+ */
+
+import { LineAssembler } from '../dist/line-assembler.js';
+
+class LineAssemblerTest {
+  async runTest() {
+    console.log('🧪 Line assembler test starting...\n');
+
+    try {
+      console.log('📊 Test Results:');
+
+      const chunked = new LineAssembler();
+      const chunkLines = [
+        ...chunked.push('Compiling sr'),
+        ...chunked.push('c/index.ts\nDone in '),
+        ...chunked.push('1.2s\n'),
+      ];
+      const joined = chunkLines.join('|') === 'Compiling src/index.ts|Done in 1.2s';
+      console.log(`  🔸 Lines split across chunks emitted once: ${joined}`);
+
+      // "✓ passed" with the check mark's three bytes split over two chunks
+      const bytes = Buffer.from('✓ passed\n');
+      const utf8 = new LineAssembler();
+      const utf8Lines = [...utf8.push(bytes.subarray(0, 1)), ...utf8.push(bytes.subarray(1))];
+      const decoded = utf8Lines.length === 1 && utf8Lines[0] === '✓ passed';
+      console.log(`  🔸 Multi-byte characters split across chunks decoded: ${decoded}`);
+
+      const progress = new LineAssembler();
+      const progressLines = [
+        ...progress.push('Downloading  10%\r'),
+        ...progress.push('Downloading  55%\rDownloading 100%\n'),
+      ];
+      const collapsed = progressLines.join('|') === 'Downloading 100%';
+      console.log(`  🔸 Progress rewritten with \\r collapses into its final state: ${collapsed}`);
+
+      // A shorter rewrite leaves the end of the longer text, as on a terminal
+      const overwrite = new LineAssembler();
+      const overwritten = overwrite.push('Loading...\rDone\n').join('|') === 'Doneing...';
+      const windows = new LineAssembler().push('first\r\nsecond\r\n').join('|') === 'first|second';
+      console.log(`  🔸 Partial rewrites and \\r\\n line endings handled: ${overwritten && windows}`);
+
+      const colored = new LineAssembler();
+      const spinner = colored.push('\x1b[36m⠋\x1b[0m building\r\x1b[32m✓\x1b[0m built\n');
+      const ansiRewrite = spinner.join('|') === '\x1b[32m✓\x1b[0m built';
+      console.log(`  🔸 Rewrites with escape sequences replace the whole line: ${ansiRewrite}`);
+
+      const partial = new LineAssembler();
+      const pending = partial.push('no trailing newline');
+      const flushed = partial.flush();
+      const flushedPartial = pending.length === 0 && flushed.join('|') === 'no trailing newline' && partial.flush().length === 0;
+      console.log(`  🔸 Unterminated last line returned on flush: ${flushedPartial}`);
+
+      const bounded = new LineAssembler(16);
+      const boundedLines = bounded.push('x'.repeat(20));
+      const capped = boundedLines.length === 1 && boundedLines[0].length === 20 && bounded.flush().length === 0;
+      console.log(`  🔸 Output that never ends a line is emitted past the limit: ${capped}`);
+
+      if (joined && decoded && collapsed && overwritten && windows && ansiRewrite && flushedPartial && capped) {
+        console.log('\n🎉 TEST PASSED: Output is framed into lines correctly!');
+        return true;
+      } else {
+        console.log('\n❌ TEST FAILED: Line framing is wrong');
+        return false;
+      }
+
+    } catch (error) {
+      console.error('❌ Test failed:', error);
+      return false;
+    }
+  }
+}
+
+// Run the test
+const test = new LineAssemblerTest();
+test.runTest().then(success => {
+  process.exit(success ? 0 : 1);
+}).catch(error => {
+  console.error('Test execution failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,175 @@
+#!/usr/bin/env node
+
+/**
+ * Test for segmented log storage: a session written with small segments is
+ * rotated into compressed segments, the oldest are evicted down to their
+ * error entries to stay within the session budget, and reads, searches and
+ * cursors work across all segments as if the log were a single file.
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { gunzipSync } from 'zlib';
+import { LogManager } from '../dist/log-manager.js';
+import { SessionStore } from '../dist/session-store.js';
+import { readSegmentManifest, segmentPathFor } from '../dist/log-segments.js';
+import { removeSessionFiles } from './helpers/test-session.js';
+
+const TOTAL_ENTRIES = 600;
+const ERROR_EVERY = 25;
+const PAGE_SIZE = 40;
+
+class LogSegmentsTest {
+  constructor() {
+    this.logManager = new LogManager();
+    this.store = new SessionStore(this.logManager.getDataDir(), {
+      maxSegmentBytes: 8 * 1024,
+      maxSegmentAgeMs: 60 * 60 * 1000,
+      maxSessionBytes: 12 * 1024
+    });
+    this.sessionId = 'test_log_segments_' + Date.now();
+    this.startTime = Date.now();
+  }
+
+  async runTest() {
+    console.log('🧪 Log segments test starting...\n');
+
+    try {
+      this.store.writeSession({
+        id: this.sessionId,
+        projectDir: process.cwd(),
+        command: 'test',
+        args: [],
+        startTime: new Date(),
+        status: 'running',
+        readCursor: 0,
+        errorHistory: [],
+        lastActivity: new Date()
+      });
+
+      // A reader follows the first half before the oldest segments are evicted
+      this.appendEntries(0, TOTAL_ENTRIES / 2);
+      const follower = await this.follow(undefined);
+      this.appendEntries(TOTAL_ENTRIES / 2, TOTAL_ENTRIES);
+      const followerRest = await this.follow(follower.cursor);
+
+      const logsFile = this.store.logsPath(this.sessionId);
+      const manifest = readSegmentManifest(logsFile);
+      const compacted = manifest.segments.filter(info => info.compacted);
+      const segmentsCompressed = manifest.segments.every(info =>
+        gunzipSync(readFileSync(segmentPathFor(logsFile, info.segment))).length > 0);
+
+      // Entries of compacted segments are gone unless they are errors
+      const inCompacted = (sequence) => compacted.some(info => sequence >= info.firstSequence && sequence <= info.lastSequence);
+      const expected = Array.from({ length: TOTAL_ENTRIES }, (_, i) => i)
+        .filter(i => !inCompacted(i) || this.isError(i));
+      const expectedErrors = expected.filter(i => this.isError(i));
+
+      const forward = await this.pageAll(cursor => this.logManager.getLogsPaginated(this.sessionId, cursor, PAGE_SIZE));
+      const reverse = await this.pageAll(cursor => this.logManager.getLogsPaginated(this.sessionId, cursor, PAGE_SIZE, true));
+      const errors = await this.pageAll(cursor => this.logManager.searchLogs(this.sessionId, 'Failure', cursor, PAGE_SIZE));
+      const inRange = await this.pageAll(cursor => this.logManager.getLogsByTimeRangePaginated(
+        this.sessionId, new Date(this.startTime + 100), new Date(this.startTime + 199), cursor, PAGE_SIZE));
+      const count = await this.logManager.getLogCount(this.sessionId);
+      const diskUsage = this.store.sessionFiles(this.sessionId)
+        .filter(file => file.includes('.logs'))
+        .reduce((sum, file) => sum + (existsSync(file) ? readFileSync(file).length : 0), 0);
+
+      const forwardComplete = forward.join(',') === expected.join(',');
+      const reverseComplete = reverse.join(',') === [...expected].reverse().join(',');
+      const errorsKept = errors.join(',') === expectedErrors.join(',');
+      const rangeComplete = inRange.join(',') === expected.filter(i => i >= 100 && i <= 199).join(',');
+      const followerComplete = [...follower.seen, ...followerRest.seen].join(',') ===
+        Array.from({ length: TOTAL_ENTRIES }, (_, i) => i).filter(i => i < TOTAL_ENTRIES / 2 || expected.includes(i)).join(',');
+
+      console.log('📊 Test Results:');
+      console.log(`  🔸 Closed segments: ${manifest.segments.length}, compacted: ${compacted.length}, next segment: ${manifest.nextSegment}`);
+      console.log(`  🔸 Closed segments are gzip files: ${segmentsCompressed}`);
+      console.log(`  🔸 Log bytes on disk: ${diskUsage} (written uncompressed: ~${TOTAL_ENTRIES * 300})`);
+      console.log(`  🔸 Entries kept: ${expected.length}/${TOTAL_ENTRIES}, counted: ${count}`);
+      console.log(`  🔸 Forward pages read every kept entry in order: ${forwardComplete}`);
+      console.log(`  🔸 Reverse pages read every kept entry in order: ${reverseComplete}`);
+      console.log(`  🔸 Every error survived eviction and is searchable: ${errorsKept} (${errors.length})`);
+      console.log(`  🔸 Time range across segments: ${rangeComplete}`);
+      console.log(`  🔸 Follower continued across rotation and eviction: ${followerComplete}`);
+
+      if (manifest.segments.length > 1 && compacted.length > 0 && segmentsCompressed && count === expected.length &&
+          forwardComplete && reverseComplete && errorsKept && rangeComplete && followerComplete) {
+        console.log('\n🎉 TEST PASSED: Segmented storage reads as one log!');
+        return true;
+      } else {
+        console.log('\n❌ TEST FAILED: Segmented storage lost or reordered entries');
+        return false;
+      }
+
+    } catch (error) {
+      console.error('❌ Test failed:', error);
+      return false;
+    } finally {
+      this.cleanup();
+    }
+  }
+
+  isError(sequence) {
+    return sequence % ERROR_EVERY === 0;
+  }
+
+  appendEntries(from, to) {
+    for (let i = from; i < to; i++) {
+      const error = this.isError(i);
+      this.store.appendLog({
+        id: `${this.sessionId}_${i}`,
+        sessionId: this.sessionId,
+        projectDir: process.cwd(),
+        command: 'test',
+        args: [],
+        timestamp: new Date(this.startTime + i),
+        logLevel: error ? 'error' : 'info',
+        stream: error ? 'stderr' : 'stdout',
+        content: error ? `Failure ${i}: request timed out` : `Served request ${i} in ${i % 97}ms with status 200`,
+        lineNumber: i
+      });
+    }
+  }
+
+  /**
+   * Read new entries from a cursor until caught up, as get_new_logs does
+   */
+  async follow(cursor) {
+    const seen = [];
+    while (true) {
+      const result = await this.logManager.getNewLogs(this.sessionId, cursor, PAGE_SIZE);
+      cursor = result.nextCursor;
+      seen.push(...result.data.map(entry => entry.lineNumber));
+      if (result.data.length === 0) break;
+    }
+    return { seen, cursor };
+  }
+
+  async pageAll(read) {
+    const seen = [];
+    let cursor;
+    do {
+      const result = await read(cursor);
+      seen.push(...result.data.map(entry => entry.lineNumber));
+      cursor = result.hasMore ? result.nextCursor : undefined;
+    } while (cursor);
+    return seen;
+  }
+
+  cleanup() {
+    console.log('\n🧹 Cleaning up...');
+
+    removeSessionFiles(this.store, this.sessionId);
+
+    console.log('✅ Cleanup complete');
+  }
+}
+
+// Run the test
+const test = new LogSegmentsTest();
+test.runTest().then(success => {
+  process.exit(success ? 0 : 1);
+}).catch(error => {
+  console.error('Test execution failed:', error);
+  process.exit(1);
+});
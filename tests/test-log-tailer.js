@@ -0,0 +1,115 @@
+#!/usr/bin/env node
+
+/**
+ * Test for LogTailer, which feeds what CLIs capture to error detection:
+ * entries written before it starts are not replayed, later ones are emitted
+ * once each and in order, also when the CLI closes the segment being read,
+ * and a line still being written is emitted only once it is complete.
+ */
+
+import { appendFileSync, mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { listSegmentFiles } from '../dist/log-segments.js';
+import { LogTailer } from '../dist/log-tailer.js';
+import { SessionStore } from '../dist/session-store.js';
+import { TestSession } from './helpers/test-session.js';
+
+const POLL_MS = 100;
+const ROTATED_ENTRIES = 60;
+
+class LogTailerTest {
+  constructor() {
+    this.dataDir = mkdtempSync(join(tmpdir(), 'logpiper-tailer-test-'));
+    // Segments this small are closed every few entries
+    this.store = new SessionStore(this.dataDir, { maxSegmentBytes: 2048 });
+    this.tailer = new LogTailer(this.dataDir, POLL_MS);
+    this.entries = [];
+    this.added = [];
+  }
+
+  async runTest() {
+    console.log('🧪 Log tailer test starting...\n');
+
+    try {
+      const existing = new TestSession('tailer_existing', this.store);
+      existing.write('running');
+      existing.append('error', 'written before the tailer started');
+
+      this.tailer.on('entry', entry => this.entries.push(entry));
+      this.tailer.on('sessionAdded', sessionId => this.added.push(sessionId));
+      this.tailer.start();
+
+      existing.append('info', 'existing 1');
+      existing.append('error', 'existing 2');
+      await this.settle();
+      const resumed = this.contents('tailer_existing').join(',') === 'existing 1,existing 2';
+      console.log(`  🔸 Only entries written after start are emitted: ${resumed}`);
+
+      const rotating = new TestSession('tailer_rotating', this.store);
+      rotating.write('running');
+      for (let i = 0; i < ROTATED_ENTRIES; i++) {
+        rotating.append('info', `rotating ${i} ${'x'.repeat(100)}`);
+        if (i % 7 === 0) await this.settle();
+      }
+      await this.settle();
+      const sequences = this.entries.filter(entry => entry.sessionId === 'tailer_rotating').map(entry => entry.lineNumber);
+      const expected = Array.from({ length: ROTATED_ENTRIES }, (_, i) => i).join(',');
+      const segments = listSegmentFiles(this.store.logsPath('tailer_rotating')).length;
+      const rotated = sequences.join(',') === expected && segments > 0 && this.added.includes('tailer_rotating');
+      console.log(`  🔸 New session read once and in order across ${segments} segments: ${rotated} (${sequences.length}/${ROTATED_ENTRIES})`);
+
+      // A CLI interrupted midway through appending a line
+      const line = JSON.stringify({
+        id: 'tailer_existing_3', sessionId: 'tailer_existing', projectDir: process.cwd(), command: 'test', args: [],
+        timestamp: new Date(), logLevel: 'info', stream: 'stdout', content: 'split write', lineNumber: 3
+      }) + '\n';
+      const logsPath = this.store.logsPath('tailer_existing');
+      appendFileSync(logsPath, line.slice(0, 40));
+      await this.settle();
+      const beforeNewline = this.contents('tailer_existing').length;
+      appendFileSync(logsPath, line.slice(40));
+      await this.settle();
+      const partial = beforeNewline === 2 && this.contents('tailer_existing').join(',') === 'existing 1,existing 2,split write';
+      console.log(`  🔸 A partly written line is emitted once complete: ${partial}`);
+
+      if (resumed && rotated && partial) {
+        console.log('\n🎉 TEST PASSED: The tailer follows captured output!');
+        return true;
+      } else {
+        console.log('\n❌ TEST FAILED: The tailer missed or repeated entries');
+        return false;
+      }
+
+    } catch (error) {
+      console.error('❌ Test failed:', error);
+      return false;
+    } finally {
+      this.cleanup();
+    }
+  }
+
+  contents(sessionId) {
+    return this.entries.filter(entry => entry.sessionId === sessionId).map(entry => entry.content);
+  }
+
+  settle() {
+    return new Promise(resolve => setTimeout(resolve, POLL_MS * 3));
+  }
+
+  cleanup() {
+    console.log('\n🧹 Cleaning up...');
+    this.tailer.stop();
+    rmSync(this.dataDir, { recursive: true, force: true });
+    console.log('✅ Cleanup complete');
+  }
+}
+
+// Run the test
+const test = new LogTailerTest();
+test.runTest().then(success => {
+  process.exit(success ? 0 : 1);
+}).catch(error => {
+  console.error('Test execution failed:', error);
+  process.exit(1);
+});
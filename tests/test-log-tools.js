@@ -0,0 +1,88 @@
+#!/usr/bin/env node
+
+/**
+ * Test for the log reading tools: get_logs_paginated, get_logs_by_time,
+ * get_logs_by_level and get_timeline return each entry's content once,
+ * without its per-line breakdown or the ANSI original.
+ */
+
+import { McpTestServer } from './helpers/mcp-test-server.js';
+import { TestSession } from './helpers/test-session.js';
+
+const ENTRIES = 12;
+
+class LogToolsTest {
+  constructor() {
+    this.session = new TestSession('test_log_tools_' + Date.now());
+    this.server = new McpTestServer();
+  }
+
+  async runTest() {
+    console.log('🧪 Log tools test starting...\n');
+
+    try {
+      this.session.write('running');
+      for (let i = 0; i < ENTRIES; i++) {
+        const level = i % 3 === 0 ? 'error' : 'info';
+        const content = `step ${i}\nstep ${i} done`;
+        const timestamp = new Date();
+        this.session.append(level, content, {
+          raw: `\u001b[32mstep ${i}\u001b[0m\nstep ${i} done`,
+          lines: content.split('\n').map((line, n) => ({ content: line, timestamp, sequence: i * 2 + n, level }))
+        });
+      }
+
+      console.log('🚀 Starting MCP server...');
+      await this.server.start('log-tools-test');
+
+      const sessionId = this.session.id;
+      const responses = {
+        get_logs_paginated: await this.server.callTool('get_logs_paginated', { sessionId }),
+        get_logs_by_time: await this.server.callTool('get_logs_by_time', { sessionId, start: '1h' }),
+        get_logs_by_level: await this.server.callTool('get_logs_by_level', { sessionId, levels: ['error'] }),
+        get_timeline: await this.server.callTool('get_timeline', { sessionIds: [sessionId] }),
+      };
+
+      console.log('\n📊 Test Results:');
+      let allCompact = true;
+      for (const [tool, response] of Object.entries(responses)) {
+        const compact = response.logs.length > 0 && response.logs.every(entry =>
+          entry.lines === undefined && entry.raw === undefined && entry.content.startsWith('step '));
+        allCompact &&= compact;
+        console.log(`  🔸 ${tool} returns content once: ${compact} (${response.logs.length} entries)`);
+      }
+
+      if (allCompact) {
+        console.log('\n🎉 TEST PASSED: Log tools return compact entries!');
+        return true;
+      } else {
+        console.log('\n❌ TEST FAILED: Log tools repeat entry content');
+        return false;
+      }
+
+    } catch (error) {
+      console.error('❌ Test failed:', error);
+      return false;
+    } finally {
+      this.cleanup();
+    }
+  }
+
+  cleanup() {
+    console.log('\n🧹 Cleaning up...');
+
+    this.server.stop();
+    this.session.remove();
+
+    console.log('✅ Cleanup complete');
+  }
+}
+
+// Run the test
+const test = new LogToolsTest();
+test.runTest().then(success => {
+  process.exit(success ? 0 : 1);
+}).catch(error => {
+  console.error('Test execution failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,125 @@
+#!/usr/bin/env node
+
+/**
+ * Test for long-polling get_new_logs: with waitMs the call waits for new
+ * output instead of returning empty, wakes as soon as an entry arrives (or
+ * one matching its levels or query filter), returns when the session
+ * finishes and times out when nothing happens.
+ */
+
+import { McpTestServer } from './helpers/mcp-test-server.js';
+import { TestSession } from './helpers/test-session.js';
+
+const WAIT_MS = 8000;
+
+class LongPollTest {
+  constructor() {
+    this.session = new TestSession('test_long_poll_' + Date.now());
+    this.server = new McpTestServer(WAIT_MS + 5000);
+  }
+
+  async runTest() {
+    console.log('🧪 Long-poll test starting...\n');
+
+    try {
+      this.session.write('running');
+      this.session.append('info', 'compiling...');
+
+      console.log('🚀 Starting MCP server...');
+      await this.server.start('long-poll-test');
+
+      // Read what is there, so the following calls wait
+      const initial = await this.getNewLogs({});
+      const immediate = initial.logs.length === 1 && initial.waitedMs === undefined;
+
+      const newOutput = await this.getNewLogsWhile({ waitMs: WAIT_MS }, async () => {
+        await this.sleep(500);
+        this.session.append('info', 'compiled successfully');
+      });
+      const woke = newOutput.logs.length === 1 && newOutput.logs[0].content === 'compiled successfully' &&
+        !newOutput.timedOut && newOutput.waitedMs >= 400 && newOutput.waitedMs < WAIT_MS;
+
+      const errors = await this.getNewLogsWhile({ waitMs: WAIT_MS, levels: ['error'] }, async () => {
+        await this.sleep(300);
+        this.session.append('info', 'GET /health 200');
+        await this.sleep(700);
+        this.session.append('error', 'Error: connect ECONNREFUSED 127.0.0.1:5432');
+      });
+      const levelFilter = errors.logs.length === 1 && errors.logs[0].logLevel === 'error' && errors.waitedMs >= 900;
+
+      const ready = await this.getNewLogsWhile({ waitMs: WAIT_MS, query: '/listening on/i' }, async () => {
+        await this.sleep(300);
+        this.session.append('info', 'warming up');
+        await this.sleep(500);
+        this.session.append('info', 'Listening on :3000');
+      });
+      const queryFilter = ready.logs.length === 1 && ready.logs[0].content === 'Listening on :3000' && ready.waitedMs >= 700;
+
+      const quiet = await this.getNewLogs({ waitMs: 1000 });
+      const timedOut = quiet.logs.length === 0 && quiet.timedOut === true && quiet.waitedMs >= 900;
+
+      const finished = await this.getNewLogsWhile({ waitMs: WAIT_MS }, async () => {
+        await this.sleep(500);
+        this.session.write('stopped');
+      });
+      const returnsOnExit = finished.logs.length === 0 && finished.status === 'stopped' &&
+        !finished.timedOut && finished.waitedMs < WAIT_MS;
+
+      console.log('\n📊 Test Results:');
+      console.log(`  🔸 Returns at once without waitMs: ${immediate}`);
+      console.log(`  🔸 Wakes when an entry arrives: ${woke} (after ${newOutput.waitedMs}ms)`);
+      console.log(`  🔸 Waits for a matching level: ${levelFilter} (after ${errors.waitedMs}ms)`);
+      console.log(`  🔸 Waits for a matching query: ${queryFilter} (after ${ready.waitedMs}ms)`);
+      console.log(`  🔸 Times out without output: ${timedOut} (after ${quiet.waitedMs}ms)`);
+      console.log(`  🔸 Returns when the session finishes: ${returnsOnExit} (after ${finished.waitedMs}ms)`);
+
+      if (immediate && woke && levelFilter && queryFilter && timedOut && returnsOnExit) {
+        console.log('\n🎉 TEST PASSED: get_new_logs long-polls for output!');
+        return true;
+      } else {
+        console.log('\n❌ TEST FAILED: Long-polling is wrong');
+        return false;
+      }
+
+    } catch (error) {
+      console.error('❌ Test failed:', error);
+      return false;
+    } finally {
+      this.cleanup();
+    }
+  }
+
+  getNewLogs(args) {
+    return this.server.callTool('get_new_logs', { sessionId: this.session.id, consumerId: 'long-poll-test', ...args });
+  }
+
+  /**
+   * Call get_new_logs and write to the session while it waits
+   */
+  async getNewLogsWhile(args, write) {
+    const [result] = await Promise.all([this.getNewLogs(args), write()]);
+    return result;
+  }
+
+  sleep(ms) {
+    return new Promise(resolve => globalThis.setTimeout(resolve, ms));
+  }
+
+  cleanup() {
+    console.log('\n🧹 Cleaning up...');
+
+    this.server.stop();
+    this.session.remove();
+
+    console.log('✅ Cleanup complete');
+  }
+}
+
+// Run the test
+const test = new LongPollTest();
+test.runTest().then(success => {
+  process.exit(success ? 0 : 1);
+}).catch(error => {
+  console.error('Test execution failed:', error);
+  process.exit(1);
+});
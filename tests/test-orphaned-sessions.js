@@ -0,0 +1,117 @@
+#!/usr/bin/env node
+
+/**
+ * Test for orphaned session detection: a running session whose CLI is gone
+ * and has missed its heartbeats, or has sent none for a minute, is marked
+ * orphaned without touching the CLI's session file; a live CLI's session is
+ * not, a stalled CLI that heartbeats again is running again, and servers
+ * following the data directory see the status change.
+ */
+
+import { spawn } from 'child_process';
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { FileStorage } from '../dist/file-storage.js';
+import { LogManager } from '../dist/log-manager.js';
+import { LogTailer } from '../dist/log-tailer.js';
+import { SessionStore } from '../dist/session-store.js';
+import { TestSession } from './helpers/test-session.js';
+
+const POLL_MS = 100;
+
+class OrphanedSessionsTest {
+  constructor() {
+    this.dataDir = mkdtempSync(join(tmpdir(), 'logpiper-orphan-test-'));
+    this.store = new SessionStore(this.dataDir);
+    this.logManager = new LogManager({ storage: new FileStorage(this.dataDir) });
+    this.tailer = new LogTailer(this.dataDir, POLL_MS);
+    this.updates = [];
+  }
+
+  async runTest() {
+    console.log('🧪 Orphaned sessions test starting...\n');
+
+    try {
+      const deadPid = await this.exitedPid();
+      const secondsAgo = seconds => new Date(Date.now() - seconds * 1000);
+
+      const dead = new TestSession('orphan_dead_cli', this.store);
+      dead.write('running', { cliPid: deadPid, heartbeatAt: secondsAgo(15) });
+      const recent = new TestSession('orphan_recent_heartbeat', this.store);
+      recent.write('running', { cliPid: deadPid, heartbeatAt: secondsAgo(2) });
+      const alive = new TestSession('orphan_live_cli', this.store);
+      alive.write('running', { cliPid: process.pid, heartbeatAt: secondsAgo(15) });
+      const silent = new TestSession('orphan_silent_cli', this.store);
+      silent.write('running', { cliPid: process.pid, heartbeatAt: secondsAgo(90) });
+
+      this.tailer.on('sessionUpdated', (sessionId, status) => this.updates.push(`${sessionId}:${status}`));
+      this.tailer.start();
+
+      const reconciled = this.logManager.reconcileOrphanedSessions().sort();
+      const expected = ['orphan_dead_cli', 'orphan_silent_cli'];
+      const detected = reconciled.join(',') === expected.join(',');
+      console.log('📊 Test Results:');
+      console.log(`  🔸 Dead and silent CLIs detected, live and recent ones kept: ${detected} (${reconciled.join(', ')})`);
+
+      const session = this.logManager.getSession(dead.id);
+      const marked = session.status === 'orphaned' && session.endTime.getTime() === dead.session.heartbeatAt.getTime() &&
+        this.logManager.getSession(alive.id).status === 'running' &&
+        this.logManager.reconcileOrphanedSessions().length === 0;
+      const sessionFile = JSON.parse(readFileSync(this.store.sessionPath(dead.id), 'utf8'));
+      console.log(`  🔸 Marked orphaned as of the last heartbeat, once: ${marked}`);
+      console.log(`  🔸 The CLI's session file is left alone: ${sessionFile.status === 'running'}`);
+
+      await new Promise(resolve => setTimeout(resolve, POLL_MS * 3));
+      const notified = expected.every(sessionId => this.updates.includes(`${sessionId}:orphaned`));
+      console.log(`  🔸 Servers following the data directory see the change: ${notified} (${this.updates.join(', ')})`);
+
+      // What the CLI's heartbeat does once it runs again
+      this.store.updateSessionData(dead.id, sessionData => {
+        if (sessionData.status === 'orphaned') sessionData.status = 'running';
+        sessionData.heartbeatAt = new Date();
+      });
+      const resumed = this.logManager.getSession(dead.id).status === 'running' &&
+        !this.logManager.reconcileOrphanedSessions().includes(dead.id);
+      console.log(`  🔸 A stalled CLI that heartbeats again is running again: ${resumed}`);
+
+      if (detected && marked && sessionFile.status === 'running' && notified && resumed) {
+        console.log('\n🎉 TEST PASSED: Orphaned sessions are detected!');
+        return true;
+      } else {
+        console.log('\n❌ TEST FAILED: Orphaned session detection is wrong');
+        return false;
+      }
+
+    } catch (error) {
+      console.error('❌ Test failed:', error);
+      return false;
+    } finally {
+      this.cleanup();
+    }
+  }
+
+  /**
+   * PID of a process that has exited
+   */
+  exitedPid() {
+    const child = spawn('node', ['-e', ''], { stdio: 'ignore' });
+    return new Promise(resolve => child.on('exit', () => resolve(child.pid)));
+  }
+
+  cleanup() {
+    console.log('\n🧹 Cleaning up...');
+    this.tailer.stop();
+    rmSync(this.dataDir, { recursive: true, force: true });
+    console.log('✅ Cleanup complete');
+  }
+}
+
+// Run the test
+const test = new OrphanedSessionsTest();
+test.runTest().then(success => {
+  process.exit(success ? 0 : 1);
+}).catch(error => {
+  console.error('Test execution failed:', error);
+  process.exit(1);
+});
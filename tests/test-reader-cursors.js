@@ -0,0 +1,172 @@
+#!/usr/bin/env node
+
+/**
+ * Test to verify that get_new_logs keeps a separate cursor per consumerId, and
+ * per connection for clients that pass none, and never removes logs from the
+ * session's file
+ */
+
+import { spawn } from 'child_process';
+import { setTimeout } from 'timers/promises';
+import { existsSync, readFileSync } from 'fs';
+import { join } from 'path';
+import { tmpdir } from 'os';
+import { McpTestServer } from './helpers/mcp-test-server.js';
+
+const LOG_ENTRIES = 15;
+
+class ReaderCursorTest {
+  constructor() {
+    this.processes = [];
+    this.dataDir = join(tmpdir(), 'logpiper');
+    this.sessionIds = [];
+    this.server = new McpTestServer();
+    this.otherServer = new McpTestServer();
+  }
+
+  async runTest() {
+    console.log('🧪 Reader cursor test starting...\n');
+
+    try {
+      // Start MCP server
+      console.log('🚀 Starting MCP server...');
+      await this.server.start('reader-cursor-test');
+
+      // Start a logpiper session
+      console.log('🚀 Starting logpiper session...');
+      await this.startTestSession();
+      await setTimeout(5000); // Wait for the command to finish writing logs
+
+      if (this.sessionIds.length === 0) {
+        throw new Error('No session ID was captured');
+      }
+
+      const initialLogs = this.checkLogCount();
+      console.log(`📊 Initial log count: ${initialLogs} entries`);
+
+      if (initialLogs === 0) {
+        throw new Error('No logs were generated');
+      }
+
+      // The agent reads in two pages; the second continues from its saved cursor
+      console.log('\n📥 Fetching logs as consumer "agent"...');
+      const agentFirst = await this.getNewLogs({ consumerId: 'agent', limit: 5 });
+      const agentSecond = await this.getNewLogs({ consumerId: 'agent', limit: 100 });
+
+      // Another consumer gets the full stream independently
+      console.log('📥 Fetching logs as consumer "reviewer"...');
+      const reviewer = await this.getNewLogs({ consumerId: 'reviewer', limit: 100 });
+
+      // Clients that name no consumer get one per connection
+      console.log('📥 Fetching logs without a consumerId on two connections...');
+      await this.otherServer.start('other-client');
+      const anonymousFirst = await this.getNewLogs({ limit: 100 });
+      const anonymousAgain = await this.getNewLogs({ limit: 100 });
+      const otherConnection = await this.getNewLogs({ limit: 100 }, this.otherServer);
+
+      const logsAfterFetching = this.checkLogCount();
+
+      const agentCount = agentFirst.logs.length + agentSecond.logs.length;
+      const agentResumed = agentSecond.cursor === agentFirst.nextCursor;
+      const reviewerSawAll = reviewer.logs.length === initialLogs;
+      const logsPreserved = logsAfterFetching === initialLogs;
+      const perConnection = anonymousFirst.logs.length === initialLogs && anonymousAgain.logs.length === 0 &&
+        otherConnection.logs.length === initialLogs && anonymousFirst.consumerId !== otherConnection.consumerId;
+
+      console.log('\n📊 Test Results:');
+      console.log(`  🔸 Agent read ${agentFirst.logs.length} + ${agentSecond.logs.length} entries, resumed from saved cursor: ${agentResumed}`);
+      console.log(`  🔸 Reviewer read all entries: ${reviewerSawAll} (${reviewer.logs.length}/${initialLogs})`);
+      console.log(`  🔸 Connections without a consumerId read separately: ${perConnection} (${anonymousFirst.consumerId}, ${otherConnection.consumerId})`);
+      console.log(`  🔸 Logs preserved after fetching: ${logsPreserved} (${initialLogs} → ${logsAfterFetching})`);
+
+      if (agentCount === initialLogs && agentResumed && reviewerSawAll && perConnection && logsPreserved) {
+        console.log('\n🎉 TEST PASSED: Reader cursors work correctly!');
+        return true;
+      } else {
+        console.log('\n❌ TEST FAILED: Reader cursors not working as expected');
+        return false;
+      }
+
+    } catch (error) {
+      console.error('❌ Test failed:', error);
+      return false;
+    } finally {
+      await this.cleanup();
+    }
+  }
+
+  async getNewLogs(args, server = this.server) {
+    const response = await server.callTool('get_new_logs', { sessionId: this.sessionIds[0], ...args });
+    console.log(`  🔸 ${response.consumerId}: ${response.logs.length} entries, cursor ${response.cursor} → ${response.nextCursor}`);
+    return response;
+  }
+
+  async startTestSession() {
+    // JSON lines are stored one entry each, so the session has exactly LOG_ENTRIES entries
+    const script = `for (let i = 1; i <= ${LOG_ENTRIES}; i++) console.log(JSON.stringify({ level: 'info', msg: 'Cursor test log entry ' + i }));`;
+    const childProcess = spawn('node', ['dist/cli.js', 'node', '-e', script], {
+      cwd: process.cwd(),
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+
+    this.processes.push(childProcess);
+
+    childProcess.stdout.on('data', (data) => {
+      const output = data.toString();
+
+      // Extract session ID from output
+      const sessionMatch = output.match(/🔗 Session: (session_[a-f0-9_]+)/);
+      if (sessionMatch && !this.sessionIds.includes(sessionMatch[1])) {
+        this.sessionIds.push(sessionMatch[1]);
+        console.log(`  ✅ Captured session ID: ${sessionMatch[1]}`);
+      }
+    });
+  }
+
+  checkLogCount() {
+    if (this.sessionIds.length === 0) {
+      return 0;
+    }
+
+    const sessionId = this.sessionIds[0];
+    const logsFile = join(this.dataDir, `${sessionId}.logs`);
+
+    if (!existsSync(logsFile)) {
+      return 0;
+    }
+
+    try {
+      const content = readFileSync(logsFile, 'utf8');
+      const lines = content.trim().split('\n').filter(line => line.length > 0);
+      return lines.length;
+    } catch {
+      return 0;
+    }
+  }
+
+  async cleanup() {
+    console.log('\n🧹 Final cleanup...');
+
+    // Terminate logpiper processes
+    for (const process of this.processes) {
+      if (!process.killed) {
+        process.kill('SIGKILL');
+      }
+    }
+
+    // Terminate MCP servers
+    this.server.stop();
+    this.otherServer.stop();
+
+    console.log('✅ Cleanup complete');
+  }
+}
+
+// Run the test
+const test = new ReaderCursorTest();
+test.runTest().then(success => {
+  process.exit(success ? 0 : 1);
+}).catch(error => {
+  console.error('Test execution failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,114 @@
+#!/usr/bin/env node
+
+/**
+ * Test for resource subscriptions on a session: subscribers to
+ * logpiper://sessions/{id} hear about new output and status changes, and
+ * subscribers to logpiper://errors/{id} hear about detected errors only.
+ */
+
+import { McpTestServer } from './helpers/mcp-test-server.js';
+import { TestSession } from './helpers/test-session.js';
+
+const UPDATE_TIMEOUT_MS = 5000;
+
+class ResourceSubscriptionsTest {
+  constructor() {
+    this.session = new TestSession('test_resource_subscriptions_' + Date.now());
+    this.server = new McpTestServer();
+    this.updates = [];
+    this.server.onNotification(message => {
+      if (message.method === 'notifications/resources/updated') {
+        this.updates.push(message.params.uri);
+      }
+    });
+  }
+
+  async runTest() {
+    console.log('🧪 Resource subscriptions test starting...\n');
+
+    try {
+      this.session.write('running');
+
+      console.log('🚀 Starting MCP server...');
+      await this.server.start('resource-subscriptions-test');
+
+      const sessionUri = `logpiper://sessions/${this.session.id}`;
+      const errorsUri = `logpiper://errors/${this.session.id}`;
+      await this.server.request('resources/subscribe', { uri: sessionUri });
+      await this.server.request('resources/subscribe', { uri: errorsUri });
+
+      this.session.append('info', 'Server started on port 3000');
+      const onOutput = await this.waitForUpdate(sessionUri);
+      await this.sleep(500);
+      const noErrorUpdate = !this.updates.includes(errorsUri);
+      const sessionOnOutput = onOutput && noErrorUpdate;
+
+      this.updates = [];
+      this.session.append('error', 'Error: connect ECONNREFUSED 127.0.0.1:5432');
+      const onError = await this.waitForUpdate(errorsUri);
+      const errors = JSON.parse((await this.server.request('resources/read', { uri: errorsUri })).contents[0].text);
+      const errorsOnError = onError && errors.length === 1;
+
+      // Only notifications coalesced after the status change count
+      await this.sleep(500);
+      this.updates = [];
+      this.session.write('stopped');
+      const onStatus = await this.waitForUpdate(sessionUri);
+      const details = JSON.parse((await this.server.request('resources/read', { uri: sessionUri })).contents[0].text);
+      const sessionOnStatus = onStatus && details.status === 'stopped';
+
+      console.log('\n📊 Test Results:');
+      console.log(`  🔸 Session resource updated on output: ${sessionOnOutput}`);
+      console.log(`  🔸 Errors resource updated on a detected error: ${errorsOnError} (${errors.length} errors)`);
+      console.log(`  🔸 Session resource updated on a status change: ${sessionOnStatus} (${details.status})`);
+
+      if (sessionOnOutput && errorsOnError && sessionOnStatus) {
+        console.log('\n🎉 TEST PASSED: Session and error resources notify subscribers!');
+        return true;
+      } else {
+        console.log('\n❌ TEST FAILED: Resource updates are missing');
+        return false;
+      }
+
+    } catch (error) {
+      console.error('❌ Test failed:', error);
+      return false;
+    } finally {
+      this.cleanup();
+    }
+  }
+
+  /**
+   * Whether a resources/updated notification for the URI arrives in time
+   */
+  async waitForUpdate(uri) {
+    const deadline = Date.now() + UPDATE_TIMEOUT_MS;
+    while (!this.updates.includes(uri)) {
+      if (Date.now() > deadline) return false;
+      await this.sleep(50);
+    }
+    return true;
+  }
+
+  sleep(ms) {
+    return new Promise(resolve => globalThis.setTimeout(resolve, ms));
+  }
+
+  cleanup() {
+    console.log('\n🧹 Cleaning up...');
+
+    this.server.stop();
+    this.session.remove();
+
+    console.log('✅ Cleanup complete');
+  }
+}
+
+// Run the test
+const test = new ResourceSubscriptionsTest();
+test.runTest().then(success => {
+  process.exit(success ? 0 : 1);
+}).catch(error => {
+  console.error('Test execution failed:', error);
+  process.exit(1);
+});
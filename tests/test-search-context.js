@@ -0,0 +1,113 @@
+#!/usr/bin/env node
+
+/**
+ * Test for context around search hits: search_logs with before/after returns
+ * each hit with its neighbouring entries from stdout and stderr, merges
+ * overlapping windows, marks the matching entries and lines, and narrows the
+ * context to stay within the token limit.
+ */
+
+import { McpTestServer } from './helpers/mcp-test-server.js';
+import { TestSession } from './helpers/test-session.js';
+
+const ENTRIES = 100;
+const HITS = [20, 23, 60];
+const LARGE_ENTRIES = 200;
+const LARGE_HIT = 100;
+
+class SearchContextTest {
+  constructor() {
+    this.session = new TestSession('test_search_context_' + Date.now());
+    this.largeSession = new TestSession('test_search_context_large_' + Date.now());
+    this.server = new McpTestServer();
+  }
+
+  async runTest() {
+    console.log('🧪 Search context test starting...\n');
+
+    try {
+      this.writeSession(this.session, ENTRIES, i => HITS.includes(i)
+        ? `connect ECONNREFUSED 127.0.0.1:5432\n    at TCPConnectWrap.afterConnect`
+        : `step ${i} done`);
+      this.writeSession(this.largeSession, LARGE_ENTRIES, i => i === LARGE_HIT
+        ? 'connect ECONNREFUSED 127.0.0.1:5432'
+        : `payload ${i} ${'x'.repeat(4000)}`);
+
+      console.log('🚀 Starting MCP server...');
+      await this.server.start('search-context-test');
+
+      const entries = await this.search({ sessionId: this.session.id, before: 2, after: 2 });
+      const windows = entries.results.map(window => window.entries.map(entry => entry.lineNumber));
+      const merged = windows.length === 2 &&
+        windows[0].join(',') === '18,19,20,21,22,23,24,25' && windows[1].join(',') === '58,59,60,61,62';
+      const matchesMarked = entries.results.every(window =>
+        window.entries.every(entry => entry.match === HITS.includes(entry.lineNumber)));
+      const bothStreams = new Set(entries.results[0].entries.map(entry => entry.stream)).size === 2;
+
+      const lines = await this.search({ sessionId: this.session.id, before: 1, after: 1, granularity: 'line' });
+      const matchedLines = lines.results.flatMap(window => window.lines.filter(line => line.match));
+      const linesMarked = matchedLines.length === HITS.length &&
+        matchedLines.every(line => line.content.includes('ECONNREFUSED'));
+
+      const large = await this.search({ sessionId: this.largeSession.id, before: 50, after: 50 });
+      const narrowed = large.context.before < 50 && large.context.after < 50 && !large.truncated &&
+        large.results.length === 1 && large.results[0].entries.some(entry => entry.match && entry.lineNumber === LARGE_HIT);
+
+      console.log('\n📊 Test Results:');
+      console.log(`  🔸 Overlapping windows merged: ${merged} (${windows.map(window => `${window[0]}-${window[window.length - 1]}`).join(', ')})`);
+      console.log(`  🔸 Matching entries marked: ${matchesMarked}`);
+      console.log(`  🔸 Context spans stdout and stderr: ${bothStreams}`);
+      console.log(`  🔸 Matching lines marked: ${linesMarked} (${matchedLines.length} lines)`);
+      console.log(`  🔸 Context narrowed to fit the token limit: ${narrowed} (${large.context.before} before, ${large.context.after} after)`);
+
+      if (merged && matchesMarked && bothStreams && linesMarked && narrowed) {
+        console.log('\n🎉 TEST PASSED: Search hits come with their context!');
+        return true;
+      } else {
+        console.log('\n❌ TEST FAILED: Search context is wrong');
+        return false;
+      }
+
+    } catch (error) {
+      console.error('❌ Test failed:', error);
+      return false;
+    } finally {
+      this.cleanup();
+    }
+  }
+
+  writeSession(session, count, content) {
+    session.write('stopped');
+
+    for (let i = 0; i < count; i++) {
+      const stderr = i % 2 === 1;
+      session.append(stderr ? 'error' : 'info', content(i), {
+        timestamp: new Date(Date.now() - (count - i) * 1000),
+        stream: stderr ? 'stderr' : 'stdout'
+      });
+    }
+  }
+
+  search(args) {
+    return this.server.callTool('search_logs', { query: 'ECONNREFUSED', order: 'time', ...args });
+  }
+
+  cleanup() {
+    console.log('\n🧹 Cleaning up...');
+
+    this.server.stop();
+    this.session.remove();
+    this.largeSession.remove();
+
+    console.log('✅ Cleanup complete');
+  }
+}
+
+// Run the test
+const test = new SearchContextTest();
+test.runTest().then(success => {
+  process.exit(success ? 0 : 1);
+}).catch(error => {
+  console.error('Test execution failed:', error);
+  process.exit(1);
+});
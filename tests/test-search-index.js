@@ -0,0 +1,192 @@
+#!/usr/bin/env node
+
+/**
+ * Test for full-text search through the term index: AND, OR, phrase and
+ * prefix queries match whole tokens, results are ranked by relevance and
+ * recency, relevance pages stay stable while entries are appended, and a
+ * session without a term index is still searchable from its log.
+ */
+
+import { mkdtempSync, rmSync, unlinkSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { LogManager } from '../dist/log-manager.js';
+import { FileStorage } from '../dist/file-storage.js';
+import { InvalidCursorError } from '../dist/cursor.js';
+
+const TOTAL_ENTRIES = 200;
+const PAGE_SIZE = 7;
+
+class SearchIndexTest {
+  constructor() {
+    this.dataDir = mkdtempSync(join(tmpdir(), 'logpiper-search-test-'));
+    this.storage = new FileStorage(this.dataDir);
+    this.logManager = new LogManager({ storage: this.storage });
+    this.sessionId = 'search_index_test';
+    this.rankedSessionId = 'search_index_ranked';
+    this.startTime = Date.now() - TOTAL_ENTRIES * 1000;
+  }
+
+  async runTest() {
+    console.log('🧪 Search index test starting...\n');
+
+    try {
+      this.writeSession(this.sessionId);
+      this.appendEntries(0, TOTAL_ENTRIES);
+      console.log(`✅ Wrote ${TOTAL_ENTRIES} entries`);
+
+      const all = Array.from({ length: TOTAL_ENTRIES }, (_, i) => i);
+      const queries = [
+        ['terms must all match', 'payment failed', undefined, i => i % 4 === 0],
+        ['OR', 'timeout OR refused', undefined, i => i % 4 === 2],
+        ['phrase', '"card declined"', undefined, i => i % 4 === 0],
+        ['phrase in another order', '"declined card"', undefined, () => false],
+        ['prefix', 'auth*', undefined, i => i % 4 === 1 || i % 4 === 3],
+        ['whole tokens only', 'ORDER-4', undefined, i => i % 4 === 0 && i % 10 === 4],
+        ['structured fields', '"region":"eu"', undefined, i => i % 4 === 3 && i % 3 === 0],
+        ['prefix with level filter', 'order*', { levels: ['error'] }, i => i % 4 === 0],
+      ];
+
+      console.log('\n📊 Test Results:');
+      let queriesMatch = true;
+      for (const [name, query, filter, expected] of queries) {
+        const found = await this.pageAll(c => this.logManager.searchLogs(this.sessionId, query, c, PAGE_SIZE, filter));
+        const wanted = all.filter(expected);
+        const same = found.join(',') === wanted.join(',');
+        queriesMatch &&= same;
+        console.log(`  🔸 ${name} (${query}): ${found.length} entries, as expected: ${same}`);
+      }
+
+      // More occurrences rank higher; equally relevant entries rank by recency
+      this.writeSession(this.rankedSessionId);
+      const now = Date.now();
+      this.storage.addLog(this.entry(this.rankedSessionId, 0, 'disk full on /var', now - 48 * 60 * 60 * 1000));
+      this.storage.addLog(this.entry(this.rankedSessionId, 1, 'disk full: disk quota of disk 2 exceeded', now));
+      this.storage.addLog(this.entry(this.rankedSessionId, 2, 'disk full on /tmp', now));
+      this.storage.addLog(this.entry(this.rankedSessionId, 3, 'all good', now));
+      const ranked = (await this.logManager.searchLogs(this.rankedSessionId, 'disk', undefined, 10, undefined, 'relevance'))
+        .data.map(entry => entry.lineNumber);
+      const rankedAsExpected = ranked.join(',') === '1,2,0';
+      console.log(`  🔸 Ranked by relevance and recency: ${rankedAsExpected} (${ranked.join(',')})`);
+
+      // Entries appended while paging by relevance are left out of the ranking
+      const firstPage = await this.logManager.searchLogs(this.sessionId, 'auth*', undefined, PAGE_SIZE, undefined, 'relevance');
+      this.appendEntries(TOTAL_ENTRIES, TOTAL_ENTRIES + 40);
+      const rest = await this.pageAll(
+        c => this.logManager.searchLogs(this.sessionId, 'auth*', c, PAGE_SIZE, undefined, 'relevance'),
+        firstPage.nextCursor
+      );
+      const paged = [...firstPage.data.map(entry => entry.lineNumber), ...rest];
+      const expectedAuth = all.filter(i => i % 4 === 1 || i % 4 === 3);
+      const pagingStable = paged.length === expectedAuth.length &&
+        [...paged].sort((a, b) => a - b).join(',') === expectedAuth.join(',');
+      console.log(`  🔸 Relevance pages stable while appending: ${pagingStable} (${paged.length}/${expectedAuth.length})`);
+
+      const timeCursor = (await this.logManager.searchLogs(this.sessionId, 'auth*', undefined, PAGE_SIZE)).nextCursor;
+      const orderMixRejected = await this.logManager.searchLogs(this.sessionId, 'auth*', timeCursor, PAGE_SIZE, undefined, 'relevance')
+        .then(() => false, error => error instanceof InvalidCursorError);
+      console.log(`  🔸 Cursor of a search in another order rejected: ${orderMixRejected}`);
+
+      // Sessions recorded before term indexes existed are indexed from their log
+      unlinkSync(join(this.dataDir, `${this.sessionId}.terms`));
+      const unindexed = new LogManager({ storage: new FileStorage(this.dataDir) });
+      const scanned = await this.pageAll(c => unindexed.searchLogs(this.sessionId, 'payment failed', c, PAGE_SIZE));
+      const expectedScanned = Array.from({ length: TOTAL_ENTRIES + 40 }, (_, i) => i).filter(i => i % 4 === 0);
+      const fallbackWorks = scanned.join(',') === expectedScanned.join(',');
+      console.log(`  🔸 Session without term index searched from its log: ${fallbackWorks}`);
+
+      if (queriesMatch && rankedAsExpected && pagingStable && orderMixRejected && fallbackWorks) {
+        console.log('\n🎉 TEST PASSED: Search index finds and ranks matches!');
+        return true;
+      } else {
+        console.log('\n❌ TEST FAILED: Search index results are wrong');
+        return false;
+      }
+
+    } catch (error) {
+      console.error('❌ Test failed:', error);
+      return false;
+    } finally {
+      this.cleanup();
+    }
+  }
+
+  writeSession(sessionId) {
+    this.storage.saveSession({
+      id: sessionId,
+      projectDir: process.cwd(),
+      command: 'test',
+      args: [],
+      startTime: new Date(this.startTime),
+      status: 'running',
+      readCursor: 0,
+      errorHistory: [],
+      lastActivity: new Date()
+    });
+  }
+
+  appendEntries(from, to) {
+    for (let i = from; i < to; i++) {
+      const timestamp = this.startTime + i * 1000;
+      switch (i % 4) {
+        case 0:
+          this.storage.addLog({ ...this.entry(this.sessionId, i, `Payment failed for ORDER-${i % 10}: card declined`, timestamp), logLevel: 'error' });
+          break;
+        case 1:
+          this.storage.addLog(this.entry(this.sessionId, i, `Authentication succeeded for user ${i}`, timestamp));
+          break;
+        case 2:
+          this.storage.addLog({
+            ...this.entry(this.sessionId, i, i % 8 === 2 ? 'Connection refused by upstream' : `Request timeout after ${i}ms`, timestamp),
+            logLevel: 'warn'
+          });
+          break;
+        default:
+          this.storage.addLog({
+            ...this.entry(this.sessionId, i, `Authorized payment ORDER-${i}`, timestamp),
+            fields: { region: i % 3 === 0 ? 'eu' : 'us' }
+          });
+      }
+    }
+  }
+
+  entry(sessionId, lineNumber, content, timestamp) {
+    return {
+      id: `${sessionId}_${lineNumber}`,
+      sessionId,
+      projectDir: process.cwd(),
+      command: 'test',
+      args: [],
+      timestamp: new Date(timestamp),
+      logLevel: 'info',
+      stream: 'stdout',
+      content,
+      lineNumber
+    };
+  }
+
+  async pageAll(read, cursor) {
+    const seen = [];
+    do {
+      const result = await read(cursor);
+      seen.push(...result.data.map(entry => entry.lineNumber));
+      cursor = result.hasMore ? result.nextCursor : undefined;
+    } while (cursor);
+    return seen;
+  }
+
+  cleanup() {
+    console.log('\n🧹 Cleaning up...');
+    rmSync(this.dataDir, { recursive: true, force: true });
+    console.log('✅ Cleanup complete');
+  }
+}
+
+// Run the test
+const test = new SearchIndexTest();
+test.runTest().then(success => {
+  process.exit(success ? 0 : 1);
+}).catch(error => {
+  console.error('Test execution failed:', error);
+  process.exit(1);
+});
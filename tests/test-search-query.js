@@ -0,0 +1,199 @@
+#!/usr/bin/env node
+
+/**
+ * Test for the search_logs query language: field filters, regex literals,
+ * negation, boolean operators and time expressions select the expected
+ * entries, the same query works within one session and across sessions,
+ * totals count only entries that match, and malformed queries are rejected.
+ */
+
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { LogManager } from '../dist/log-manager.js';
+import { FileStorage } from '../dist/file-storage.js';
+import { InvalidQueryError, parseSearchQuery } from '../dist/search-query.js';
+
+const ENTRIES_PER_SESSION = 120;
+const PAGE_SIZE = 10;
+const SERVICES = ['api-1', 'api-2', 'worker'];
+
+class SearchQueryTest {
+  constructor() {
+    this.dataDir = mkdtempSync(join(tmpdir(), 'logpiper-query-test-'));
+    this.storage = new FileStorage(this.dataDir);
+    this.logManager = new LogManager({ storage: this.storage });
+    this.sessions = [
+      { id: 'query_test_shop', projectDir: '/work/shop' },
+      { id: 'query_test_billing', projectDir: '/work/billing' }
+    ];
+    // One entry per minute, the newest just now
+    this.startTime = Date.now() - (ENTRIES_PER_SESSION - 1) * 60 * 1000;
+  }
+
+  async runTest() {
+    console.log('🧪 Search query test starting...\n');
+
+    try {
+      for (const session of this.sessions) {
+        this.writeSession(session);
+      }
+      console.log(`✅ Wrote ${this.sessions.length} sessions of ${ENTRIES_PER_SESSION} entries`);
+
+      const all = Array.from({ length: ENTRIES_PER_SESSION }, (_, i) => i);
+      const isError = i => i % 5 === 0;
+      const isHealthcheck = i => i % 3 === 0;
+      const service = i => SERVICES[i % SERVICES.length];
+      const minutesAgo = i => ENTRIES_PER_SESSION - 1 - i;
+
+      const queries = [
+        ['level filter', 'level:error', isError],
+        ['level alternatives', 'level:error,warn', i => isError(i) || (!isError(i) && i % 2 === 1)],
+        ['stream filter', 'stream:stderr', isError],
+        ['service with replicas', 'service:api', i => service(i) !== 'worker'],
+        ['service prefix', 'service:work*', i => service(i) === 'worker'],
+        ['negated phrase', 'level:error -"healthcheck"', i => isError(i) && !isHealthcheck(i)],
+        ['regex', '/timeout after \\d+ms/', isError],
+        ['regex with case flag', '/TIMEOUT AFTER 1\\d+MS/i', i => isError(i) && this.duration(i) >= 100 && this.duration(i) < 200],
+        ['JSON field', 'fields.status:503', isError],
+        ['nested JSON field', 'fields.user.plan:pro', i => i % 4 === 0],
+        ['JSON field comparison', 'fields.status:>=500', isError],
+        ['boolean operators', '(service:worker OR level:error) NOT healthcheck', i => (service(i) === 'worker' || isError(i)) && !isHealthcheck(i)],
+        ['time expression', 'since:9.5m', i => minutesAgo(i) < 10],
+        ['time range', 'since:30.5m until:20.5m', i => minutesAgo(i) <= 30 && minutesAgo(i) > 20],
+        ['project filter', 'project:shop level:error', isError],
+        ['other project', 'project:billing level:error', () => false],
+        ['the example', `level:error service:api -"healthcheck" /timeout after \\d+ms/ since:${ENTRIES_PER_SESSION}m`,
+          i => isError(i) && service(i) !== 'worker' && !isHealthcheck(i)],
+      ];
+
+      console.log('\n📊 Test Results:');
+      const [shop, billing] = this.sessions.map(session => session.id);
+      let queriesMatch = true;
+      for (const [name, query, expected] of queries) {
+        const found = await this.pageAll(c => this.logManager.searchLogs(shop, query, c, PAGE_SIZE));
+        const { total } = await this.logManager.searchLogs(shop, query, undefined, PAGE_SIZE);
+        const wanted = all.filter(expected);
+        const same = found.join(',') === wanted.join(',') && total === wanted.length;
+        queriesMatch &&= same;
+        console.log(`  🔸 ${name} (${query}): ${found.length} entries (total ${total}), as expected: ${same}`);
+      }
+
+      // Entries read to check a regex or field do not count unless they match
+      const single = await this.logManager.searchLogs(shop, '/timeout after 100ms/', undefined, PAGE_SIZE);
+      const none = await this.logManager.searchLogs(shop, 'fields.x:1', undefined, PAGE_SIZE);
+      const acrossRegex = await this.logManager.searchSessions([shop, billing], '/timeout after 100ms/', PAGE_SIZE);
+      const acrossNone = await this.logManager.searchSessions([shop, billing], 'fields.x:1', PAGE_SIZE);
+      const acrossPaged = await this.logManager.searchSessions([shop, billing], '/timeout after \\d+ms/', PAGE_SIZE);
+      const totals = single.data.length === 1 && single.total === 1 && !single.hasMore &&
+        none.data.length === 0 && none.total === 0 && !none.hasMore &&
+        acrossRegex.data.length === 2 && acrossRegex.total === 2 && !acrossRegex.hasMore &&
+        acrossNone.total === 0 && !acrossNone.hasMore &&
+        acrossPaged.data.length === PAGE_SIZE && acrossPaged.total === all.filter(isError).length * 2 && acrossPaged.hasMore;
+      console.log(`  🔸 Totals count verified matches: ${totals} (${single.total}, ${none.total}, ${acrossRegex.total}, ${acrossPaged.total})`);
+
+      // The same query across sessions finds the matches of both, newest first
+      const query = 'level:error -"healthcheck"';
+      const across = await this.logManager.searchSessions([shop, billing], query, 1000);
+      const expectedAcross = all.filter(i => isError(i) && !isHealthcheck(i)).length * 2;
+      const acrossNewestFirst = across.data.every((entry, i) => i === 0 || across.data[i - 1].timestamp >= entry.timestamp);
+      const crossSession = across.data.length === expectedAcross && acrossNewestFirst &&
+        across.data.some(entry => entry.sessionId === billing);
+      console.log(`  🔸 Same query across sessions: ${crossSession} (${across.data.length}/${expectedAcross})`);
+
+      const billingOnly = await this.logManager.searchSessions([shop, billing], 'session:query_test_bill* level:error', 1000);
+      const sessionFilter = billingOnly.data.length === all.filter(isError).length &&
+        billingOnly.data.every(entry => entry.sessionId === billing);
+      console.log(`  🔸 Session filter across sessions: ${sessionFilter}`);
+
+      const invalid = ['(level:error', 'level:error)', '/[unclosed/', 'since:yesterday-ish', 'level:'];
+      const rejected = invalid.filter(text => {
+        try {
+          parseSearchQuery(text);
+          return false;
+        } catch (error) {
+          return error instanceof InvalidQueryError;
+        }
+      });
+      const allRejected = rejected.length === invalid.length;
+      console.log(`  🔸 Malformed queries rejected: ${allRejected} (${rejected.length}/${invalid.length})`);
+
+      if (queriesMatch && totals && crossSession && sessionFilter && allRejected) {
+        console.log('\n🎉 TEST PASSED: Query language selects the right entries!');
+        return true;
+      } else {
+        console.log('\n❌ TEST FAILED: Query results are wrong');
+        return false;
+      }
+
+    } catch (error) {
+      console.error('❌ Test failed:', error);
+      return false;
+    } finally {
+      this.cleanup();
+    }
+  }
+
+  duration(i) {
+    return 100 + (i * 7) % 150;
+  }
+
+  writeSession({ id, projectDir }) {
+    this.storage.saveSession({
+      id,
+      projectDir,
+      command: 'test',
+      args: [],
+      startTime: new Date(this.startTime),
+      status: 'running',
+      readCursor: 0,
+      errorHistory: [],
+      lastActivity: new Date()
+    });
+
+    for (let i = 0; i < ENTRIES_PER_SESSION; i++) {
+      const error = i % 5 === 0;
+      const healthcheck = i % 3 === 0;
+      this.storage.addLog({
+        id: `${id}_${i}`,
+        sessionId: id,
+        projectDir,
+        command: 'test',
+        args: [],
+        timestamp: new Date(this.startTime + i * 60 * 1000),
+        logLevel: error ? 'error' : i % 2 === 1 ? 'warn' : 'info',
+        stream: error ? 'stderr' : 'stdout',
+        content: `${healthcheck ? 'GET /healthcheck' : `GET /orders/${i}`} ${error ? `failed: timeout after ${this.duration(i)}ms` : 'ok'}`,
+        lineNumber: i,
+        service: SERVICES[i % SERVICES.length],
+        fields: { status: error ? 503 : 200, user: { plan: i % 4 === 0 ? 'pro' : 'free' } }
+      });
+    }
+  }
+
+  async pageAll(read) {
+    const seen = [];
+    let cursor;
+    do {
+      const result = await read(cursor);
+      seen.push(...result.data.map(entry => entry.lineNumber));
+      cursor = result.hasMore ? result.nextCursor : undefined;
+    } while (cursor);
+    return seen;
+  }
+
+  cleanup() {
+    console.log('\n🧹 Cleaning up...');
+    rmSync(this.dataDir, { recursive: true, force: true });
+    console.log('✅ Cleanup complete');
+  }
+}
+
+// Run the test
+const test = new SearchQueryTest();
+test.runTest().then(success => {
+  process.exit(success ? 0 : 1);
+}).catch(error => {
+  console.error('Test execution failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,81 @@
+#!/usr/bin/env node
+
+/**
+ * Test for session ID completion: completion/complete on the sessionId of a
+ * resource template suggests matching sessions, and other references get
+ * no suggestions.
+ */
+
+import { McpTestServer } from './helpers/mcp-test-server.js';
+import { TestSession } from './helpers/test-session.js';
+
+class SessionCompletionTest {
+  constructor() {
+    this.session = new TestSession('test_session_completion_' + Date.now());
+    this.server = new McpTestServer();
+  }
+
+  async runTest() {
+    console.log('🧪 Session completion test starting...\n');
+
+    try {
+      this.session.write('running');
+
+      console.log('🚀 Starting MCP server...');
+      await this.server.start('session-completion-test');
+
+      const prefix = 'test_session_completion_';
+      const templates = ['logpiper://logs/{sessionId}', 'logpiper://errors/{sessionId}', 'logpiper://sessions/{sessionId}'];
+      let templatesComplete = true;
+      for (const uri of templates) {
+        const { completion } = await this.complete({ type: 'ref/resource', uri }, prefix);
+        templatesComplete &&= completion.values.includes(this.session.id) &&
+          completion.values.every(value => value.startsWith(prefix));
+      }
+
+      const otherArgument = await this.complete({ type: 'ref/resource', uri: templates[0] }, prefix, 'cursor');
+      const toolName = await this.complete({ type: 'ref/prompt', name: 'get_new_logs' }, prefix);
+      const othersEmpty = otherArgument.completion.values.length === 0 && toolName.completion.values.length === 0;
+
+      console.log('\n📊 Test Results:');
+      console.log(`  🔸 Resource templates complete session IDs: ${templatesComplete}`);
+      console.log(`  🔸 Other arguments and references get no suggestions: ${othersEmpty}`);
+
+      if (templatesComplete && othersEmpty) {
+        console.log('\n🎉 TEST PASSED: Session IDs complete on resource templates!');
+        return true;
+      } else {
+        console.log('\n❌ TEST FAILED: Session ID completion is wrong');
+        return false;
+      }
+
+    } catch (error) {
+      console.error('❌ Test failed:', error);
+      return false;
+    } finally {
+      this.cleanup();
+    }
+  }
+
+  complete(ref, value, name = 'sessionId') {
+    return this.server.request('completion/complete', { ref, argument: { name, value } });
+  }
+
+  cleanup() {
+    console.log('\n🧹 Cleaning up...');
+
+    this.server.stop();
+    this.session.remove();
+
+    console.log('✅ Cleanup complete');
+  }
+}
+
+// Run the test
+const test = new SessionCompletionTest();
+test.runTest().then(success => {
+  process.exit(success ? 0 : 1);
+}).catch(error => {
+  console.error('Test execution failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,221 @@
+#!/usr/bin/env node
+
+/**
+ * Test for the SQLite storage backend: the same sessions are written to the
+ * file and the SQLite backend, and pages, searches, time-range, level and
+ * service reads, cursors and cross-session searches must return the same
+ * entries from both. Session updates, reader cursors, errors, removal and
+ * the watcher are checked on the SQLite backend.
+ * Needs Node.js 22.13 or later; skipped on older versions.
+ */
+
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { LogManager } from '../dist/log-manager.js';
+import { FileStorage } from '../dist/file-storage.js';
+import { InvalidCursorError, cursorAfter } from '../dist/cursor.js';
+
+const ENTRIES_PER_SESSION = 300;
+const PAGE_SIZE = 25;
+const SERVICES = ['api-1', 'api-2', 'worker', undefined];
+const LEVELS = ['info', 'info', 'debug', 'warn', 'error'];
+
+class SqliteStorageTest {
+  constructor() {
+    this.dataDir = mkdtempSync(join(tmpdir(), 'logpiper-sqlite-test-'));
+    this.sessionIds = ['sqlite_test_a', 'sqlite_test_b'];
+    this.startTime = Date.now() - 60 * 60 * 1000;
+  }
+
+  async runTest() {
+    console.log('🧪 SQLite storage test starting...\n');
+
+    let SqliteStorage;
+    try {
+      ({ SqliteStorage } = await import('../dist/sqlite-storage.js'));
+      this.sqlite = new SqliteStorage(join(this.dataDir, 'sqlite'));
+    } catch (error) {
+      console.log(`⏭️  Skipped: ${error.message}`);
+      this.cleanup();
+      return true;
+    }
+
+    try {
+      this.file = new FileStorage(join(this.dataDir, 'files'));
+      this.backends = { file: new LogManager({ storage: this.file }), sqlite: new LogManager({ storage: this.sqlite }) };
+
+      const watcher = this.sqlite.watch();
+      const watched = [];
+      watcher.on('entry', entry => watched.push(entry.lineNumber));
+      watcher.start();
+
+      for (const storage of [this.file, this.sqlite]) {
+        this.writeSessions(storage);
+      }
+      console.log(`✅ Wrote ${this.sessionIds.length} sessions of ${ENTRIES_PER_SESSION} entries to both backends`);
+
+      const [a, b] = this.sessionIds;
+      const from = new Date(this.startTime + 50 * 1000);
+      const to = new Date(this.startTime + 120 * 1000);
+      const reads = {
+        'forward pages': m => this.pageAll(c => m.getLogsPaginated(a, c, PAGE_SIZE)),
+        'reverse pages': m => this.pageAll(c => m.getLogsPaginated(a, c, PAGE_SIZE, true)),
+        'search pages': m => this.pageAll(c => m.searchLogs(a, 'ORDER-7', c, PAGE_SIZE)),
+        'search on fields': m => this.pageAll(c => m.searchLogs(a, '"region":"eu"', c, PAGE_SIZE)),
+        'time range': m => this.pageAll(c => m.getLogsByTimeRangePaginated(a, from, to, c, PAGE_SIZE)),
+        'reverse time range': m => this.pageAll(c => m.getLogsPaginated(a, c, PAGE_SIZE, true, { startTime: from, endTime: to })),
+        'levels': m => this.pageAll(c => m.getLogsByLevelPaginated(a, ['warn', 'error'], c, PAGE_SIZE)),
+        'service replicas': m => this.pageAll(c => m.getLogsPaginated(a, c, PAGE_SIZE, false, { service: 'api' })),
+        'followed with service filter': m => this.follow(m, a, { service: 'worker' }),
+        'cross-session search': async m => (await m.searchSessions([a, b], 'ORDER-7', 40, { levels: ['debug'] })).data
+          .map(entry => `${entry.sessionId}:${entry.lineNumber}`),
+        'count': async m => [await m.getLogCount(a)],
+      };
+
+      console.log('\n📊 Test Results:');
+      let allMatch = true;
+      for (const [name, read] of Object.entries(reads)) {
+        const fileResult = await read(this.backends.file);
+        const sqliteResult = await read(this.backends.sqlite);
+        const same = fileResult.length > 0 && fileResult.join(',') === sqliteResult.join(',');
+        allMatch &&= same;
+        console.log(`  🔸 ${name}: ${fileResult.length} entries, same from both backends: ${same}`);
+      }
+
+      const manager = this.backends.sqlite;
+      const updated = manager.updateSession(a, session => {
+        session.status = 'stopped';
+      });
+      const skipped = manager.updateSession(a, () => false);
+      manager.setReadCursor(a, 'agent', cursorAfter(a, 41));
+      manager.recordErrorEvent(a, { sessionId: a, timestamp: new Date(), message: 'boom' });
+      const session = manager.getSession(a);
+      const sessionKept = updated && !skipped && session.status === 'stopped' && session.readCursor === 42 &&
+        manager.getReadCursor(a, 'agent') === cursorAfter(a, 41) && session.errorHistory.length === 1 &&
+        session.startTime instanceof Date;
+      console.log(`  🔸 Session update, reader cursor and error history: ${sessionKept}`);
+
+      // An orphaned mark older than the last heartbeat is ignored; a close is final
+      const ends = [];
+      for (const backend of Object.values(this.backends)) {
+        const startTime = new Date(this.startTime);
+        backend.recordSessionEnd(b, { status: 'orphaned', endTime: startTime, heartbeatAt: new Date(this.startTime - 1000) });
+        const stale = backend.getSession(b).status;
+        backend.recordSessionEnd(b, { status: 'orphaned', endTime: startTime, heartbeatAt: startTime });
+        const orphaned = backend.getSession(b).status;
+        backend.recordSessionEnd(b, { status: 'stopped', endTime: new Date(this.startTime + 1000) });
+        backend.recordSessionEnd(b, { status: 'orphaned', endTime: startTime, heartbeatAt: startTime });
+        const closed = backend.getSession(b);
+        ends.push([stale, orphaned, closed.status, closed.endTime.getTime() - this.startTime].join(','));
+      }
+      const endsApplied = ends.every(result => result === 'running,orphaned,stopped,1000');
+      console.log(`  🔸 Recorded session ends, same from both backends: ${endsApplied} (${ends.join(' / ')})`);
+
+      const foreignRejected = await manager.getLogsPaginated(a, cursorAfter(b, 10)).then(() => false, error => error instanceof InvalidCursorError);
+      console.log(`  🔸 Cursor of another session rejected: ${foreignRejected}`);
+
+      await new Promise(resolve => setTimeout(resolve, 1200));
+      watcher.stop();
+      const watchedAll = watched.length === ENTRIES_PER_SESSION * this.sessionIds.length;
+      console.log(`  🔸 Watcher saw every new entry: ${watchedAll} (${watched.length})`);
+
+      const removal = manager.removeSession(a);
+      const removed = removal.sessionDeleted && removal.logsDeleted && !manager.hasSession(a) &&
+        (await manager.getLogCount(a)) === 0 && (await manager.getLogCount(b)) === ENTRIES_PER_SESSION;
+      console.log(`  🔸 Removing a session removes only its logs: ${removed}`);
+
+      if (allMatch && sessionKept && endsApplied && foreignRejected && watchedAll && removed) {
+        console.log('\n🎉 TEST PASSED: SQLite backend matches the file backend!');
+        return true;
+      } else {
+        console.log('\n❌ TEST FAILED: SQLite backend differs from the file backend');
+        return false;
+      }
+
+    } catch (error) {
+      console.error('❌ Test failed:', error);
+      return false;
+    } finally {
+      this.cleanup();
+    }
+  }
+
+  writeSessions(storage) {
+    for (const sessionId of this.sessionIds) {
+      storage.saveSession({
+        id: sessionId,
+        projectDir: process.cwd(),
+        command: 'test',
+        args: [],
+        startTime: new Date(this.startTime),
+        status: 'running',
+        readCursor: 0,
+        errorHistory: [],
+        lastActivity: new Date()
+      });
+
+      for (let i = 0; i < ENTRIES_PER_SESSION; i++) {
+        const service = SERVICES[i % SERVICES.length];
+        const logLevel = LEVELS[i % LEVELS.length];
+        storage.addLog({
+          id: `${sessionId}_${i}`,
+          sessionId,
+          projectDir: process.cwd(),
+          command: 'test',
+          args: [],
+          // Sessions interleave in time, so cross-session results mix both
+          timestamp: new Date(this.startTime + i * 1000 + (sessionId === this.sessionIds[1] ? 500 : 0)),
+          logLevel,
+          stream: logLevel === 'error' ? 'stderr' : 'stdout',
+          content: `Handled ORDER-${i % 10} in ${i}ms`,
+          lineNumber: i,
+          ...(service && { service }),
+          ...(i % 7 === 0 && { fields: { region: 'eu', attempt: i } })
+        });
+      }
+    }
+  }
+
+  async pageAll(read) {
+    const seen = [];
+    let cursor;
+    do {
+      const result = await read(cursor);
+      seen.push(...result.data.map(entry => entry.lineNumber));
+      cursor = result.hasMore ? result.nextCursor : undefined;
+    } while (cursor);
+    return seen;
+  }
+
+  /**
+   * Read new entries from the start until caught up, as get_new_logs does
+   */
+  async follow(manager, sessionId, filter) {
+    const seen = [];
+    let cursor;
+    while (true) {
+      const result = await manager.getNewLogs(sessionId, cursor, PAGE_SIZE, filter);
+      cursor = result.nextCursor;
+      seen.push(...result.data.map(entry => entry.lineNumber));
+      if (result.data.length === 0) break;
+    }
+    return seen;
+  }
+
+  cleanup() {
+    console.log('\n🧹 Cleaning up...');
+    this.sqlite?.close();
+    rmSync(this.dataDir, { recursive: true, force: true });
+    console.log('✅ Cleanup complete');
+  }
+}
+
+// Run the test
+const test = new SqliteStorageTest();
+test.runTest().then(success => {
+  process.exit(success ? 0 : 1);
+}).catch(error => {
+  console.error('Test execution failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,257 @@
+#!/usr/bin/env node
+
+/**
+ * Concurrency test for the storage layer: a CLI writes entries at a high rate
+ * (and rewrites its session file for heartbeats and service stats) while
+ * several readers follow the session, save their cursors and record errors
+ * the way the MCP server does. Segments are kept small so the log is rotated
+ * while it is being read. Nothing may be lost or read torn. Server processes
+ * saving cursors at the same time keep each other's, and an error recorded by
+ * several servers is returned once.
+ */
+
+import { spawn } from 'child_process';
+import { existsSync, readdirSync, readFileSync } from 'fs';
+import { LogManager } from '../dist/log-manager.js';
+import { SessionStore } from '../dist/session-store.js';
+import { decodeCursor } from '../dist/cursor.js';
+
+const BATCHES = 120;
+const LINES_PER_BATCH = 100;
+const TOTAL_LINES = BATCHES * LINES_PER_BATCH;
+const CONSUMERS = ['agent', 'reviewer', 'dashboard'];
+const SEGMENT_MAX_MB = 0.5;
+const CURSOR_WRITERS = 4;
+const CURSOR_WRITES = 300;
+
+class StorageConcurrencyTest {
+  constructor() {
+    this.logManager = new LogManager();
+    this.sessionId = null;
+    this.writer = null;
+    this.writerExited = false;
+    this.seen = Object.fromEntries(CONSUMERS.map(consumerId => [consumerId, []]));
+    this.startupEntries = Object.fromEntries(CONSUMERS.map(consumerId => [consumerId, 0]));
+    this.tornReads = 0;
+    this.sessionReads = 0;
+    this.recordedErrors = new Set();
+  }
+
+  async runTest() {
+    console.log('🧪 Storage concurrency test starting...\n');
+
+    try {
+      console.log(`🚀 Starting writer (${TOTAL_LINES} lines from two services)...`);
+      await this.startWriter();
+      console.log(`  ✅ Session: ${this.sessionId}`);
+
+      console.log(`📥 Following with ${CONSUMERS.length} readers while the writer runs...`);
+      await Promise.all([
+        ...CONSUMERS.map(consumerId => this.follow(consumerId)),
+        this.watchSessionFile()
+      ]);
+
+      const session = this.logManager.getSession(this.sessionId);
+      const cursors = session.readCursors;
+      // Entries of the lines printed before a compose prefix is taken
+      const startupEntries = this.startupEntries[CONSUMERS[0]];
+      const logLines = await this.logManager.getLogCount(this.sessionId) - startupEntries;
+      const segments = readdirSync(this.logManager.getDataDir()).filter(file => file.startsWith(`${this.sessionId}.`) && file.endsWith('.logs.gz'));
+      const serviceEntries = Object.values(session.services ?? {}).reduce((sum, stats) => sum + stats.entries, 0);
+
+      const expected = Array.from({ length: TOTAL_LINES }, (_, i) => i).join(',');
+      const readersComplete = CONSUMERS.every(consumerId => this.seen[consumerId].join(',') === expected &&
+        this.startupEntries[consumerId] === startupEntries);
+      const cursorsSaved = CONSUMERS.every(consumerId =>
+        decodeCursor(cursors[consumerId], this.sessionId).sequence === startupEntries + TOTAL_LINES - 1);
+      const errorsKept = session.errorHistory.length === Math.min(this.recordedErrors.size, 100) &&
+        new Set(session.errorHistory.map(errorEvent => errorEvent.id)).size === session.errorHistory.length;
+
+      console.log(`🏁 Saving cursors from ${CURSOR_WRITERS} server processes at once...`);
+      const racedCursors = await this.raceReaderCursors();
+
+      console.log('\n📊 Test Results:');
+      for (const consumerId of CONSUMERS) {
+        console.log(`  🔸 ${consumerId}: ${this.seen[consumerId].length}/${TOTAL_LINES} entries, cursor ${cursors[consumerId]}`);
+      }
+      console.log(`  🔸 Every reader saw every entry once, in order: ${readersComplete}`);
+      console.log(`  🔸 Log entries: ${logLines}/${TOTAL_LINES} in ${segments.length} closed segments and the active one`);
+      console.log(`  🔸 Reader cursors saved: ${cursorsSaved}`);
+      console.log(`  🔸 Torn session reads: ${this.tornReads}/${this.sessionReads}`);
+      console.log(`  🔸 Session status: ${session.status}, service entries: ${serviceEntries}/${TOTAL_LINES}`);
+      console.log(`  🔸 Recorded errors kept once: ${errorsKept} (${session.errorHistory.length})`);
+      console.log(`  🔸 Cursors saved concurrently all kept: ${racedCursors}`);
+
+      if (readersComplete && logLines === TOTAL_LINES && segments.length > 0 && cursorsSaved && this.tornReads === 0 &&
+          session.status === 'stopped' && serviceEntries === TOTAL_LINES && errorsKept && racedCursors) {
+        console.log('\n🎉 TEST PASSED: Concurrent writes and reads are consistent!');
+        return true;
+      } else {
+        console.log('\n❌ TEST FAILED: Storage is not consistent under concurrency');
+        return false;
+      }
+
+    } catch (error) {
+      console.error('❌ Test failed:', error);
+      return false;
+    } finally {
+      this.cleanup();
+    }
+  }
+
+  startWriter() {
+    // Prefixed JSON lines become one entry each, tagged with their service.
+    // Each service starts with a line of its own, as compose services do.
+    const script = `
+      process.stdout.write('worker | starting\\napi    | starting\\n');
+      let seq = 0, batch = 0;
+      const timer = setInterval(() => {
+        let out = '';
+        for (let i = 0; i < ${LINES_PER_BATCH}; i++, seq++) {
+          out += (seq % 2 ? 'api    | ' : 'worker | ') + JSON.stringify({ level: 'info', msg: 'seq ' + seq }) + '\\n';
+        }
+        process.stdout.write(out);
+        if (++batch === ${BATCHES}) clearInterval(timer);
+      }, 50);`;
+
+    this.writer = spawn('node', ['dist/cli.js', 'node', '-e', script], {
+      cwd: process.cwd(),
+      env: { ...process.env, LOGPIPER_SEGMENT_MAX_MB: String(SEGMENT_MAX_MB) },
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+    this.writer.on('exit', () => {
+      this.writerExited = true;
+    });
+
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => reject(new Error('No session ID was captured')), 10000);
+      this.writer.stdout.on('data', (data) => {
+        const sessionMatch = data.toString().match(/🔗 Session: (session_[a-f0-9_]+)/);
+        if (sessionMatch && !this.sessionId) {
+          this.sessionId = sessionMatch[1];
+          clearTimeout(timeout);
+          resolve();
+        }
+      });
+    });
+  }
+
+  /**
+   * Read from the saved cursor in small pages and save the new position,
+   * as get_new_logs does, until the writer is done and everything is read
+   */
+  async follow(consumerId) {
+    while (true) {
+      // Checked before reading so entries appended just before the exit are not missed
+      const writerDone = this.writerExited;
+      const cursor = this.logManager.getReadCursor(this.sessionId, consumerId);
+      const result = await this.logManager.getNewLogs(this.sessionId, cursor, 250);
+      this.logManager.setReadCursor(this.sessionId, consumerId, result.nextCursor);
+
+      for (const entry of result.data) {
+        const seq = entry.content.match(/seq (\d+)/);
+        if (!seq) {
+          this.startupEntries[consumerId]++;
+          continue;
+        }
+        this.seen[consumerId].push(Number(seq[1]));
+        if (entry.lineNumber % 500 === 0) {
+          this.recordError(entry);
+        }
+      }
+
+      if (result.data.length === 0) {
+        if (writerDone) break;
+        await new Promise(resolve => setTimeout(resolve, 20));
+      }
+    }
+  }
+
+  /**
+   * Record an error event the way the servers do while the CLI is writing:
+   * each server following the session records it, under the same id
+   */
+  recordError(entry) {
+    const errorEvent = {
+      id: `error_${entry.id}_test`,
+      sessionId: this.sessionId,
+      timestamp: new Date(),
+      severity: 'medium',
+      category: 'test',
+      summary: `Error recorded at line ${entry.lineNumber}`,
+      details: { errorCount: 1, firstError: entry.content, context: [] },
+      metadata: { projectDir: entry.projectDir, command: entry.command, logsCursor: String(entry.lineNumber) },
+      actions: [],
+      acknowledged: false
+    };
+    this.recordedErrors.add(errorEvent.id);
+    this.logManager.recordErrorEvent(this.sessionId, errorEvent);
+    this.logManager.recordErrorEvent(this.sessionId, errorEvent);
+  }
+
+  /**
+   * Processes that each save their own consumer's cursor over and over, as
+   * the servers of several MCP clients do; every final cursor must survive
+   */
+  async raceReaderCursors() {
+    const script = `
+      import { SessionStore } from './dist/session-store.js';
+      import { cursorAfter } from './dist/cursor.js';
+      const [dataDir, sessionId, consumerId] = process.argv.slice(1);
+      const store = new SessionStore(dataDir);
+      for (let i = 0; i < ${CURSOR_WRITES}; i++) {
+        store.writeReaderCursor(sessionId, consumerId, cursorAfter(sessionId, i));
+      }`;
+
+    const consumers = Array.from({ length: CURSOR_WRITERS }, (_, i) => `server-${i}`);
+    await Promise.all(consumers.map(consumerId => new Promise((resolve, reject) => {
+      const writer = spawn('node', ['--input-type=module', '-e', script, this.logManager.getDataDir(), this.sessionId, consumerId], {
+        cwd: process.cwd(),
+        stdio: 'ignore',
+      });
+      writer.on('exit', code => code === 0 ? resolve() : reject(new Error(`Cursor writer ${consumerId} failed`)));
+    })));
+
+    const cursors = new SessionStore(this.logManager.getDataDir()).readReaderCursors(this.sessionId);
+    return consumers.every(consumerId => cursors[consumerId] &&
+      decodeCursor(cursors[consumerId], this.sessionId).sequence === CURSOR_WRITES - 1);
+  }
+
+  async watchSessionFile() {
+    const sessionFile = `${this.logManager.getDataDir()}/${this.sessionId}.json`;
+    while (!this.writerExited) {
+      if (existsSync(sessionFile)) {
+        this.sessionReads++;
+        try {
+          JSON.parse(readFileSync(sessionFile, 'utf8'));
+        } catch {
+          this.tornReads++;
+        }
+      }
+      await new Promise(resolve => setTimeout(resolve, 5));
+    }
+  }
+
+  cleanup() {
+    console.log('\n🧹 Cleaning up...');
+
+    if (this.writer && !this.writerExited) {
+      this.writer.kill('SIGKILL');
+    }
+
+    if (this.sessionId) {
+      this.logManager.resetSession(this.sessionId);
+    }
+
+    console.log('✅ Cleanup complete');
+  }
+}
+
+// Run the test
+const test = new StorageConcurrencyTest();
+test.runTest().then(success => {
+  process.exit(success ? 0 : 1);
+}).catch(error => {
+  console.error('Test execution failed:', error);
+  process.exit(1);
+});
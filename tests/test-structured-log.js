@@ -0,0 +1,79 @@
+#!/usr/bin/env node
+
+/**
+ * Test for structured log parsing: JSON lines from pino, bunyan, winston and
+ * MongoDB and logfmt lines yield their level, timestamp, message and
+ * remaining fields, while prose and other JSON are left alone.
+ */
+
+import { normalizeLevel, parseJsonLogLine, parseLogfmtLine } from '../dist/structured-log.js';
+
+class StructuredLogTest {
+  async runTest() {
+    console.log('🧪 Structured log test starting...\n');
+
+    try {
+      console.log('📊 Test Results:');
+
+      const pino = parseJsonLogLine('{"level":50,"time":1700000000000,"pid":42,"msg":"request failed","reqId":"r-1"}');
+      const pinoParsed = pino?.format === 'json' && pino.level === 'error' && pino.message === 'request failed' &&
+        pino.timestamp?.getTime() === 1700000000000 && pino.fields.pid === 42 && pino.fields.reqId === 'r-1' &&
+        !('level' in pino.fields) && !('msg' in pino.fields);
+      console.log(`  🔸 pino: numeric level, epoch ms and fields: ${pinoParsed}`);
+
+      const winston = parseJsonLogLine('{"level":"warn","message":"disk almost full","timestamp":"2024-05-01T10:00:00.000Z"}');
+      const zap = parseJsonLogLine('{"level":"info","ts":1700000000.5,"msg":"started"}');
+      const mongo = parseJsonLogLine('{"t":{"$date":"2024-05-01T10:00:00.000+00:00"},"s":"E","c":"NETWORK","msg":"connection refused"}');
+      const jsonLoggers = winston?.level === 'warn' && winston.message === 'disk almost full' &&
+        winston.timestamp?.toISOString() === '2024-05-01T10:00:00.000Z' &&
+        zap?.timestamp?.getTime() === 1700000000500 &&
+        mongo?.level === 'error' && mongo.timestamp?.toISOString() === '2024-05-01T10:00:00.000Z' && mongo.fields.c === 'NETWORK';
+      console.log(`  🔸 winston, zap and MongoDB levels and timestamps: ${jsonLoggers}`);
+
+      // A number under "count" is data, not a level; arrays and broken JSON are not log records
+      const plainJson = parseJsonLogLine('{"count":50,"status":"done"}');
+      const notRecords = plainJson?.level === undefined && plainJson.fields.count === 50 &&
+        parseJsonLogLine('[1,2,3]') === null && parseJsonLogLine('{"level":"error"') === null &&
+        parseJsonLogLine('Server started on {port}') === null;
+      console.log(`  🔸 Other JSON and text are not taken for log records: ${notRecords}`);
+
+      const logfmt = parseLogfmtLine('time=2024-05-01T10:00:00Z level=error msg="upstream timed out" path=/api/users duration=1.2s');
+      const logfmtParsed = logfmt?.format === 'logfmt' && logfmt.level === 'error' && logfmt.message === 'upstream timed out' &&
+        logfmt.timestamp?.toISOString() === '2024-05-01T10:00:00.000Z' &&
+        logfmt.fields.path === '/api/users' && logfmt.fields.duration === '1.2s';
+      const escaped = parseLogfmtLine('level=info msg="said \\"hi\\""')?.message === 'said "hi"';
+      console.log(`  🔸 logfmt pairs, quoted values and escapes: ${logfmtParsed && escaped}`);
+
+      const prose = parseLogfmtLine('Set x=1 before running') === null &&
+        parseLogfmtLine('a=1 b=2') === null &&
+        parseLogfmtLine('level=warn') === null;
+      console.log(`  🔸 Prose with "=" and lines without a level or message left alone: ${prose}`);
+
+      const levels = normalizeLevel('FATAL') === 'error' && normalizeLevel('Warning') === 'warn' &&
+        normalizeLevel('D2') === 'info' && normalizeLevel(30) === 'info' && normalizeLevel(40) === 'warn' &&
+        normalizeLevel('verbose') === 'info' && normalizeLevel('banana') === undefined;
+      console.log(`  🔸 Native levels mapped onto info, warn and error: ${levels}`);
+
+      if (pinoParsed && jsonLoggers && notRecords && logfmtParsed && escaped && prose && levels) {
+        console.log('\n🎉 TEST PASSED: Structured log lines are parsed!');
+        return true;
+      } else {
+        console.log('\n❌ TEST FAILED: Structured log parsing is wrong');
+        return false;
+      }
+
+    } catch (error) {
+      console.error('❌ Test failed:', error);
+      return false;
+    }
+  }
+}
+
+// Run the test
+const test = new StructuredLogTest();
+test.runTest().then(success => {
+  process.exit(success ? 0 : 1);
+}).catch(error => {
+  console.error('Test execution failed:', error);
+  process.exit(1);
+});
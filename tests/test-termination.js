@@ -0,0 +1,124 @@
+#!/usr/bin/env node
+
+/**
+ * Test for how sessions record their end: exit codes and signals map onto a
+ * termination reason, and the CLI stores the exit code, signal, duration and
+ * reason with a stopped or crashed status.
+ */
+
+import { spawn } from 'child_process';
+import { classifyTermination, isCleanTermination } from '../dist/termination.js';
+import { LogManager } from '../dist/log-manager.js';
+
+const CASES = [
+  [0, null, 'success'],
+  [1, null, 'nonzero_exit'],
+  [null, 'SIGKILL', 'killed_sigkill_possible_oom'],
+  [137, null, 'killed_sigkill_possible_oom'], // 128 + 9 reported through a shell
+  [null, 'SIGSEGV', 'segfault'],
+  [139, null, 'segfault'],
+  [null, 'SIGTERM', 'signal_graceful'],
+  [130, null, 'signal_graceful'],
+  [null, 'SIGABRT', 'signal_other'],
+];
+
+class TerminationTest {
+  constructor() {
+    this.logManager = new LogManager();
+    this.sessionIds = [];
+  }
+
+  async runTest() {
+    console.log('🧪 Termination test starting...\n');
+
+    try {
+      console.log('📊 Test Results:');
+
+      const wrong = CASES.filter(([exitCode, signal, reason]) => classifyTermination(exitCode, signal) !== reason);
+      for (const [exitCode, signal, reason] of wrong) {
+        console.log(`  ❌ exit ${exitCode}, signal ${signal}: expected ${reason}, got ${classifyTermination(exitCode, signal)}`);
+      }
+      const clean = isCleanTermination('success') && isCleanTermination('signal_graceful') &&
+        !isCleanTermination('nonzero_exit') && !isCleanTermination('segfault');
+      const classified = wrong.length === 0 && clean;
+      console.log(`  🔸 Exit codes and signals classified: ${classified}`);
+
+      const failed = await this.runCli('setTimeout(() => process.exit(3), 200)');
+      const failedRecorded = failed.status === 'crashed' && failed.exitCode === 3 &&
+        failed.terminationReason === 'nonzero_exit' && failed.durationMs >= 200 && failed.endTime instanceof Date;
+      console.log(`  🔸 Non-zero exit recorded: ${failedRecorded} (${failed.status}, exit code ${failed.exitCode}, ${failed.durationMs}ms)`);
+
+      const killed = await this.runCli(`process.kill(process.pid, 'SIGKILL')`);
+      const killedRecorded = killed.status === 'crashed' && killed.signal === 'SIGKILL' &&
+        killed.terminationReason === 'killed_sigkill_possible_oom';
+      console.log(`  🔸 SIGKILL recorded as a possible OOM kill: ${killedRecorded} (${killed.status}, ${killed.signal})`);
+
+      const succeeded = await this.runCli('');
+      const succeededRecorded = succeeded.status === 'stopped' && succeeded.exitCode === 0 && succeeded.terminationReason === 'success';
+      console.log(`  🔸 Success recorded: ${succeededRecorded} (${succeeded.status})`);
+
+      if (classified && failedRecorded && killedRecorded && succeededRecorded) {
+        console.log('\n🎉 TEST PASSED: Sessions record how they ended!');
+        return true;
+      } else {
+        console.log('\n❌ TEST FAILED: Termination details are wrong');
+        return false;
+      }
+
+    } catch (error) {
+      console.error('❌ Test failed:', error);
+      return false;
+    } finally {
+      this.cleanup();
+    }
+  }
+
+  /**
+   * Run a node script under the CLI and return its session once the CLI has exited
+   */
+  runCli(script) {
+    const cli = spawn('node', ['dist/cli.js', 'node', '-e', script], {
+      cwd: process.cwd(),
+      stdio: ['pipe', 'pipe', 'pipe'],
+    });
+
+    let sessionId = null;
+    cli.stdout.on('data', (data) => {
+      const sessionMatch = data.toString().match(/🔗 Session: (session_[a-f0-9_]+)/);
+      if (sessionMatch && !sessionId) {
+        sessionId = sessionMatch[1];
+        this.sessionIds.push(sessionId);
+      }
+    });
+
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        cli.kill('SIGKILL');
+        reject(new Error('The CLI did not exit'));
+      }, 15000);
+      cli.on('exit', () => {
+        clearTimeout(timeout);
+        sessionId ? resolve(this.logManager.getSession(sessionId)) : reject(new Error('No session ID was captured'));
+      });
+    });
+  }
+
+  cleanup() {
+    console.log('\n🧹 Cleaning up...');
+
+    for (const sessionId of this.sessionIds) {
+      this.logManager.resetSession(sessionId);
+    }
+
+    console.log('✅ Cleanup complete');
+  }
+}
+
+// Run the test
+const test = new TerminationTest();
+test.runTest().then(success => {
+  process.exit(success ? 0 : 1);
+}).catch(error => {
+  console.error('Test execution failed:', error);
+  process.exit(1);
+});
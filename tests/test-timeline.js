@@ -0,0 +1,205 @@
+#!/usr/bin/env node
+
+/**
+ * Test for the time range, level and timeline reads: time ranges given as
+ * ISO timestamps or relative expressions page through the right entries, and
+ * the timeline merging several sessions pages in timestamp order without gaps
+ * or repeats, picks up entries written later and rejects foreign cursors.
+ * Totals count every matching entry on every page.
+ */
+
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { LogManager } from '../dist/log-manager.js';
+import { FileStorage } from '../dist/file-storage.js';
+import { cursorAfter, InvalidCursorError } from '../dist/cursor.js';
+import { parseTimeExpression } from '../dist/time-expression.js';
+
+const ENTRIES_PER_SESSION = 60;
+const PAGE_SIZE = 7;
+
+class TimelineTest {
+  constructor() {
+    this.dataDir = mkdtempSync(join(tmpdir(), 'logpiper-timeline-test-'));
+    this.storage = new FileStorage(this.dataDir);
+    this.logManager = new LogManager({ storage: this.storage });
+    this.sessionIds = ['timeline_test_api', 'timeline_test_web', 'timeline_test_worker'];
+    // One entry per minute and session, the newest just now; sessions are
+    // offset so their entries interleave, and api and web share timestamps
+    this.startTime = Date.now() - ENTRIES_PER_SESSION * 60 * 1000;
+    this.offsets = [0, 0, 30 * 1000];
+  }
+
+  async runTest() {
+    console.log('🧪 Timeline test starting...\n');
+
+    try {
+      this.sessionIds.forEach((sessionId, s) => {
+        this.writeSession(sessionId);
+        for (let i = 0; i < ENTRIES_PER_SESSION; i++) {
+          this.addLog(sessionId, i, this.startTime + i * 60 * 1000 + this.offsets[s]);
+        }
+      });
+      console.log(`✅ Wrote ${this.sessionIds.length} sessions of ${ENTRIES_PER_SESSION} entries`);
+
+      console.log('\n📊 Test Results:');
+      const [api, web] = this.sessionIds;
+
+      const now = Date.parse('2025-01-31T12:00:00Z');
+      const parsed = [
+        ['10m', now - 10 * 60 * 1000],
+        ['1.5h', now - 90 * 60 * 1000],
+        ['1w', now - 7 * 24 * 60 * 60 * 1000],
+        ['now', now],
+        ['2025-01-31T11:00:00Z', now - 60 * 60 * 1000],
+      ].every(([text, expected]) => parseTimeExpression(text, now) === expected);
+      const rejected = ['yesterday', '10 minutes', ''].every(text => Number.isNaN(parseTimeExpression(text, now)));
+      const expressions = parsed && rejected;
+      console.log(`  🔸 Time expressions parsed: ${expressions}`);
+
+      // 20.5 minutes ago up to 10.5 minutes ago: entries 40 to 49
+      const start = new Date(parseTimeExpression('20.5m'));
+      const end = new Date(parseTimeExpression('10.5m'));
+      const forward = await this.pageAll(c => this.logManager.getLogsByTimeRangePaginated(api, start, end, c, PAGE_SIZE));
+      const backward = await this.pageAll(c => this.logManager.getLogsByTimeRangePaginated(api, start, end, c, PAGE_SIZE, undefined, true));
+      const expectedRange = Array.from({ length: 10 }, (_, i) => 40 + i);
+      const timeRange = forward.join(',') === expectedRange.join(',') &&
+        backward.join(',') === [...expectedRange].reverse().join(',');
+      console.log(`  🔸 Time range pages forward and back: ${timeRange} (${forward.length} entries)`);
+
+      const errors = await this.pageAll(c => this.logManager.getLogsByLevelPaginated(api, ['error'], c, PAGE_SIZE));
+      const expectedErrors = Array.from({ length: ENTRIES_PER_SESSION }, (_, i) => i).filter(i => i % 5 === 0);
+      const levels = errors.join(',') === expectedErrors.join(',');
+      console.log(`  🔸 Level filter pages every error: ${levels} (${errors.length} entries)`);
+
+      // Totals count all matches, not those on the page or read so far
+      const rangeFirst = await this.logManager.getLogsByTimeRangePaginated(api, start, end, undefined, PAGE_SIZE);
+      const rangeSecond = await this.logManager.getLogsByTimeRangePaginated(api, start, end, rangeFirst.nextCursor, PAGE_SIZE);
+      const errorsFirst = await this.logManager.getLogsByLevelPaginated(api, ['error'], undefined, PAGE_SIZE);
+      const errorsSecond = await this.logManager.getLogsByLevelPaginated(api, ['error'], errorsFirst.nextCursor, PAGE_SIZE);
+      const totals = [rangeFirst, rangeSecond].every(page => page.total === expectedRange.length) &&
+        [errorsFirst, errorsSecond].every(page => page.total === expectedErrors.length);
+      console.log(`  🔸 Totals count every match: ${totals} (${rangeFirst.total}, ${rangeSecond.total}, ${errorsFirst.total}, ${errorsSecond.total})`);
+
+      const { entries: timeline, cursor } = await this.pageTimeline(this.sessionIds);
+      const keys = timeline.map(entry => `${entry.sessionId}:${entry.lineNumber}`);
+      const complete = new Set(keys).size === keys.length && keys.length === ENTRIES_PER_SESSION * this.sessionIds.length;
+      const ordered = timeline.every((entry, i) => i === 0 || timeline[i - 1].timestamp <= entry.timestamp);
+      console.log(`  🔸 Timeline pages without gaps or repeats: ${complete} (${keys.length} entries)`);
+      console.log(`  🔸 Timeline in timestamp order: ${ordered}`);
+
+      // Entries written after the end was reached appear on the next page
+      this.addLog(web, ENTRIES_PER_SESSION, Date.now());
+      this.addLog(api, ENTRIES_PER_SESSION, Date.now() + 1);
+      const later = await this.logManager.mergeLogsFromSessionsPaginated(this.sessionIds, cursor, PAGE_SIZE);
+      const follows = later.data.map(entry => `${entry.sessionId}:${entry.lineNumber}`).join(',') ===
+        `${web}:${ENTRIES_PER_SESSION},${api}:${ENTRIES_PER_SESSION}` && !later.hasMore;
+      console.log(`  🔸 Timeline cursor picks up new entries: ${follows}`);
+
+      const filtered = await this.pageTimeline(this.sessionIds, { levels: ['error'], startTime: start });
+      const expectedFiltered = [...timeline, ...later.data].filter(entry => entry.logLevel === 'error' && entry.timestamp >= start);
+      const filteredTimeline = filtered.entries.length === expectedFiltered.length &&
+        filtered.entries.every(entry => entry.logLevel === 'error' && entry.timestamp >= start);
+      console.log(`  🔸 Timeline filtered by level and time: ${filteredTimeline} (${filtered.entries.length} entries)`);
+
+      const foreign = [
+        () => this.logManager.mergeLogsFromSessionsPaginated([api, web], cursor, PAGE_SIZE),
+        () => this.logManager.mergeLogsFromSessionsPaginated(this.sessionIds, cursorAfter(api, 5), PAGE_SIZE),
+        () => this.logManager.getLogsPaginated(api, cursor, PAGE_SIZE),
+      ];
+      let foreignRejected = true;
+      for (const read of foreign) {
+        try {
+          await read();
+          foreignRejected = false;
+        } catch (error) {
+          foreignRejected &&= error instanceof InvalidCursorError;
+        }
+      }
+      console.log(`  🔸 Foreign cursors rejected: ${foreignRejected}`);
+
+      if (expressions && timeRange && levels && totals && complete && ordered && follows && filteredTimeline && foreignRejected) {
+        console.log('\n🎉 TEST PASSED: Time, level and timeline reads page correctly!');
+        return true;
+      } else {
+        console.log('\n❌ TEST FAILED: Time, level or timeline reads are wrong');
+        return false;
+      }
+
+    } catch (error) {
+      console.error('❌ Test failed:', error);
+      return false;
+    } finally {
+      this.cleanup();
+    }
+  }
+
+  writeSession(id) {
+    this.storage.saveSession({
+      id,
+      projectDir: '/work/timeline',
+      command: 'test',
+      args: [],
+      startTime: new Date(this.startTime),
+      status: 'running',
+      readCursor: 0,
+      errorHistory: [],
+      lastActivity: new Date()
+    });
+  }
+
+  addLog(sessionId, i, time) {
+    const error = i % 5 === 0;
+    this.storage.addLog({
+      id: `${sessionId}_${i}`,
+      sessionId,
+      projectDir: '/work/timeline',
+      command: 'test',
+      args: [],
+      timestamp: new Date(time),
+      logLevel: error ? 'error' : 'info',
+      stream: error ? 'stderr' : 'stdout',
+      content: `${sessionId} step ${i}`,
+      lineNumber: i
+    });
+  }
+
+  async pageAll(read) {
+    const seen = [];
+    let cursor;
+    do {
+      const result = await read(cursor);
+      seen.push(...result.data.map(entry => entry.lineNumber));
+      cursor = result.hasMore ? result.nextCursor : undefined;
+    } while (cursor);
+    return seen;
+  }
+
+  async pageTimeline(sessionIds, filter) {
+    const entries = [];
+    let cursor;
+    let result;
+    do {
+      result = await this.logManager.mergeLogsFromSessionsPaginated(sessionIds, cursor, PAGE_SIZE, filter);
+      entries.push(...result.data);
+      cursor = result.nextCursor;
+    } while (result.hasMore);
+    return { entries, cursor };
+  }
+
+  cleanup() {
+    console.log('\n🧹 Cleaning up...');
+    rmSync(this.dataDir, { recursive: true, force: true });
+    console.log('✅ Cleanup complete');
+  }
+}
+
+// Run the test
+const test = new TimelineTest();
+test.runTest().then(success => {
+  process.exit(success ? 0 : 1);
+}).catch(error => {
+  console.error('Test execution failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,129 @@
+#!/usr/bin/env node
+
+/**
+ * Test for wait_for_pattern: it returns the first new entry matching a regex
+ * with the entries before it, continues from the consumer's read cursor,
+ * reports when the session exits first or the timeout passes, and rejects
+ * invalid patterns.
+ */
+
+import { McpTestServer } from './helpers/mcp-test-server.js';
+import { TestSession } from './helpers/test-session.js';
+
+const TIMEOUT_MS = 8000;
+const CONSUMER = 'wait-for-pattern-test';
+
+class WaitForPatternTest {
+  constructor() {
+    this.session = new TestSession('test_wait_for_pattern_' + Date.now());
+    this.server = new McpTestServer(TIMEOUT_MS + 5000);
+  }
+
+  async runTest() {
+    console.log('🧪 wait_for_pattern test starting...\n');
+
+    try {
+      this.session.write('running');
+      this.session.append('info', '> vite dev');
+
+      console.log('🚀 Starting MCP server...');
+      await this.server.start('wait-for-pattern-test');
+
+      const ready = await this.waitWhile({ pattern: 'Listening on :(\\d+)', before: 2 }, async () => {
+        await this.sleep(300);
+        this.session.append('info', 'compiling...');
+        this.session.append('warn', 'deprecated option "legacy"');
+        await this.sleep(300);
+        this.session.append('info', 'Listening on :3000');
+        this.session.append('info', 'GET / 200');
+      });
+      const matched = ready.reason === 'matched' && ready.match.content === 'Listening on :3000' &&
+        ready.matchedLine === 'Listening on :3000' && ready.waitedMs >= 500 && ready.waitedMs < TIMEOUT_MS;
+      const context = ready.context.map(entry => entry.content).join('|') === 'compiling...|deprecated option "legacy"';
+
+      // The consumer continues after the match, like get_new_logs
+      const after = await this.server.callTool('get_new_logs', { sessionId: this.session.id, consumerId: CONSUMER });
+      const cursorShared = after.logs.length === 1 && after.logs[0].content === 'GET / 200';
+
+      this.session.append('info', 'hmr update /src/App.tsx');
+      const present = await this.waitFor({ pattern: 'HMR UPDATE', flags: 'i' });
+      const alreadyWritten = present.reason === 'matched' && present.waitedMs < 500;
+
+      const quiet = await this.waitFor({ pattern: 'never printed', timeoutMs: 1000 });
+      const timedOut = quiet.reason === 'timeout' && quiet.waitedMs >= 900 && !quiet.match &&
+        quiet.context[quiet.context.length - 1].content === 'hmr update /src/App.tsx';
+
+      const crash = await this.waitWhile({ pattern: 'never printed', before: 1 }, async () => {
+        await this.sleep(300);
+        this.session.append('error', 'Error: Cannot find module "./routes"');
+        this.session.write('crashed', { exitCode: 1, terminationReason: 'nonzero_exit' });
+      });
+      const exited = crash.reason === 'exited' && crash.status === 'crashed' && crash.exitCode === 1 &&
+        crash.context.length === 1 && crash.context[0].content.includes('Cannot find module') && crash.waitedMs < TIMEOUT_MS;
+
+      let invalidRejected = false;
+      try {
+        await this.waitFor({ pattern: '(unclosed' });
+      } catch (error) {
+        invalidRejected = error.message.includes('Invalid pattern');
+      }
+
+      console.log('\n📊 Test Results:');
+      console.log(`  🔸 Returns the matching entry: ${matched} (after ${ready.waitedMs}ms)`);
+      console.log(`  🔸 Returns the entries before the match: ${context}`);
+      console.log(`  🔸 Consumer continues after the match: ${cursorShared}`);
+      console.log(`  🔸 Matches output already written: ${alreadyWritten} (after ${present.waitedMs}ms)`);
+      console.log(`  🔸 Times out without a match: ${timedOut} (after ${quiet.waitedMs}ms)`);
+      console.log(`  🔸 Returns when the session exits: ${exited} (after ${crash.waitedMs}ms)`);
+      console.log(`  🔸 Invalid pattern rejected: ${invalidRejected}`);
+
+      if (matched && context && cursorShared && alreadyWritten && timedOut && exited && invalidRejected) {
+        console.log('\n🎉 TEST PASSED: wait_for_pattern waits for the right output!');
+        return true;
+      } else {
+        console.log('\n❌ TEST FAILED: wait_for_pattern is wrong');
+        return false;
+      }
+
+    } catch (error) {
+      console.error('❌ Test failed:', error);
+      return false;
+    } finally {
+      this.cleanup();
+    }
+  }
+
+  waitFor(args) {
+    return this.server.callTool('wait_for_pattern', { sessionId: this.session.id, consumerId: CONSUMER, timeoutMs: TIMEOUT_MS, ...args });
+  }
+
+  /**
+   * Call wait_for_pattern and write to the session while it waits
+   */
+  async waitWhile(args, write) {
+    const [result] = await Promise.all([this.waitFor(args), write()]);
+    return result;
+  }
+
+  sleep(ms) {
+    return new Promise(resolve => globalThis.setTimeout(resolve, ms));
+  }
+
+  cleanup() {
+    console.log('\n🧹 Cleaning up...');
+
+    this.server.stop();
+    this.session.remove();
+
+    console.log('✅ Cleanup complete');
+  }
+}
+
+// Run the test
+const test = new WaitForPatternTest();
+test.runTest().then(success => {
+  process.exit(success ? 0 : 1);
+}).catch(error => {
+  console.error('Test execution failed:', error);
+  process.exit(1);
+});